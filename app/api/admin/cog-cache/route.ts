@@ -0,0 +1,59 @@
+import { timingSafeEqual } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getCogCacheStats, purgeCogCache } from '@/lib/cog-cache';
+
+/**
+ * Requests must carry "Authorization: Bearer <COG_CACHE_ADMIN_TOKEN>"
+ * Without a configured token the endpoint is disabled
+ * @returns The error response, null when authorized
+ */
+function checkAuthorization(request: NextRequest): NextResponse | null {
+  const token = process.env.COG_CACHE_ADMIN_TOKEN;
+  if (!token) {
+    return NextResponse.json(
+      { error: 'Cache administration is disabled, set COG_CACHE_ADMIN_TOKEN to enable it' },
+      { status: 403 }
+    );
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const received = Buffer.from(request.headers.get('authorization') ?? '');
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+}
+
+/**
+ * COG cache statistics: size, per-tile usage and hit/miss counters
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = checkAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    return NextResponse.json(await getCogCacheStats());
+  } catch (error) {
+    console.error('COG cache stats error:', error);
+    return NextResponse.json({ error: 'Failed to read cache stats' }, { status: 500 });
+  }
+}
+
+/**
+ * Purge the COG cache, or a single tile with ?path=<tile path as proxied>
+ */
+export async function DELETE(request: NextRequest) {
+  const unauthorized = checkAuthorization(request);
+  if (unauthorized) return unauthorized;
+
+  const tilePath = request.nextUrl.searchParams.get('path') ?? undefined;
+
+  try {
+    const result = await purgeCogCache(tilePath);
+    console.log(`COG cache purged${tilePath ? ` (${tilePath})` : ''}: ${result.removedBytes} bytes`);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('COG cache purge error:', error);
+    return NextResponse.json({ error: 'Failed to purge cache' }, { status: 500 });
+  }
+}
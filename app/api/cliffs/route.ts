@@ -0,0 +1,240 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readElevationWindow } from '@/lib/dem-reader';
+import { partitionTiles } from '@/lib/tile-availability';
+import { DEFAULT_COASTAL_PARAMS } from '@/lib/sea-cliffs';
+import { analyzeCliffs } from '@/lib/cliff-analysis';
+import { criteriaFromDetectionParams, parseCriteriaParams, type CliffCriteria } from '@/lib/cliff-criteria';
+import {
+  cliffMaskToGeoJSON,
+  maskToRows,
+  cliffObjectsToGeoJSON,
+  COMPASS_DIRECTIONS,
+  type CliffObject,
+  type CompassDirection,
+} from '@/lib/cliff-detector';
+
+// Largest window (in square degrees) processed per request
+const MAX_BBOX_AREA = 0.25;
+
+const GEOMETRIES = ['lines', 'points', 'cliffs'] as const;
+type Geometry = (typeof GEOMETRIES)[number];
+
+const MODES = ['all', 'coastal'] as const;
+type Mode = (typeof MODES)[number];
+
+// Statistics cliffs can be ranked by with sort=
+const SORT_KEYS: (keyof CliffObject)[] = ['maxHeightDiff', 'meanHeightDiff', 'area', 'maxSlope'];
+
+/**
+ * Parse a "west,south,east,north" bbox parameter
+ */
+function parseBbox(value: string | null): [number, number, number, number] | null {
+  if (!value) return null;
+  const parts = value.split(',').map((part) => parseFloat(part));
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) return null;
+
+  const [west, south, east, north] = parts;
+  if (west >= east || south >= north) return null;
+  if (south < -90 || north > 90 || west < -180 || east > 180) return null;
+
+  return [west, south, east, north];
+}
+
+/**
+ * Parse a positive numeric parameter, falling back to a default
+ */
+function parsePositive(value: string | null, fallback: number): number | null {
+  if (value === null) return fallback;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Parse a numeric parameter of any sign, falling back to a default
+ */
+function parseNumber(value: string | null, fallback: number): number | null {
+  if (value === null) return fallback;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Parse a comma-separated list of compass directions (empty = all)
+ */
+function parseFacing(value: string | null): CompassDirection[] | null {
+  if (!value) return [];
+  const directions = value.toUpperCase().split(',');
+  return directions.every((d) => (COMPASS_DIRECTIONS as readonly string[]).includes(d))
+    ? (directions as CompassDirection[])
+    : null;
+}
+
+/**
+ * Cliff criteria from minAngle, evaluationDistance, minDrop and minExtent, or from
+ * the older heightDiff and horizontalDist (a gradient over a distance) and minHeight
+ */
+function parseCriteria(searchParams: URLSearchParams): CliffCriteria | null {
+  const get = (name: keyof CliffCriteria) =>
+    name === 'minDrop' ? (searchParams.get('minDrop') ?? searchParams.get('minHeight')) : searchParams.get(name);
+  const heightDiff = searchParams.get('heightDiff');
+  const horizontalDist = searchParams.get('horizontalDist');
+  if (heightDiff === null && horizontalDist === null) {
+    return parseCriteriaParams(get);
+  }
+
+  const legacyDefaults = { heightDiff: 3, horizontalDist: 20 };
+  const parsedHeight = parsePositive(heightDiff, legacyDefaults.heightDiff);
+  const parsedDist = parsePositive(horizontalDist, legacyDefaults.horizontalDist);
+  if (parsedHeight === null || parsedDist === null) return null;
+  return parseCriteriaParams(
+    (name) => (name === 'minDrop' || name === 'minExtent' ? get(name) : null),
+    criteriaFromDetectionParams(parsedHeight, parsedDist)
+  );
+}
+
+/**
+ * Cliff detection on Copernicus DEM data (the configured COG source, see lib/dem-sources)
+ * /api/cliffs?bbox=west,south,east,north&minAngle=15&evaluationDistance=30&geometry=lines
+ *
+ * Cliffs are steeper than minAngle (degrees) over evaluationDistance (m), with a drop of
+ * at least minDrop (m) and a horizontal extent of at least minExtent (m), see lib/cliff-criteria.
+ * heightDiff and horizontalDist (m) are still accepted in place of minAngle and evaluationDistance,
+ * minHeight in place of minDrop. minDrop and minExtent do not apply to geometry=points.
+ *
+ * geometry=lines (default) returns traced cliff edges, geometry=points one point per cliff pixel,
+ * geometry=cliffs one centroid per cliff with its statistics. Cliffs can be further filtered
+ * with minArea (m²) and ranked with sort=maxHeightDiff|meanHeightDiff|area|maxSlope.
+ * Lines and cliffs can be limited to faces looking in given directions with facing=S,SE,SW.
+ *
+ * mode=coastal keeps only sea cliffs: steep faces within maxCoastDistance (m, default 300)
+ * of the sea, found as no-data or pixels at or below seaLevel (m, default 0) connected to
+ * the bbox edge. Lines and cliffs then also carry heightAboveSea, coastDistance and the
+ * direction of the sea (seawardAspect, seaward).
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+
+  const bbox = parseBbox(searchParams.get('bbox'));
+  if (!bbox) {
+    return NextResponse.json(
+      { error: 'Invalid bbox, expected west,south,east,north' },
+      { status: 400 }
+    );
+  }
+
+  const [west, south, east, north] = bbox;
+  if ((east - west) * (north - south) > MAX_BBOX_AREA) {
+    return NextResponse.json(
+      { error: `bbox too large, maximum area is ${MAX_BBOX_AREA} square degrees` },
+      { status: 400 }
+    );
+  }
+
+  const criteria = parseCriteria(searchParams);
+  if (!criteria) {
+    return NextResponse.json(
+      {
+        error:
+          'minAngle must be between 0 and 90 degrees, evaluationDistance, heightDiff and horizontalDist positive, ' +
+          'minDrop and minExtent not negative',
+      },
+      { status: 400 }
+    );
+  }
+
+  const geometry = (searchParams.get('geometry') ?? 'lines') as Geometry;
+  if (!GEOMETRIES.includes(geometry)) {
+    return NextResponse.json(
+      { error: `geometry must be one of ${GEOMETRIES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const minArea = parsePositive(searchParams.get('minArea'), 0);
+  const sortKey = (searchParams.get('sort') ?? 'maxHeightDiff') as keyof CliffObject;
+  if (minArea === null || !SORT_KEYS.includes(sortKey)) {
+    return NextResponse.json(
+      { error: `minArea must be positive, sort one of ${SORT_KEYS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const facing = parseFacing(searchParams.get('facing'));
+  if (facing === null) {
+    return NextResponse.json(
+      { error: `facing must be a list of ${COMPASS_DIRECTIONS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  const isFacing = (direction: CompassDirection | '-') =>
+    facing.length === 0 || (direction !== '-' && facing.includes(direction));
+
+  const mode = (searchParams.get('mode') ?? 'all') as Mode;
+  const maxCoastDistance = parsePositive(
+    searchParams.get('maxCoastDistance'),
+    DEFAULT_COASTAL_PARAMS.maxCoastDistance
+  );
+  const seaLevel = parseNumber(searchParams.get('seaLevel'), DEFAULT_COASTAL_PARAMS.seaLevel);
+  if (!MODES.includes(mode) || maxCoastDistance === null || seaLevel === null) {
+    return NextResponse.json(
+      { error: `mode must be one of ${MODES.join(', ')}, maxCoastDistance positive and seaLevel a number` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const elevationWindow = await readElevationWindow({ west, south, east, north });
+    const { detectionParams, cliffMask, coast, getCliffs, getLines } = analyzeCliffs(elevationWindow, bbox, {
+      criteria,
+      coastal: mode === 'coastal' ? { maxCoastDistance, seaLevel } : null,
+    });
+
+    let geoJson: GeoJSON.FeatureCollection;
+    if (geometry === 'lines') {
+      geoJson = {
+        type: 'FeatureCollection',
+        features: getLines().filter((feature) => isFacing(feature.properties.facing)),
+      };
+    } else if (geometry === 'cliffs') {
+      const cliffs = [...getCliffs().values()];
+      const ranked = cliffs
+        .filter((cliff) => cliff.area >= minArea)
+        .filter((cliff) => isFacing(cliff.facing))
+        .sort((a, b) => (b[sortKey] as number) - (a[sortKey] as number));
+      geoJson = cliffObjectsToGeoJSON(ranked);
+    } else {
+      geoJson = cliffMaskToGeoJSON(
+        maskToRows(cliffMask, elevationWindow.width, elevationWindow.height),
+        bbox
+      );
+    }
+
+    console.log(
+      `Cliff detection: ${geoJson.features.length} ${geometry} in ${elevationWindow.width}x${elevationWindow.height} window`
+    );
+
+    return NextResponse.json({
+      ...geoJson,
+      properties: {
+        bbox,
+        geometry,
+        mode,
+        ...(coast && { maxCoastDistance, seaLevel, coastFound: coast.hasSea }),
+        facing,
+        criteria,
+        ...detectionParams,
+        resolution: elevationWindow.resolution,
+        width: elevationWindow.width,
+        height: elevationWindow.height,
+        missingTiles: elevationWindow.missingTiles.map((tile) => tile.url),
+        noDataTiles: partitionTiles(elevationWindow.missingTiles).missing.map(({ lat, lon }) => ({ lat, lon })),
+      },
+    });
+  } catch (error) {
+    console.error('Cliff detection error:', error);
+    return NextResponse.json(
+      { error: 'Failed to detect cliffs' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,69 +1,215 @@
+import { open } from 'node:fs/promises';
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  getCogObjectInfo,
+  parseRangeHeader,
+  RangeNotSatisfiableError,
+  readCogRange,
+  UpstreamError,
+  type ByteRange,
+  type CachedRange,
+  type CogObjectInfo,
+} from '@/lib/cog-cache';
+import {
+  getCogSource,
+  getCogTilePath,
+  isLocalDirectory,
+  parseCogTilePath,
+  resolveCogTileUrl,
+  type CogDemSource,
+} from '@/lib/dem-sources';
+import { createRateLimiter, getClientId, getCorsHeaders, parseListEnv } from '@/lib/proxy-guard';
+import { isTileAvailable, markTileMissing } from '@/lib/tile-availability';
 
 /**
- * Proxy endpoint for COG files from Copernicus S3 bucket
- * Path-based routing: /api/cog/Copernicus_DSM_COG_10_N46_00_E010_00_DEM/...
+ * Limits (environment):
+ *   COG_PROXY_MAX_RANGE_BYTES     largest range served in one request (default 8 MiB)
+ *   COG_PROXY_RATE_LIMIT          requests per minute per client (default 1200)
+ *   COG_PROXY_CLIENT_CONCURRENCY  concurrent requests per client (default 16)
+ *   COG_PROXY_CONCURRENCY         concurrent requests in total (default 64)
+ *   COG_PROXY_ALLOWED_ORIGINS     comma-separated origins allowed cross-origin (default none)
+ *   COG_PROXY_TRUSTED_PROXIES     reverse proxies in front of the app appending to X-Forwarded-For (default 1)
+ *   COG_PROXY_CLIENT_IP_HEADER    header a proxy sets to the client address, e.g. cf-connecting-ip (default none)
+ *
+ * Clients are told apart by the address the trusted proxies recorded (see getClientId):
+ * a public deployment must not be reachable around its reverse proxy.
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ path: string[] }> }
-) {
+function envInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const MAX_RANGE_BYTES = envInt(process.env.COG_PROXY_MAX_RANGE_BYTES, 8 * 1024 * 1024);
+const ALLOWED_ORIGINS = parseListEnv(process.env.COG_PROXY_ALLOWED_ORIGINS);
+const CLIENT_ID_OPTIONS = {
+  trustedProxies: envInt(process.env.COG_PROXY_TRUSTED_PROXIES, 1),
+  header: process.env.COG_PROXY_CLIENT_IP_HEADER?.toLowerCase() || undefined,
+};
+
+const rateLimiter = createRateLimiter({
+  requestsPerMinute: envInt(process.env.COG_PROXY_RATE_LIMIT, 1200),
+  maxConcurrentPerClient: envInt(process.env.COG_PROXY_CLIENT_CONCURRENCY, 16),
+  maxConcurrent: envInt(process.env.COG_PROXY_CONCURRENCY, 64),
+});
+
+function reject(request: NextRequest, status: number, error: string, extra: Record<string, unknown> = {}) {
+  return NextResponse.json({ error, ...extra }, { status, headers: getCorsHeaders(request, ALLOWED_ORIGINS) });
+}
+
+/**
+ * Defined answer for tiles the source does not have (open ocean), cacheable by clients
+ */
+function noData(request: NextRequest, source: CogDemSource, tile: { lat: number; lon: number }) {
+  const response = reject(request, 404, `No data: ${source.name} has no tile here`, { noData: true, tile });
+  response.headers.set('X-Tile-Status', 'no-data');
+  response.headers.set('Cache-Control', 'public, max-age=86400');
+  return response;
+}
+
+type GuardResult =
+  | { response: NextResponse }
+  | {
+      source: CogDemSource;
+      tile: { lat: number; lon: number };
+      tilePath: string;
+      tileUrl: string;
+      release: () => void;
+    };
+
+/**
+ * Admit only well-formed tile paths of the configured source, within the rate limits
+ */
+async function guard(request: NextRequest, params: Promise<{ path: string[] }>): Promise<GuardResult> {
   const { path } = await params;
-  const pathStr = path.join('/');
+  const tilePath = path.join('/');
+  const source = getCogSource();
+
+  const tile = parseCogTilePath(source, tilePath);
+  const tileUrl = tile ? resolveCogTileUrl(source, tilePath) : null;
+  if (!tile || !tileUrl) {
+    return {
+      response: reject(request, 400, 'Not a tile of the configured DEM source', {
+        source: source.id,
+        example: getCogTilePath(source, 46, 10),
+      }),
+    };
+  }
+
+  // Known gaps are answered without touching the source (or the rate limit)
+  if (!isTileAvailable(tile.lat, tile.lon, source)) {
+    return { response: noData(request, source, tile) };
+  }
 
-  // Reconstruct the S3 URL
-  const s3Url = `https://copernicus-dem-30m.s3.amazonaws.com/${pathStr}`;
+  const slot = rateLimiter.acquire(getClientId(request, CLIENT_ID_OPTIONS));
+  if (!slot.ok) {
+    const response = reject(request, slot.status, slot.error);
+    response.headers.set('Retry-After', String(slot.retryAfter));
+    return { response };
+  }
 
-  console.log('COG proxy (path) request:', s3Url);
+  return { source, tile, tilePath, tileUrl, release: slot.release };
+}
+
+/**
+ * Read a byte range straight from a COG in a local directory source
+ */
+async function readLocalRange(file: string, range: ByteRange): Promise<CachedRange> {
+  const handle = await open(file, 'r').catch(() => {
+    throw new UpstreamError(404);
+  });
 
   try {
-    // Forward range headers for COG partial reads
-    const headers: HeadersInit = {};
-    const rangeHeader = request.headers.get('range');
-    if (rangeHeader) {
-      headers['Range'] = rangeHeader;
-    }
+    const { size } = await handle.stat();
+    const start = range.suffix !== undefined ? Math.max(0, size - range.suffix) : range.start;
+    const end = Math.min(range.end ?? size - 1, size - 1);
+    if (start >= size) throw new RangeNotSatisfiableError(size);
 
-    const response = await fetch(s3Url, { headers });
+    const data = Buffer.alloc(end - start + 1);
+    await handle.read(data, 0, data.length, start);
+    return { data, start, end, size, contentType: 'image/tiff', cache: 'bypass' };
+  } finally {
+    await handle.close();
+  }
+}
 
-    if (!response.ok && response.status !== 206) {
-      console.error('S3 fetch error:', response.status, response.statusText);
-      return NextResponse.json(
-        { error: `S3 error: ${response.status}` },
-        { status: response.status }
-      );
-    }
+async function getLocalObjectInfo(file: string): Promise<CogObjectInfo> {
+  const handle = await open(file, 'r').catch(() => {
+    throw new UpstreamError(404);
+  });
+  try {
+    return { size: (await handle.stat()).size, contentType: 'image/tiff' };
+  } finally {
+    await handle.close();
+  }
+}
 
-    // Create response with CORS headers
-    const responseHeaders = new Headers();
-    responseHeaders.set('Access-Control-Allow-Origin', '*');
-    responseHeaders.set('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS');
-    responseHeaders.set('Access-Control-Allow-Headers', 'Range');
-    responseHeaders.set('Access-Control-Expose-Headers', 'Content-Range, Content-Length, Accept-Ranges');
+/**
+ * Proxy endpoint for COG files from the configured DEM source (lib/dem-sources)
+ * Path-based routing: /api/cog/Copernicus_DSM_COG_10_N46_00_E010_00_DEM/...
+ *
+ * Only tile paths of the configured source and single bounded byte ranges are accepted,
+ * so the proxy cannot be used as an open relay. Ranges are served through the on-disk
+ * block cache (lib/cog-cache), or straight from disk for a local directory source.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const rangeHeader = request.headers.get('range');
+  if (!rangeHeader) {
+    return reject(request, 400, 'Range header required (bytes=start-end)');
+  }
 
-    // Forward important headers from S3
-    const contentType = response.headers.get('content-type');
-    if (contentType) responseHeaders.set('Content-Type', contentType);
+  const range = parseRangeHeader(rangeHeader);
+  if (!range) {
+    return reject(request, 400, 'Only a single byte range (bytes=start-end) is supported');
+  }
+  if (range.suffix === undefined && range.end === undefined) {
+    return reject(request, 400, 'Open-ended ranges are not supported', { maxRangeBytes: MAX_RANGE_BYTES });
+  }
+  const rangeBytes = range.suffix ?? range.end! - range.start + 1;
+  if (rangeBytes > MAX_RANGE_BYTES) {
+    return reject(request, 400, `Range too large (${rangeBytes} bytes)`, { maxRangeBytes: MAX_RANGE_BYTES });
+  }
 
-    const contentLength = response.headers.get('content-length');
-    if (contentLength) responseHeaders.set('Content-Length', contentLength);
+  const admitted = await guard(request, params);
+  if ('response' in admitted) return admitted.response;
+  const { source, tile, tilePath, tileUrl, release } = admitted;
 
-    const contentRange = response.headers.get('content-range');
-    if (contentRange) responseHeaders.set('Content-Range', contentRange);
+  try {
+    const cached = isLocalDirectory(source.baseUrl)
+      ? await readLocalRange(tileUrl, range)
+      : await readCogRange(`${source.id}/${tilePath}`, range, tileUrl);
 
-    const acceptRanges = response.headers.get('accept-ranges');
-    if (acceptRanges) responseHeaders.set('Accept-Ranges', acceptRanges);
+    const responseHeaders = getCorsHeaders(request, ALLOWED_ORIGINS);
+    responseHeaders.set('Content-Type', cached.contentType);
+    responseHeaders.set('Content-Length', String(cached.data.length));
+    responseHeaders.set('Content-Range', `bytes ${cached.start}-${cached.end}/${cached.size}`);
+    responseHeaders.set('Accept-Ranges', 'bytes');
+    responseHeaders.set('X-Cache', cached.cache.toUpperCase());
 
-    return new NextResponse(response.body, {
-      status: response.status,
+    return new NextResponse(new Uint8Array(cached.data), {
+      status: 206,
       headers: responseHeaders,
     });
   } catch (error) {
+    if (error instanceof RangeNotSatisfiableError) {
+      const response = reject(request, 416, 'Range not satisfiable', { size: error.size });
+      response.headers.set('Content-Range', `bytes */${error.size}`);
+      return response;
+    }
+    if (error instanceof UpstreamError && (error.status === 404 || error.status === 403)) {
+      markTileMissing(tile.lat, tile.lon, source);
+      return noData(request, source, tile);
+    }
+    if (error instanceof UpstreamError) {
+      console.error('COG source error:', error.status, tileUrl);
+      return reject(request, error.status === 404 ? 404 : 502, `DEM source error: ${error.status}`);
+    }
     console.error('COG proxy error:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch COG file' },
-      { status: 500 }
-    );
+    return reject(request, 502, 'Failed to fetch COG file');
+  } finally {
+    release();
   }
 }
 
@@ -71,45 +217,45 @@ export async function HEAD(
   request: NextRequest,
   { params }: { params: Promise<{ path: string[] }> }
 ) {
-  const { path } = await params;
-  const pathStr = path.join('/');
-  const s3Url = `https://copernicus-dem-30m.s3.amazonaws.com/${pathStr}`;
+  const admitted = await guard(request, params);
+  if ('response' in admitted) {
+    return new NextResponse(null, { status: admitted.response.status, headers: admitted.response.headers });
+  }
+  const { source, tile, tilePath, tileUrl, release } = admitted;
 
   try {
-    const response = await fetch(s3Url, { method: 'HEAD' });
-
-    const responseHeaders = new Headers();
-    responseHeaders.set('Access-Control-Allow-Origin', '*');
-    responseHeaders.set('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS');
-    responseHeaders.set('Access-Control-Expose-Headers', 'Content-Range, Content-Length, Accept-Ranges');
-
-    const contentType = response.headers.get('content-type');
-    if (contentType) responseHeaders.set('Content-Type', contentType);
+    // Object size is kept with the cached blocks, so this also works offline
+    const info = isLocalDirectory(source.baseUrl)
+      ? await getLocalObjectInfo(tileUrl)
+      : await getCogObjectInfo(`${source.id}/${tilePath}`, tileUrl);
 
-    const contentLength = response.headers.get('content-length');
-    if (contentLength) responseHeaders.set('Content-Length', contentLength);
-
-    const acceptRanges = response.headers.get('accept-ranges');
-    if (acceptRanges) responseHeaders.set('Accept-Ranges', acceptRanges);
+    const responseHeaders = getCorsHeaders(request, ALLOWED_ORIGINS);
+    responseHeaders.set('Content-Type', info.contentType);
+    responseHeaders.set('Content-Length', String(info.size));
+    responseHeaders.set('Accept-Ranges', 'bytes');
 
     return new NextResponse(null, {
-      status: response.status,
+      status: 200,
       headers: responseHeaders,
     });
   } catch (error) {
-    console.error('COG HEAD proxy error:', error);
-    return NextResponse.json({ error: 'Failed' }, { status: 500 });
+    if (error instanceof UpstreamError && (error.status === 404 || error.status === 403)) {
+      markTileMissing(tile.lat, tile.lon, source);
+      const response = noData(request, source, tile);
+      return new NextResponse(null, { status: response.status, headers: response.headers });
+    }
+    if (!(error instanceof UpstreamError)) {
+      console.error('COG HEAD proxy error:', error);
+    }
+    return new NextResponse(null, { status: 502, headers: getCorsHeaders(request, ALLOWED_ORIGINS) });
+  } finally {
+    release();
   }
 }
 
-export async function OPTIONS() {
+export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, {
     status: 204,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
-      'Access-Control-Allow-Headers': 'Range',
-      'Access-Control-Expose-Headers': 'Content-Range, Content-Length, Accept-Ranges',
-    },
+    headers: getCorsHeaders(request, ALLOWED_ORIGINS),
   });
 }
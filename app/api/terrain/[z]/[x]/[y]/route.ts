@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  renderTerrainTile,
+  TERRAIN_ENCODINGS,
+  TERRAIN_MAX_ZOOM,
+  TERRAIN_MIN_ZOOM,
+  type TerrainEncoding,
+} from '@/lib/terrain-tiles';
+
+/**
+ * Terrain-RGB tiles of the Copernicus DEM (the configured COG source, see lib/terrain-tiles)
+ * /api/terrain/{z}/{x}/{y}.png?encoding=terrarium|mapbox
+ *
+ * For a raster-dem source with the same encoding (terrarium by default). Tiles
+ * without any COG (open ocean) are a flat sea-level tile marked X-Tile-Status: no-data.
+ * COGs that exist but cannot be read answer 502, so no flat tile is cached in their place.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ z: string; x: string; y: string }> }
+) {
+  const { z: zParam, x: xParam, y: yParam } = await params;
+  const [z, x, y] = [zParam, xParam, yParam.replace(/\.png$/, '')].map((value) =>
+    /^\d+$/.test(value) ? parseInt(value, 10) : NaN
+  );
+  if ([z, x, y].some(isNaN) || x >= 2 ** z || y >= 2 ** z) {
+    return NextResponse.json({ error: 'Expected /api/terrain/{z}/{x}/{y}.png' }, { status: 400 });
+  }
+  if (z < TERRAIN_MIN_ZOOM || z > TERRAIN_MAX_ZOOM) {
+    return NextResponse.json(
+      { error: `Zoom must be from ${TERRAIN_MIN_ZOOM} to ${TERRAIN_MAX_ZOOM}` },
+      { status: 400 }
+    );
+  }
+
+  const encoding = (request.nextUrl.searchParams.get('encoding') ?? 'terrarium') as TerrainEncoding;
+  if (!TERRAIN_ENCODINGS.includes(encoding)) {
+    return NextResponse.json(
+      { error: `encoding must be one of ${TERRAIN_ENCODINGS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { png, noData } = await renderTerrainTile(z, x, y, encoding);
+
+    const headers = new Headers({
+      'Content-Type': 'image/png',
+      'Content-Length': String(png.length),
+      'Cache-Control': 'public, max-age=86400',
+    });
+    if (noData) headers.set('X-Tile-Status', 'no-data');
+
+    return new NextResponse(new Uint8Array(png), { headers });
+  } catch (error) {
+    console.error('Terrain tile error:', error);
+    // Not cached: the COG may well be readable on the next request
+    return NextResponse.json(
+      { error: 'Failed to render terrain tile' },
+      { status: 502, headers: { 'Cache-Control': 'no-store' } }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCogSource } from '@/lib/dem-sources';
+import { TERRAIN_ENCODINGS, TERRAIN_MAX_ZOOM, TERRAIN_MIN_ZOOM, type TerrainEncoding } from '@/lib/terrain-tiles';
+
+/**
+ * TileJSON of the Copernicus terrain-RGB tiles (see /api/terrain/{z}/{x}/{y}.png)
+ * /api/terrain?encoding=terrarium|mapbox
+ *
+ * The encoding is not part of TileJSON: set the same one on the raster-dem source.
+ */
+export async function GET(request: NextRequest) {
+  const encoding = (request.nextUrl.searchParams.get('encoding') ?? 'terrarium') as TerrainEncoding;
+  if (!TERRAIN_ENCODINGS.includes(encoding)) {
+    return NextResponse.json(
+      { error: `encoding must be one of ${TERRAIN_ENCODINGS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const source = getCogSource();
+  return NextResponse.json({
+    tilejson: '3.0.0',
+    name: `${source.name} terrain-RGB`,
+    attribution: source.attribution,
+    tiles: [`${request.nextUrl.origin}/api/terrain/{z}/{x}/{y}.png?encoding=${encoding}`],
+    minzoom: TERRAIN_MIN_ZOOM,
+    maxzoom: TERRAIN_MAX_ZOOM,
+    tileSize: 256,
+    encoding,
+  });
+}
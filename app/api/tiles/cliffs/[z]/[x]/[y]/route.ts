@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ArchiveNotFoundError, getCliffTileArchive } from '@/lib/cliff-tiles';
+
+/**
+ * Precomputed cliff vector tiles from the PMTiles archive (see lib/cliff-tiles)
+ * /api/tiles/cliffs/{z}/{x}/{y}.pbf
+ *
+ * Tiles are read from the archive with byte range reads. Tiles without cliffs
+ * are answered with 204 (an empty tile for MapLibre), a missing archive with 404.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ z: string; x: string; y: string }> }
+) {
+  const { z: zParam, x: xParam, y: yParam } = await params;
+  const [z, x, y] = [zParam, xParam, yParam.replace(/\.pbf$/, '')].map((value) =>
+    /^\d+$/.test(value) ? parseInt(value, 10) : NaN
+  );
+  if ([z, x, y].some(isNaN) || z > 26 || x >= 2 ** z || y >= 2 ** z) {
+    return NextResponse.json({ error: 'Expected /api/tiles/cliffs/{z}/{x}/{y}.pbf' }, { status: 400 });
+  }
+
+  try {
+    const archive = await getCliffTileArchive();
+    const tile = await archive.getTile(z, x, y);
+    if (!tile) {
+      return new NextResponse(null, { status: 204, headers: { 'Cache-Control': 'public, max-age=3600' } });
+    }
+
+    return new NextResponse(new Uint8Array(tile), {
+      headers: {
+        'Content-Type': 'application/x-protobuf',
+        'Content-Length': String(tile.length),
+        'Cache-Control': 'public, max-age=3600',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ArchiveNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Cliff tile error:', error);
+    return NextResponse.json({ error: 'Could not read the cliff tile' }, { status: 500 });
+  }
+}
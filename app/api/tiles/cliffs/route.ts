@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ArchiveNotFoundError, getCliffTileArchive } from '@/lib/cliff-tiles';
+
+/**
+ * TileJSON of the precomputed cliff tiles (see lib/cliff-tiles and scripts/build-cliff-tiles.ts)
+ * /api/tiles/cliffs
+ *
+ * Answers 404 when no archive has been built, so clients can tell whether the layer exists.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { header, metadata } = await getCliffTileArchive();
+
+    return NextResponse.json(
+      {
+        tilejson: '3.0.0',
+        name: metadata.name,
+        attribution: metadata.attribution,
+        tiles: [`${request.nextUrl.origin}/api/tiles/cliffs/{z}/{x}/{y}.pbf`],
+        minzoom: header.minZoom,
+        maxzoom: header.maxZoom,
+        bounds: header.bounds,
+        center: header.center,
+        vector_layers: metadata.vector_layers,
+        generated: metadata.generated,
+      },
+      { headers: { 'Cache-Control': 'no-cache' } }
+    );
+  } catch (error) {
+    if (error instanceof ArchiveNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Cliff tile archive error:', error);
+    return NextResponse.json({ error: 'Could not read the cliff tile archive' }, { status: 500 });
+  }
+}
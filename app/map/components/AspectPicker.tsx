@@ -0,0 +1,56 @@
+'use client';
+
+import { COMPASS_DIRECTIONS, type CompassDirection } from '@/lib/cliff-detector';
+
+interface AspectPickerProps {
+  selected: CompassDirection[]; // empty = all directions
+  onChange: (selected: CompassDirection[]) => void;
+}
+
+// Compass sectors laid out on a 3x3 grid, centre cell resets the filter
+const LAYOUT: (CompassDirection | null)[] = ['NW', 'N', 'NE', 'W', null, 'E', 'SW', 'S', 'SE'];
+
+export default function AspectPicker({ selected, onChange }: AspectPickerProps) {
+  const toggle = (direction: CompassDirection) => {
+    const next = selected.includes(direction)
+      ? selected.filter((d) => d !== direction)
+      : [...selected, direction];
+
+    // Keep compass order so the filter reads naturally
+    onChange(COMPASS_DIRECTIONS.filter((d) => next.includes(d)));
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-0.5 w-24">
+      {LAYOUT.map((direction) =>
+        direction ? (
+          <button
+            key={direction}
+            onClick={() => toggle(direction)}
+            className={`h-6 text-[10px] font-bold rounded transition-colors ${
+              selected.includes(direction)
+                ? 'bg-red-600 text-white'
+                : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700'
+            }`}
+            title={`Slopes facing ${direction}`}
+          >
+            {direction}
+          </button>
+        ) : (
+          <button
+            key="all"
+            onClick={() => onChange([])}
+            className={`h-6 text-[10px] rounded transition-colors ${
+              selected.length === 0
+                ? 'bg-zinc-700 text-white'
+                : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500 hover:bg-zinc-200 dark:hover:bg-zinc-700'
+            }`}
+            title="All directions"
+          >
+            all
+          </button>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  CLIFF_CRITERIA_LIMITS,
+  getCriteriaGradient,
+  getDetectionParams,
+  type CliffCriteria,
+} from '@/lib/cliff-criteria';
+
+interface CliffCriteriaEditorProps {
+  criteria: CliffCriteria;
+  onChange: (criteria: CliffCriteria) => void;
+  onAngleCommit: () => void; // the angle slider was released
+}
+
+const inputClass =
+  'w-full px-2 py-1 text-xs rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800';
+
+// Numeric criteria edited in meters
+const FIELDS: { key: Exclude<keyof CliffCriteria, 'minAngle'>; label: string; title: string }[] = [
+  { key: 'minDrop', label: 'Min drop', title: 'Smallest height difference across a cliff (0 = any)' },
+  { key: 'minExtent', label: 'Min extent', title: 'Smallest horizontal length of a cliff (0 = any)' },
+  { key: 'evaluationDistance', label: 'Over', title: 'Horizontal distance the angle is measured over' },
+];
+
+/**
+ * A number input applied on blur or Enter, so typing does not start a detection per key
+ */
+function MeterInput({
+  value,
+  limits,
+  title,
+  onCommit,
+}: {
+  value: number;
+  limits: { min: number; max: number; step: number };
+  title: string;
+  onCommit: (value: number) => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseFloat(draft);
+    setDraft(null);
+    if (!Number.isFinite(parsed)) return;
+    const clamped = Math.min(limits.max, Math.max(limits.min, parsed));
+    if (clamped !== value) onCommit(clamped);
+  };
+
+  return (
+    <input
+      type="number"
+      min={limits.min}
+      max={limits.max}
+      step={limits.step}
+      value={draft ?? value}
+      title={title}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+      className={inputClass}
+    />
+  );
+}
+
+export default function CliffCriteriaEditor({ criteria, onChange, onAngleCommit }: CliffCriteriaEditorProps) {
+  const { heightDiff, horizontalDist } = getDetectionParams(criteria);
+  const angleLimits = CLIFF_CRITERIA_LIMITS.minAngle;
+
+  return (
+    <div className="mb-3">
+      <label className="text-xs text-zinc-600 dark:text-zinc-400 block mb-1">
+        Min slope angle: {criteria.minAngle}°
+      </label>
+      <input
+        type="range"
+        min={angleLimits.min}
+        max={angleLimits.max}
+        step={angleLimits.step}
+        value={criteria.minAngle}
+        onChange={(e) => onChange({ ...criteria, minAngle: parseInt(e.target.value) })}
+        onMouseUp={onAngleCommit}
+        onTouchEnd={onAngleCommit}
+        className="w-full h-2 bg-zinc-200 rounded-lg appearance-none cursor-pointer"
+      />
+      <div className="flex justify-between text-xs text-zinc-400 mt-1">
+        <span>{angleLimits.min}° gentle</span>
+        <span>{angleLimits.max}° cliff</span>
+      </div>
+      <div className="text-xs text-zinc-500 mt-1" title="The same steepness as a gradient and as a drop">
+        {criteria.minAngle}° = {getCriteriaGradient(criteria).toFixed(1)}% ({heightDiff.toFixed(1)} m over{' '}
+        {horizontalDist} m)
+      </div>
+
+      <div className="grid grid-cols-3 gap-1 mt-2">
+        {FIELDS.map(({ key, label, title }) => (
+          <label key={key} className="text-[10px] text-zinc-500">
+            {label} (m)
+            <MeterInput
+              value={criteria[key]}
+              limits={CLIFF_CRITERIA_LIMITS[key]}
+              title={title}
+              onCommit={(value) => onChange({ ...criteria, [key]: value })}
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { aspectToCompass } from '@/lib/cliff-detector';
+import { COORDINATE_FORMATS, formatCoordinate, parseCoordinate, type CoordinateFormat, type LatLng } from '@/lib/coordinates';
+import type { PointSample } from '@/lib/elevation-profile';
+
+interface CoordinateSearchProps {
+  point: LatLng | null; // last point searched for
+  sample: PointSample | null; // terrain at the point, null while sampling
+  format: CoordinateFormat; // format the point is shown in
+  onLocate: (point: LatLng) => void;
+  onClear: () => void;
+}
+
+export default function CoordinateSearch({ point, sample, format, onLocate, onClear }: CoordinateSearchProps) {
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const result = parseCoordinate(query);
+    if (!result) {
+      setError('Not a recognised coordinate');
+      return;
+    }
+    setError(null);
+    onLocate(result.point);
+  };
+
+  const clear = () => {
+    setQuery('');
+    setError(null);
+    onClear();
+  };
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 w-80 bg-white dark:bg-zinc-900 px-3 py-2 rounded-lg shadow-lg border border-zinc-200 dark:border-zinc-700">
+      <form onSubmit={handleSubmit} className="flex gap-1">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Go to coordinate"
+          title={`Formats: ${COORDINATE_FORMATS.map(({ name, example }) => `${name} (${example})`).join(', ')}`}
+          className="flex-1 min-w-0 px-2 py-1 text-xs font-mono rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800"
+        />
+        <button type="submit" className="px-2 py-1 text-xs rounded bg-blue-600 hover:bg-blue-700 text-white">
+          Go
+        </button>
+        {point && (
+          <button
+            type="button"
+            onClick={clear}
+            className="px-2 py-1 text-xs rounded bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700"
+            title="Remove the marker"
+          >
+            ×
+          </button>
+        )}
+      </form>
+
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+
+      {point && !error && (
+        <div className="mt-1.5 text-xs">
+          <p className="font-mono">{formatCoordinate(point, format)}</p>
+          {sample ? (
+            <p className="text-zinc-500">
+              {sample.elevation !== null ? `${Math.round(sample.elevation)} m` : 'No elevation data'}
+              {sample.slope !== null &&
+                ` · slope ${Math.round(sample.slope)}°${sample.aspect !== null ? ` facing ${aspectToCompass(sample.aspect)}` : ''}`}
+            </p>
+          ) : (
+            <p className="text-zinc-400">sampling terrain...</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,70 +4,270 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import maplibregl from 'maplibre-gl';
 import { cogProtocol } from '@geomatico/maplibre-cog-protocol';
 import { SAMPLE_LOCATIONS } from '@/lib/cog-utils';
+import { getSlopeColor, sampleElevationGridAsync, SLOPE_ALGORITHMS, type SlopeAlgorithm } from '@/lib/slope-utils';
+import { createSlopeWorkerClient, type SlopeWorkerClient } from '@/lib/slope-worker-client';
+import { slopeProtocol, getSlopeTileUrl } from '@/lib/slope-protocol';
+import { getCogSource, getTerrainSource } from '@/lib/dem-sources';
 import {
-  sampleElevationGrid,
-  calculateSlopeGrid,
-  createSlopeGeoJSON,
-} from '@/lib/slope-utils';
+  copernicusProtocol,
+  updateCopernicusViewport,
+  COPERNICUS_MIN_ZOOM,
+  COPERNICUS_TILE_URL,
+  type CopernicusViewport,
+} from '@/lib/copernicus-protocol';
+import { tilesToGeoJSON } from '@/lib/tile-availability';
+import { sampleElevationProfile, samplePoint, type ElevationProfile, type PointSample } from '@/lib/elevation-profile';
+import { DEFAULT_COASTAL_PARAMS } from '@/lib/sea-cliffs';
+import { EXPORT_FORMATS, exportResults, downloadExport, type ExportFormat } from '@/lib/export';
+import { formatPermalink, parsePermalink, type MapView, type PermalinkState } from '@/lib/permalink';
+import type { Bookmark, BookmarkCliff, BookmarkDraft } from '@/lib/bookmarks';
+import { COORDINATE_FORMATS, formatCoordinate, type CoordinateFormat, type LatLng } from '@/lib/coordinates';
+import { aspectToCompass, type CompassDirection } from '@/lib/cliff-detector';
+import { criteriaToSearchParams, DEFAULT_CLIFF_CRITERIA, type CliffCriteria } from '@/lib/cliff-criteria';
+import {
+  DEFAULT_SLOPE_COLORS,
+  getSlopeColorExpression,
+  getSlopeColorScheme,
+  SLOPE_COLOR_SCHEMES,
+  type SlopeColorScheme,
+  type SlopeColors,
+} from '@/lib/slope-colors';
+import { inspectTerrain, RELIEF_RADII, type TerrainInspection } from '@/lib/terrain-inspection';
+import {
+  getMeasurementLabel,
+  getMeasurementLabelPosition,
+  measure,
+  MEASUREMENT_KINDS,
+  measurementsToGeoJSON,
+  type Measurement,
+  type MeasurementKind,
+} from '@/lib/measurement';
+import AspectPicker from './AspectPicker';
+import CliffCriteriaEditor from './CliffCriteriaEditor';
+import ElevationProfileChart from './ElevationProfileChart';
+import MeasurementPanel from './MeasurementPanel';
+import PlacesPanel from './PlacesPanel';
+import SlopeColorLegend from './SlopeColorLegend';
+import CoordinateSearch from './CoordinateSearch';
 import 'maplibre-gl/dist/maplibre-gl.css';
 
 interface DemMapProps {
   initialLocation?: keyof typeof SAMPLE_LOCATIONS;
 }
 
+// Per-pixel slope raster tiles, or the sampled GeoJSON grid
+type SlopeRenderMode = 'tiles' | 'grid';
+
+// Elevation tiles behind terrain, hillshade and slope
+type ElevationSource = 'terrarium' | 'copernicus';
+
+// Last slope grid shown in slope-data, with the parameters it was computed with
+interface SlopeGridResult {
+  geoJson: GeoJSON.FeatureCollection;
+  bbox: [number, number, number, number];
+  gridSize: number;
+  minSlope: number;
+  algorithm: SlopeAlgorithm;
+  elevationSource: ElevationSource;
+}
+
+// Cliff lines as returned by /api/cliffs, with the detection parameters
+type CliffLinesResult = GeoJSON.FeatureCollection & { properties?: Record<string, unknown> };
+
+interface AnalysisProgress {
+  stage: 'sampling' | 'computing';
+  progress: number; // 0-1
+}
+
+// Slope grid size (cells per side) for a zoom level
+function getSlopeGridSize(zoom: number): number {
+  return zoom >= 14 ? 150 : zoom >= 12 ? 100 : 60;
+}
+
+// A line and its vertices for the profile-line and measurement-draft sources
+function getLineGeoJSON(line: [number, number][]): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: [
+      ...(line.length >= 2
+        ? [{ type: 'Feature' as const, properties: {}, geometry: { type: 'LineString' as const, coordinates: line } }]
+        : []),
+      ...line.map((vertex) => ({
+        type: 'Feature' as const,
+        properties: {},
+        geometry: { type: 'Point' as const, coordinates: vertex },
+      })),
+    ],
+  };
+}
+
+// Popup content of a terrain inspection
+function getInspectionHtml(
+  inspection: TerrainInspection,
+  {
+    coordinates,
+    radius,
+    minSlope,
+    scheme,
+    cliffLinesShown,
+  }: { coordinates: string; radius: number; minSlope: number; scheme: SlopeColorScheme; cliffLinesShown: boolean }
+): string {
+  const meters = (value: number | null) => (value === null ? 'no data' : `${Math.round(value).toLocaleString()} m`);
+  const { slope, aspect, curvature, relief, nearestCliff } = inspection;
+
+  const shape = (value: number) => (Math.abs(value) < 0.5 ? 'flat' : value > 0 ? 'convex' : 'concave');
+  const curvatureText = curvature
+    ? `${curvature.curvature.toFixed(1)} ${shape(curvature.curvature)} (profile ${curvature.profile.toFixed(1)}, plan ${curvature.plan.toFixed(1)})`
+    : 'no data';
+
+  const cliffText = nearestCliff
+    ? `${meters(nearestCliff.distance)} to the ${aspectToCompass(nearestCliff.bearing)} (${Math.round(nearestCliff.bearing)}°), ` +
+      `${Math.round(nearestCliff.height)} m high, facing ${nearestCliff.facing}`
+    : cliffLinesShown
+      ? 'none detected in view'
+      : 'turn on Detect Cliff Lines';
+
+  return `<div class="text-xs text-zinc-800 space-y-0.5">
+    <p class="font-bold">Terrain at ${coordinates}</p>
+    <p>Elevation: ${meters(inspection.elevation)}</p>
+    ${inspection.elevations.map(({ name, elevation }) => `<p class="text-zinc-500 pl-2">${name}: ${meters(elevation)}</p>`).join('')}
+    <p>Slope: ${
+      slope === null
+        ? 'no data'
+        : `<span style="display:inline-block;width:10px;height:10px;border:1px solid #d4d4d8;background:${getSlopeColor(slope, minSlope, scheme)}"></span> ${slope.toFixed(1)}°`
+    }${aspect === null ? '' : `, facing ${inspection.facing} (${Math.round(aspect)}°)`}</p>
+    <p title="1/100 m, convex on ridges and cliff tops, concave in gullies and at cliff toes">Curvature: ${curvatureText}</p>
+    <p>Relief within
+      <select data-action="relief-radius" class="border border-zinc-300 rounded">
+        ${RELIEF_RADII.map((option) => `<option value="${option}"${option === radius ? ' selected' : ''}>${option} m</option>`).join('')}
+      </select>:
+      ${relief ? `${meters(relief.relief)} (${meters(relief.min)} to ${meters(relief.max)})` : 'no data'}
+    </p>
+    <p>Nearest cliff: ${cliffText}</p>
+  </div>`;
+}
+
+function getMapView(mapInstance: maplibregl.Map): MapView {
+  const center = mapInstance.getCenter();
+  return {
+    center: [center.lng, center.lat],
+    zoom: mapInstance.getZoom(),
+    bearing: mapInstance.getBearing(),
+    pitch: mapInstance.getPitch(),
+  };
+}
+
+// Write the current view and settings to the URL hash, as a new history entry or in place
+function updatePermalink(mapInstance: maplibregl.Map, settings: Omit<PermalinkState, 'view'>, push: boolean) {
+  const hash = `#${formatPermalink({ ...settings, view: getMapView(mapInstance) })}`;
+  if (hash === window.location.hash) return;
+
+  // Keep the router's history state
+  if (push) window.history.pushState(window.history.state, '', hash);
+  else window.history.replaceState(window.history.state, '', hash);
+}
+
 export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
   const mapContainer = useRef<HTMLDivElement | null>(null);
   const map = useRef<maplibregl.Map | null>(null);
   const updateTimeout = useRef<NodeJS.Timeout | null>(null);
+  const cliffRequest = useRef<AbortController | null>(null);
+  const analysisRequest = useRef<AbortController | null>(null);
+  const slopeWorkerClient = useRef<SlopeWorkerClient | null>(null);
+  const searchMarker = useRef<maplibregl.Marker | null>(null);
+  const permalinkSettings = useRef<Omit<PermalinkState, 'view'> | null>(null); // latest settings for the URL
+  // State shared in the URL hash when the page was opened
+  const [permalink] = useState(() => parsePermalink(window.location.hash));
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [showCliffs, setShowCliffs] = useState(true);
+  const [showCliffs, setShowCliffs] = useState(permalink.showCliffs ?? true);
   const [showTutorial, setShowTutorial] = useState(true);
-  const [minSlopeAngle, setMinSlopeAngle] = useState(15); // Minimum slope in degrees
+  const [cliffCriteria, setCliffCriteria] = useState<CliffCriteria>(permalink.criteria ?? DEFAULT_CLIFF_CRITERIA);
+  const minSlopeAngle = cliffCriteria.minAngle; // slope view threshold, in degrees
+  const [slopeAlgorithm, setSlopeAlgorithm] = useState<SlopeAlgorithm>(permalink.algorithm ?? 'horn');
+  const [slopeColors, setSlopeColors] = useState<SlopeColors>(permalink.slopeColors ?? DEFAULT_SLOPE_COLORS);
+  const [slopeRenderMode, setSlopeRenderMode] = useState<SlopeRenderMode>(permalink.renderMode ?? 'tiles');
+  const [elevationSource, setElevationSource] = useState<ElevationSource>(permalink.elevationSource ?? 'terrarium');
+  const [copernicusViewport, setCopernicusViewport] = useState<CopernicusViewport | null>(null);
+  const [aspectFilter, setAspectFilter] = useState<CompassDirection[]>(permalink.facing ?? []); // empty = all
   const [elevation, setElevation] = useState<number | null>(null);
   const [coordinates, setCoordinates] = useState<{ lat: number; lng: number } | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
-  const [currentZoom, setCurrentZoom] = useState(6);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const [currentZoom, setCurrentZoom] = useState(permalink.view?.zoom ?? SAMPLE_LOCATIONS[initialLocation].zoom);
   const [showInfoModal, setShowInfoModal] = useState(false);
-
-  const SLOPE_ZOOM_THRESHOLD = 10; // Switch from hillshade to slope at this zoom
-
-  // Register COG protocol once on component mount
+  const [showCliffLines, setShowCliffLines] = useState(permalink.showCliffLines ?? false);
+  const [precomputedAvailable, setPrecomputedAvailable] = useState(false); // a cliff tile archive has been built
+  const [showPrecomputed, setShowPrecomputed] = useState(true);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [coastalMode, setCoastalMode] = useState(permalink.coastalMode ?? false); // sea cliffs only
+  const [slopeResult, setSlopeResult] = useState<SlopeGridResult | null>(null);
+  const [cliffResult, setCliffResult] = useState<CliffLinesResult | null>(null);
+  const [cliffNoDataTiles, setCliffNoDataTiles] = useState<{ lat: number; lon: number }[]>([]);
+  const [profileLine, setProfileLine] = useState<[number, number][]>([]); // [lng, lat] vertices
+  const [isDrawingProfile, setIsDrawingProfile] = useState(false);
+  const [profile, setProfile] = useState<ElevationProfile | null>(null);
+  const [profileHoverIndex, setProfileHoverIndex] = useState<number | null>(null);
+  const [bookmarkDraft, setBookmarkDraft] = useState<BookmarkDraft | null>(null);
+  const [coordinateFormat, setCoordinateFormat] = useState<CoordinateFormat>('decimal');
+  const [searchPoint, setSearchPoint] = useState<LatLng | null>(null);
+  const [searchSample, setSearchSample] = useState<PointSample | null>(null);
+  const [measureKind, setMeasureKind] = useState<MeasurementKind | null>(null); // being drawn
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const isDrawingProfileRef = useRef(false); // read by map click handlers
+  const isMeasuringRef = useRef(false); // read by map click handlers
+  const measurementLabels = useRef<maplibregl.Marker[]>([]);
+  const inspectionPopup = useRef<maplibregl.Popup | null>(null);
+  const inspectionRequest = useRef(0); // latest inspection, older results are dropped
+  const reliefRadius = useRef(RELIEF_RADII[1]); // meters, last chosen in the inspection popup
+
+  const SLOPE_ZOOM_THRESHOLD = 10; // Grid mode switches from hillshade to slope at this zoom
+  const CLIFF_LINES_ZOOM_THRESHOLD = 12; // Server-side cliff detection from this zoom
+  const CLIFF_LINES_MAX_SPAN = 0.4; // Degrees around the centre sent to /api/cliffs
+
+  // Register COG and slope tile protocols once on component mount
   useEffect(() => {
     maplibregl.addProtocol('cog', cogProtocol);
+    maplibregl.addProtocol('slope', slopeProtocol);
+    maplibregl.addProtocol('copernicus', copernicusProtocol);
     return () => {
       maplibregl.removeProtocol('cog');
+      maplibregl.removeProtocol('slope');
+      maplibregl.removeProtocol('copernicus');
+    };
+  }, []);
+
+  // Start the slope analysis worker once on component mount
+  useEffect(() => {
+    const client = createSlopeWorkerClient();
+    slopeWorkerClient.current = client;
+    return () => {
+      slopeWorkerClient.current = null;
+      client.dispose();
     };
   }, []);
 
-  // Function to update layer visibility based on zoom
+  // Function to update layer visibility based on zoom and render mode
   const updateLayerVisibility = useCallback((mapInstance: maplibregl.Map, zoom: number) => {
-    if (!showCliffs) return;
+    const useTiles = showCliffs && slopeRenderMode === 'tiles';
+    const useGrid = showCliffs && slopeRenderMode === 'grid' && zoom >= SLOPE_ZOOM_THRESHOLD;
+    const useHillshade = showCliffs && slopeRenderMode === 'grid' && zoom < SLOPE_ZOOM_THRESHOLD;
 
-    const useSlope = zoom >= SLOPE_ZOOM_THRESHOLD;
+    const setVisibility = (layerId: string, visible: boolean) => {
+      if (mapInstance.getLayer(layerId)) {
+        mapInstance.setLayoutProperty(layerId, 'visibility', visible ? 'visible' : 'none');
+      }
+    };
 
-    // Toggle cliff-hillshade visibility (show at low zoom)
-    if (mapInstance.getLayer('cliff-hillshade')) {
-      mapInstance.setLayoutProperty(
-        'cliff-hillshade',
-        'visibility',
-        useSlope ? 'none' : 'visible'
-      );
-    }
-    if (mapInstance.getLayer('cliff-hillshade-2')) {
-      mapInstance.setLayoutProperty(
-        'cliff-hillshade-2',
-        'visibility',
-        useSlope ? 'none' : 'visible'
-      );
-    }
+    // Slope raster tiles work at every zoom
+    setVisibility('slope-raster', useTiles);
 
-    // Toggle slope layers visibility (show at high zoom)
-    if (mapInstance.getLayer('slope-fill')) {
-      mapInstance.setLayoutProperty('slope-fill', 'visibility', useSlope ? 'visible' : 'none');
-      mapInstance.setLayoutProperty('slope-outline', 'visibility', useSlope ? 'visible' : 'none');
-    }
-  }, [showCliffs, SLOPE_ZOOM_THRESHOLD]);
+    // Grid mode: red-tinted hillshade at low zoom, sampled slope grid at high zoom
+    setVisibility('cliff-hillshade', useHillshade);
+    setVisibility('cliff-hillshade-2', useHillshade);
+    setVisibility('slope-fill', useGrid);
+    setVisibility('slope-outline', useGrid);
+  }, [showCliffs, slopeRenderMode, SLOPE_ZOOM_THRESHOLD]);
 
   // Function to update slope visualization
   const updateSlopeVisualization = useCallback(() => {
@@ -80,65 +280,184 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
     // Update layer visibility
     updateLayerVisibility(mapInstance, zoom);
 
-    // Only calculate slope at zoom level 10+
-    if (zoom < SLOPE_ZOOM_THRESHOLD) {
-      // Clear slope layer at low zoom (hillshade is shown instead)
+    // Only calculate the slope grid in grid mode at zoom level 10+
+    if (slopeRenderMode === 'tiles' || zoom < SLOPE_ZOOM_THRESHOLD) {
+      analysisRequest.current?.abort();
+      analysisRequest.current = null;
+      setIsCalculating(false);
+
+      // Clear slope grid (slope tiles or hillshade are shown instead)
       if (mapInstance.getSource('slope-data')) {
         (mapInstance.getSource('slope-data') as maplibregl.GeoJSONSource).setData({
           type: 'FeatureCollection',
           features: [],
         });
       }
+      setSlopeResult(null);
       return;
     }
 
     setIsCalculating(true);
+    setAnalysisProgress(null);
+
+    // Cancel the analysis running for the previous view
+    analysisRequest.current?.abort();
+    analysisRequest.current = null;
 
     // Debounce the calculation
     if (updateTimeout.current) {
       clearTimeout(updateTimeout.current);
     }
 
-    updateTimeout.current = setTimeout(() => {
+    updateTimeout.current = setTimeout(async () => {
+      const slopeWorker = slopeWorkerClient.current;
+      if (!slopeWorker) return;
+
+      const controller = new AbortController();
+      analysisRequest.current = controller;
+
       try {
         const bounds = mapInstance.getBounds();
 
         // Adjust grid size based on zoom level
-        const gridSize = zoom >= 14 ? 60 : zoom >= 12 ? 40 : 25;
-
-        // Sample elevation grid
-        const { elevations, lngs, lats } = sampleElevationGrid(mapInstance, bounds, gridSize);
-
-        // Calculate slopes
-        const slopeCells = calculateSlopeGrid(elevations, lngs, lats);
+        const gridSize = getSlopeGridSize(zoom);
+
+        // Sample elevation grid (terrain queries need the map, so this stays on the main thread)
+        const { elevations, lngs, lats } = await sampleElevationGridAsync(
+          mapInstance,
+          bounds,
+          gridSize,
+          {
+            signal: controller.signal,
+            onProgress: (progress) => setAnalysisProgress({ stage: 'sampling', progress }),
+          }
+        );
 
         // Calculate cell size
         const cellSizeLng = (bounds.getEast() - bounds.getWest()) / gridSize;
         const cellSizeLat = (bounds.getNorth() - bounds.getSouth()) / gridSize;
         const cellSize = Math.max(cellSizeLng, cellSizeLat);
 
-        // Create GeoJSON
-        const geoJson = createSlopeGeoJSON(slopeCells, cellSize, minSlopeAngle);
+        // Calculate slopes and create GeoJSON in the worker
+        const { geoJson } = await slopeWorker.analyze(
+          {
+            elevations,
+            lngs,
+            lats,
+            cellSize,
+            minSlope: minSlopeAngle,
+            algorithm: slopeAlgorithm,
+            coastal: coastalMode ? DEFAULT_COASTAL_PARAMS : undefined,
+          },
+          {
+            signal: controller.signal,
+            onProgress: (progress) => setAnalysisProgress({ stage: 'computing', progress }),
+          }
+        );
 
         // Update source
         if (mapInstance.getSource('slope-data')) {
           (mapInstance.getSource('slope-data') as maplibregl.GeoJSONSource).setData(geoJson);
         }
+        setSlopeResult({
+          geoJson,
+          bbox: [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()],
+          gridSize,
+          minSlope: minSlopeAngle,
+          algorithm: slopeAlgorithm,
+          elevationSource,
+        });
 
         console.log(`Slope calculated: ${geoJson.features.length} steep cells found`);
       } catch (err) {
+        if (controller.signal.aborted) return;
         console.error('Error calculating slope:', err);
       } finally {
-        setIsCalculating(false);
+        if (analysisRequest.current === controller) {
+          analysisRequest.current = null;
+          setIsCalculating(false);
+          setAnalysisProgress(null);
+        }
       }
     }, 300);
-  }, [showCliffs, minSlopeAngle, updateLayerVisibility]);
+  }, [showCliffs, minSlopeAngle, slopeAlgorithm, slopeRenderMode, coastalMode, elevationSource, updateLayerVisibility]);
+
+  // Function to update detected cliff lines from the server
+  const updateCliffLines = useCallback(async () => {
+    if (!map.current) return;
+
+    const mapInstance = map.current;
+    const source = mapInstance.getSource('cliff-lines') as maplibregl.GeoJSONSource | undefined;
+    if (!source) return;
+
+    // Cancel any detection still running for a previous view
+    cliffRequest.current?.abort();
+    cliffRequest.current = null;
+
+    if (!showCliffLines || mapInstance.getZoom() < CLIFF_LINES_ZOOM_THRESHOLD) {
+      source.setData({ type: 'FeatureCollection', features: [] });
+      setCliffResult(null);
+      setCliffNoDataTiles([]);
+      setIsDetecting(false);
+      return;
+    }
+
+    // Limit the request to the area around the centre (pitched views reach far away)
+    const bounds = mapInstance.getBounds();
+    const center = mapInstance.getCenter();
+    const halfSpan = CLIFF_LINES_MAX_SPAN / 2;
+    const bbox = [
+      Math.max(bounds.getWest(), center.lng - halfSpan),
+      Math.max(bounds.getSouth(), center.lat - halfSpan),
+      Math.min(bounds.getEast(), center.lng + halfSpan),
+      Math.min(bounds.getNorth(), center.lat + halfSpan),
+    ];
+
+    const controller = new AbortController();
+    cliffRequest.current = controller;
+    setIsDetecting(true);
+
+    try {
+      const query = new URLSearchParams({
+        bbox: bbox.map((v) => v.toFixed(5)).join(','),
+        ...criteriaToSearchParams(cliffCriteria),
+      });
+      if (coastalMode) query.set('mode', 'coastal');
+      const response = await fetch(`/api/cliffs?${query}`, {
+        signal: controller.signal,
+      });
+      const geoJson = await response.json();
+      if (!response.ok) {
+        throw new Error(geoJson.error ?? `HTTP ${response.status}`);
+      }
+
+      source.setData(geoJson);
+      setCliffResult(geoJson);
+      setCliffNoDataTiles(geoJson.properties?.noDataTiles ?? []);
+      console.log(`Cliff detection: ${geoJson.features.length} cliff lines found`);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Error detecting cliffs:', err);
+    } finally {
+      if (cliffRequest.current === controller) {
+        cliffRequest.current = null;
+        setIsDetecting(false);
+      }
+    }
+  }, [showCliffLines, coastalMode, cliffCriteria, CLIFF_LINES_ZOOM_THRESHOLD, CLIFF_LINES_MAX_SPAN]);
 
   useEffect(() => {
     if (!mapContainer.current || map.current) return;
 
     try {
+      // Open the shared view from the URL, or the sample location
       const location = SAMPLE_LOCATIONS[initialLocation];
+      const view = permalink.view ?? {
+        center: [location.lon, location.lat] as [number, number],
+        zoom: location.zoom,
+        bearing: 0,
+        pitch: 45,
+      };
 
       // Initialize map
       const mapInstance = new maplibregl.Map({
@@ -165,10 +484,10 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
             }
           ]
         },
-        center: [12.5, 55.5], // Baltic/North Sea region
-        zoom: 6,
-        pitch: 45,
-        bearing: 0,
+        center: view.center,
+        zoom: view.zoom,
+        pitch: view.pitch,
+        bearing: view.bearing,
       });
 
       // Add navigation controls
@@ -187,15 +506,14 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
         setIsLoading(false);
 
         try {
-          // Use AWS Terrain Tiles for reliable 3D terrain (Terrarium encoding)
+          // Use terrain tiles for reliable 3D terrain (Terrarium encoding)
+          const terrainSource = getTerrainSource();
           mapInstance.addSource('terrain-dem', {
             type: 'raster-dem',
-            tiles: [
-              'https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png'
-            ],
-            encoding: 'terrarium',
-            tileSize: 256,
-            maxzoom: 15,
+            tiles: [terrainSource.tileUrl],
+            encoding: terrainSource.encoding,
+            tileSize: terrainSource.tileSize,
+            maxzoom: terrainSource.maxzoom,
           });
 
           // Add hillshade layer (base terrain shading)
@@ -247,6 +565,23 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
             exaggeration: 1.5,
           });
 
+          // Add per-pixel slope raster tiles (decoded from the Terrarium tiles by the slope protocol)
+          mapInstance.addSource('slope-tiles', {
+            type: 'raster',
+            tiles: [getSlopeTileUrl({ minSlope: 15, algorithm: 'horn' })],
+            tileSize: terrainSource.tileSize,
+            maxzoom: terrainSource.maxzoom,
+          });
+
+          mapInstance.addLayer({
+            id: 'slope-raster',
+            type: 'raster',
+            source: 'slope-tiles',
+            paint: {
+              'raster-opacity': 0.8,
+            },
+          });
+
           // Add slope data source (GeoJSON for calculated slopes)
           mapInstance.addSource('slope-data', {
             type: 'geojson',
@@ -262,7 +597,7 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
             type: 'fill',
             source: 'slope-data',
             paint: {
-              'fill-color': ['get', 'color'],
+              'fill-color': getSlopeColorExpression(getSlopeColorScheme(DEFAULT_SLOPE_COLORS), 15),
               'fill-opacity': 0.7,
             },
           });
@@ -273,12 +608,192 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
             type: 'line',
             source: 'slope-data',
             paint: {
-              'line-color': ['get', 'color'],
+              'line-color': getSlopeColorExpression(getSlopeColorScheme(DEFAULT_SLOPE_COLORS), 15),
               'line-width': 1,
               'line-opacity': 0.5,
             },
           });
 
+          // Add COG tiles without data (open ocean) as grey squares
+          mapInstance.addSource('coverage-gaps', {
+            type: 'geojson',
+            data: {
+              type: 'FeatureCollection',
+              features: [],
+            },
+          });
+
+          mapInstance.addLayer({
+            id: 'coverage-gaps-fill',
+            type: 'fill',
+            source: 'coverage-gaps',
+            paint: {
+              'fill-color': '#71717a',
+              'fill-opacity': 0.25,
+            },
+          });
+
+          mapInstance.addLayer({
+            id: 'coverage-gaps-outline',
+            type: 'line',
+            source: 'coverage-gaps',
+            paint: {
+              'line-color': '#71717a',
+              'line-width': 1,
+              'line-dasharray': [2, 2],
+            },
+          });
+
+          // Add detected cliff lines (from /api/cliffs)
+          mapInstance.addSource('cliff-lines', {
+            type: 'geojson',
+            data: {
+              type: 'FeatureCollection',
+              features: [],
+            },
+          });
+
+          mapInstance.addLayer({
+            id: 'cliff-lines',
+            type: 'line',
+            source: 'cliff-lines',
+            layout: {
+              'line-cap': 'round',
+              'line-join': 'round',
+            },
+            paint: {
+              'line-color': ['match', ['get', 'edge'], 'top', '#b91c1c', '#7c2d12'],
+              'line-width': ['match', ['get', 'edge'], 'top', 3, 2],
+              'line-dasharray': ['match', ['get', 'edge'], 'top', ['literal', [1, 0]], ['literal', [2, 1]]],
+            },
+          });
+
+          // Add the elevation profile line with its vertices, and the chart's hover position
+          mapInstance.addSource('profile-line', {
+            type: 'geojson',
+            data: getLineGeoJSON([]),
+          });
+
+          mapInstance.addLayer({
+            id: 'profile-line',
+            type: 'line',
+            source: 'profile-line',
+            filter: ['==', ['geometry-type'], 'LineString'],
+            layout: {
+              'line-cap': 'round',
+              'line-join': 'round',
+            },
+            paint: {
+              'line-color': '#2563eb',
+              'line-width': 3,
+            },
+          });
+
+          mapInstance.addLayer({
+            id: 'profile-vertices',
+            type: 'circle',
+            source: 'profile-line',
+            filter: ['==', ['geometry-type'], 'Point'],
+            paint: {
+              'circle-radius': 4,
+              'circle-color': '#ffffff',
+              'circle-stroke-color': '#2563eb',
+              'circle-stroke-width': 2,
+            },
+          });
+
+          mapInstance.addSource('profile-hover', {
+            type: 'geojson',
+            data: {
+              type: 'FeatureCollection',
+              features: [],
+            },
+          });
+
+          mapInstance.addLayer({
+            id: 'profile-hover',
+            type: 'circle',
+            source: 'profile-hover',
+            paint: {
+              'circle-radius': 6,
+              'circle-color': '#2563eb',
+              'circle-stroke-color': '#ffffff',
+              'circle-stroke-width': 2,
+            },
+          });
+
+          // Add finished measurements and the one being drawn (labels are markers, the style has no glyphs)
+          mapInstance.addSource('measurements', {
+            type: 'geojson',
+            data: measurementsToGeoJSON([]),
+          });
+
+          mapInstance.addLayer({
+            id: 'measurements-fill',
+            type: 'fill',
+            source: 'measurements',
+            filter: ['==', ['geometry-type'], 'Polygon'],
+            paint: {
+              'fill-color': '#d97706',
+              'fill-opacity': 0.15,
+            },
+          });
+
+          mapInstance.addLayer({
+            id: 'measurements-line',
+            type: 'line',
+            source: 'measurements',
+            filter: ['!=', ['geometry-type'], 'Point'],
+            paint: {
+              'line-color': '#d97706',
+              'line-width': 2,
+              'line-dasharray': ['match', ['get', 'kind'], 'drop', ['literal', [2, 1]], ['literal', [1, 0]]],
+            },
+          });
+
+          mapInstance.addLayer({
+            id: 'measurements-vertices',
+            type: 'circle',
+            source: 'measurements',
+            filter: ['==', ['geometry-type'], 'Point'],
+            paint: {
+              'circle-radius': 3,
+              'circle-color': '#ffffff',
+              'circle-stroke-color': '#d97706',
+              'circle-stroke-width': 2,
+            },
+          });
+
+          mapInstance.addSource('measurement-draft', {
+            type: 'geojson',
+            data: getLineGeoJSON([]),
+          });
+
+          mapInstance.addLayer({
+            id: 'measurement-draft-line',
+            type: 'line',
+            source: 'measurement-draft',
+            filter: ['==', ['geometry-type'], 'LineString'],
+            paint: {
+              'line-color': '#d97706',
+              'line-width': 2,
+              'line-dasharray': [2, 1],
+            },
+          });
+
+          mapInstance.addLayer({
+            id: 'measurement-draft-vertices',
+            type: 'circle',
+            source: 'measurement-draft',
+            filter: ['==', ['geometry-type'], 'Point'],
+            paint: {
+              'circle-radius': 4,
+              'circle-color': '#ffffff',
+              'circle-stroke-color': '#d97706',
+              'circle-stroke-width': 2,
+            },
+          });
+
           console.log('Terrain and slope visualization enabled');
         } catch (err) {
           console.error('Error adding terrain:', err);
@@ -286,6 +801,55 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
         }
       });
 
+      // Show cliff details when a cliff line is clicked (detected or precomputed)
+      mapInstance.on('click', ['cliff-lines', 'precomputed-cliffs'], (e) => {
+        if (isDrawingProfileRef.current || isMeasuringRef.current) return;
+        const properties = e.features?.[0]?.properties;
+        if (!properties) return;
+
+        const popup = new maplibregl.Popup()
+          .setLngLat(e.lngLat)
+          .setHTML(
+            `<div class="text-xs text-zinc-800">
+              <p class="font-bold mb-1">Cliff ${properties.edge === 'top' ? 'top edge' : 'toe'}</p>
+              <p>Length: ${Math.round(properties.length)} m</p>
+              <p>Drop: ${Math.round(properties.meanDrop)} m mean, ${Math.round(properties.maxDrop)} m max</p>
+              <p>Facing: ${properties.facing} (${Math.round(properties.aspect)}°)</p>
+              ${
+                properties.heightAboveSea !== undefined
+                  ? `<p>Height above sea: ${Math.round(properties.heightAboveSea)} m</p>
+                     <p>Sea to the ${properties.seaward} (${Math.round(properties.seawardAspect)}°), ${Math.round(properties.coastDistance)} m away</p>`
+                  : ''
+              }
+              <button data-action="save-place" class="mt-1 text-blue-600 hover:underline">Save to places</button>
+            </div>`
+          )
+          .addTo(mapInstance);
+
+        // Start a bookmark of the cliff, viewed from the current angle
+        popup.getElement().querySelector('[data-action="save-place"]')?.addEventListener('click', () => {
+          const cliff = properties as BookmarkCliff;
+          const position: [number, number] = [e.lngLat.lng, e.lngLat.lat];
+          setBookmarkDraft({
+            name: `Cliff facing ${cliff.facing}, ${Math.round(cliff.maxDrop)} m drop`,
+            notes: '',
+            tags: cliff.heightAboveSea !== undefined ? ['cliff', 'sea cliff'] : ['cliff'],
+            position,
+            view: { ...getMapView(mapInstance), center: position },
+            cliff,
+            created: new Date().toISOString(),
+          });
+          popup.remove();
+        });
+      });
+
+      mapInstance.on('mouseenter', ['cliff-lines', 'precomputed-cliffs'], () => {
+        mapInstance.getCanvas().style.cursor = 'pointer';
+      });
+      mapInstance.on('mouseleave', ['cliff-lines', 'precomputed-cliffs'], () => {
+        mapInstance.getCanvas().style.cursor = '';
+      });
+
       mapInstance.on('error', (e) => {
         console.error('Map error:', e.error?.message || e.error || e);
       });
@@ -324,7 +888,128 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
         map.current = null;
       }
     };
-  }, [initialLocation]);
+  }, [initialLocation, permalink]);
+
+  // Effect to add the precomputed cliff tiles when an archive has been built (scripts/build-cliff-tiles.ts)
+  useEffect(() => {
+    if (!map.current || isLoading) return;
+    const mapInstance = map.current;
+    let cancelled = false;
+
+    fetch('/api/tiles/cliffs')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((tileJson) => {
+        if (cancelled || !tileJson || mapInstance.getSource('precomputed-cliffs')) return;
+
+        mapInstance.addSource('precomputed-cliffs', {
+          type: 'vector',
+          tiles: tileJson.tiles,
+          minzoom: tileJson.minzoom,
+          maxzoom: tileJson.maxzoom,
+          bounds: tileJson.bounds,
+          attribution: tileJson.attribution,
+        });
+
+        // Below the detected lines, which are drawn the same way
+        mapInstance.addLayer(
+          {
+            id: 'precomputed-cliffs',
+            type: 'line',
+            source: 'precomputed-cliffs',
+            'source-layer': 'cliffs',
+            layout: {
+              'line-cap': 'round',
+              'line-join': 'round',
+            },
+            paint: {
+              'line-color': ['match', ['get', 'edge'], 'top', '#b91c1c', '#7c2d12'],
+              'line-width': ['interpolate', ['linear'], ['zoom'], 8, 1, 14, ['match', ['get', 'edge'], 'top', 3, 2]],
+            },
+          },
+          'cliff-lines'
+        );
+        setPrecomputedAvailable(true);
+      })
+      .catch((err) => console.error('Error loading precomputed cliffs:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoading]);
+
+  // Effect to show or hide the precomputed cliffs
+  useEffect(() => {
+    if (!map.current || isLoading || !precomputedAvailable) return;
+    map.current.setLayoutProperty('precomputed-cliffs', 'visibility', showPrecomputed ? 'visible' : 'none');
+  }, [showPrecomputed, precomputedAvailable, isLoading]);
+
+  // Effect to keep the analysis settings in the URL hash
+  useEffect(() => {
+    permalinkSettings.current = {
+      showCliffs,
+      showCliffLines,
+      criteria: cliffCriteria,
+      algorithm: slopeAlgorithm,
+      slopeColors,
+      renderMode: slopeRenderMode,
+      elevationSource,
+      coastalMode,
+      facing: aspectFilter,
+    };
+    if (!map.current || isLoading) return;
+    updatePermalink(map.current, permalinkSettings.current, false);
+  }, [
+    showCliffs,
+    showCliffLines,
+    cliffCriteria,
+    slopeAlgorithm,
+    slopeColors,
+    slopeRenderMode,
+    elevationSource,
+    coastalMode,
+    aspectFilter,
+    isLoading,
+  ]);
+
+  // Effect to add settled views to the browser history and restore them on back/forward
+  useEffect(() => {
+    if (!map.current || isLoading) return;
+
+    const mapInstance = map.current;
+    let pushTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    // Wait for the view to settle so a scroll zoom is a single history entry
+    const handleMoveEnd = () => {
+      clearTimeout(pushTimeout);
+      pushTimeout = setTimeout(() => {
+        if (permalinkSettings.current) updatePermalink(mapInstance, permalinkSettings.current, true);
+      }, 500);
+    };
+
+    // The restored view formats to the hash it came from, so it is not pushed again
+    const handlePopState = () => {
+      clearTimeout(pushTimeout);
+      const state = parsePermalink(window.location.hash);
+      if (state.view) mapInstance.jumpTo(state.view);
+      if (state.showCliffs !== undefined) setShowCliffs(state.showCliffs);
+      if (state.showCliffLines !== undefined) setShowCliffLines(state.showCliffLines);
+      if (state.criteria) setCliffCriteria(state.criteria);
+      if (state.algorithm) setSlopeAlgorithm(state.algorithm);
+      setSlopeColors(state.slopeColors ?? DEFAULT_SLOPE_COLORS);
+      if (state.renderMode) setSlopeRenderMode(state.renderMode);
+      if (state.elevationSource) setElevationSource(state.elevationSource);
+      setCoastalMode(state.coastalMode ?? false);
+      setAspectFilter(state.facing ?? []);
+    };
+
+    mapInstance.on('moveend', handleMoveEnd);
+    window.addEventListener('popstate', handlePopState);
+    return () => {
+      clearTimeout(pushTimeout);
+      mapInstance.off('moveend', handleMoveEnd);
+      window.removeEventListener('popstate', handlePopState);
+    };
+  }, [isLoading]);
 
   // Effect to handle slope visualization updates
   useEffect(() => {
@@ -353,6 +1038,509 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
     };
   }, [updateSlopeVisualization]);
 
+  // Effect to show the slope layers for the current render mode
+  useEffect(() => {
+    if (!map.current || isLoading) return;
+    updateLayerVisibility(map.current, map.current.getZoom());
+  }, [updateLayerVisibility, isLoading]);
+
+  // Effect to re-render slope tiles when the slope settings change
+  useEffect(() => {
+    if (!map.current || isLoading) return;
+
+    const source = map.current.getSource('slope-tiles') as maplibregl.RasterTileSource | undefined;
+    source?.setTiles([
+      getSlopeTileUrl({
+        minSlope: minSlopeAngle,
+        algorithm: slopeAlgorithm,
+        facing: aspectFilter,
+        dem: elevationSource,
+        colors: slopeColors,
+      }),
+    ]);
+  }, [minSlopeAngle, slopeAlgorithm, aspectFilter, elevationSource, slopeColors, isLoading]);
+
+  // Effect to colour the slope grid with the selected scheme
+  useEffect(() => {
+    if (!map.current || isLoading) return;
+
+    const color = getSlopeColorExpression(getSlopeColorScheme(slopeColors), minSlopeAngle);
+    map.current.setPaintProperty('slope-fill', 'fill-color', color);
+    map.current.setPaintProperty('slope-outline', 'line-color', color);
+  }, [slopeColors, minSlopeAngle, isLoading]);
+
+  // Effect to switch terrain, hillshade and slope between Terrarium and the Copernicus mosaic
+  useEffect(() => {
+    if (!map.current || isLoading) return;
+
+    const mapInstance = map.current;
+    const source = mapInstance.getSource('terrain-dem') as maplibregl.RasterDEMTileSource | undefined;
+    source?.setTiles([elevationSource === 'copernicus' ? COPERNICUS_TILE_URL : getTerrainSource().tileUrl]);
+
+    if (elevationSource !== 'copernicus') {
+      setCopernicusViewport(null);
+      return;
+    }
+
+    // Keep the COG tiles of the view open as it moves
+    const handleMove = () => {
+      const bounds = mapInstance.getBounds();
+      updateCopernicusViewport(
+        {
+          west: bounds.getWest(),
+          east: bounds.getEast(),
+          south: bounds.getSouth(),
+          north: bounds.getNorth(),
+        },
+        mapInstance.getZoom()
+      )
+        .then(setCopernicusViewport)
+        .catch((err) => console.error('Error updating Copernicus mosaic:', err));
+    };
+
+    handleMove();
+    mapInstance.on('moveend', handleMove);
+    return () => {
+      mapInstance.off('moveend', handleMove);
+    };
+  }, [elevationSource, isLoading]);
+
+  // Effect to outline the COG tiles without data in the view and in the last cliff detection
+  useEffect(() => {
+    if (!map.current || isLoading) return;
+
+    const source = map.current.getSource('coverage-gaps') as maplibregl.GeoJSONSource | undefined;
+    const gaps = new Map<string, { lat: number; lon: number }>();
+    for (const tile of [...(copernicusViewport?.missing ?? []), ...cliffNoDataTiles]) {
+      gaps.set(`${tile.lat},${tile.lon}`, tile);
+    }
+    source?.setData(tilesToGeoJSON([...gaps.values()]));
+  }, [copernicusViewport, cliffNoDataTiles, isLoading]);
+
+  // Effect to draw the profile line: click adds points, double-click or Enter finishes, Escape cancels
+  useEffect(() => {
+    isDrawingProfileRef.current = isDrawingProfile;
+    if (!map.current || isLoading || !isDrawingProfile) return;
+
+    const mapInstance = map.current;
+    const source = mapInstance.getSource('profile-line') as maplibregl.GeoJSONSource | undefined;
+    const vertices: [number, number][] = [];
+    const render = (cursor?: [number, number]) => {
+      source?.setData(getLineGeoJSON(cursor ? [...vertices, cursor] : vertices));
+    };
+
+    const finish = () => {
+      // A double-click also adds two clicks, drop points on top of the previous one
+      const line = vertices.filter((vertex, index) => {
+        if (index === 0) return true;
+        const a = mapInstance.project(vertex);
+        const b = mapInstance.project(vertices[index - 1]);
+        return Math.hypot(a.x - b.x, a.y - b.y) > 3;
+      });
+      render();
+      setProfileLine(line.length >= 2 ? line : []);
+      setIsDrawingProfile(false);
+    };
+
+    const handleClick = (e: maplibregl.MapMouseEvent) => {
+      vertices.push([e.lngLat.lng, e.lngLat.lat]);
+      render();
+    };
+    const handleMove = (e: maplibregl.MapMouseEvent) => {
+      if (vertices.length > 0) render([e.lngLat.lng, e.lngLat.lat]);
+    };
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') finish();
+      if (e.key === 'Escape') {
+        vertices.length = 0;
+        finish();
+      }
+    };
+
+    render();
+    mapInstance.doubleClickZoom.disable();
+    mapInstance.getCanvas().style.cursor = 'crosshair';
+    mapInstance.on('click', handleClick);
+    mapInstance.on('mousemove', handleMove);
+    mapInstance.on('dblclick', finish);
+    window.addEventListener('keydown', handleKey);
+
+    return () => {
+      mapInstance.off('click', handleClick);
+      mapInstance.off('mousemove', handleMove);
+      mapInstance.off('dblclick', finish);
+      window.removeEventListener('keydown', handleKey);
+      mapInstance.doubleClickZoom.enable();
+      mapInstance.getCanvas().style.cursor = '';
+    };
+  }, [isDrawingProfile, isLoading]);
+
+  // Effect to sample the profile of the finished line (again when the elevation source changes)
+  useEffect(() => {
+    if (!map.current || isLoading || profileLine.length < 2) return;
+
+    let cancelled = false;
+    (map.current.getSource('profile-line') as maplibregl.GeoJSONSource | undefined)?.setData(
+      getLineGeoJSON(profileLine)
+    );
+    sampleElevationProfile(profileLine, { dem: elevationSource })
+      .then((result) => {
+        if (!cancelled) setProfile(result);
+      })
+      .catch((err) => console.error('Error sampling elevation profile:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profileLine, elevationSource, isLoading]);
+
+  // Effect to draw measurements: click adds points, double-click or Enter finishes, Escape stops measuring
+  useEffect(() => {
+    isMeasuringRef.current = measureKind !== null;
+    if (!map.current || isLoading || !measureKind) return;
+
+    const mapInstance = map.current;
+    const source = mapInstance.getSource('measurement-draft') as maplibregl.GeoJSONSource | undefined;
+    const { minPoints, maxPoints } = MEASUREMENT_KINDS.find(({ id }) => id === measureKind)!;
+    const vertices: [number, number][] = [];
+    const render = (cursor?: [number, number]) => {
+      const line = cursor ? [...vertices, cursor] : [...vertices];
+      // Close the polygon being drawn back to its first corner
+      if (measureKind === 'area' && line.length >= 3) line.push(line[0]);
+      source?.setData(getLineGeoJSON(line));
+    };
+
+    const finish = () => {
+      // A double-click also adds two clicks, drop points on top of the previous one
+      const positions = vertices.filter((vertex, index) => {
+        if (index === 0) return true;
+        const a = mapInstance.project(vertex);
+        const b = mapInstance.project(vertices[index - 1]);
+        return Math.hypot(a.x - b.x, a.y - b.y) > 3;
+      });
+      vertices.length = 0;
+      render();
+      if (positions.length < minPoints) return;
+
+      // Keep measuring: the result is added when sampled, the tool stays active for the next one
+      const measurement: Measurement = {
+        id: crypto.randomUUID(),
+        kind: measureKind,
+        positions,
+        dem: elevationSource,
+        result: null,
+      };
+      setMeasurements((previous) => [...previous, measurement]);
+      measure(measureKind, positions, elevationSource)
+        .then((result) =>
+          setMeasurements((previous) => previous.map((m) => (m.id === measurement.id ? { ...m, result } : m)))
+        )
+        .catch((err) => console.error('Error measuring:', err));
+    };
+
+    const handleClick = (e: maplibregl.MapMouseEvent) => {
+      vertices.push([e.lngLat.lng, e.lngLat.lat]);
+      if (vertices.length >= maxPoints) finish();
+      else render();
+    };
+    const handleMove = (e: maplibregl.MapMouseEvent) => {
+      if (vertices.length > 0) render([e.lngLat.lng, e.lngLat.lat]);
+    };
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') finish();
+      if (e.key === 'Escape') setMeasureKind(null);
+    };
+
+    render();
+    mapInstance.doubleClickZoom.disable();
+    mapInstance.getCanvas().style.cursor = 'crosshair';
+    mapInstance.on('click', handleClick);
+    mapInstance.on('mousemove', handleMove);
+    mapInstance.on('dblclick', finish);
+    window.addEventListener('keydown', handleKey);
+
+    return () => {
+      mapInstance.off('click', handleClick);
+      mapInstance.off('mousemove', handleMove);
+      mapInstance.off('dblclick', finish);
+      window.removeEventListener('keydown', handleKey);
+      source?.setData(getLineGeoJSON([]));
+      mapInstance.doubleClickZoom.enable();
+      mapInstance.getCanvas().style.cursor = '';
+    };
+  }, [measureKind, elevationSource, isLoading]);
+
+  // Effect to show the measurements with a numbered label each
+  useEffect(() => {
+    if (!map.current || isLoading) return;
+
+    const mapInstance = map.current;
+    (mapInstance.getSource('measurements') as maplibregl.GeoJSONSource | undefined)?.setData(
+      measurementsToGeoJSON(measurements, { vertices: true })
+    );
+
+    measurementLabels.current.forEach((marker) => marker.remove());
+    measurementLabels.current = measurements.map((measurement, i) => {
+      const isArea = measurement.kind === 'area';
+      const element = document.createElement('div');
+      element.className =
+        'px-1.5 py-0.5 text-[11px] font-medium text-zinc-800 bg-white/90 rounded shadow pointer-events-none whitespace-nowrap';
+      element.textContent = `${i + 1}. ${getMeasurementLabel(measurement)}`;
+      return new maplibregl.Marker({ element, anchor: isArea ? 'center' : 'left', offset: isArea ? [0, 0] : [8, 0] })
+        .setLngLat(getMeasurementLabelPosition(measurement))
+        .addTo(mapInstance);
+    });
+  }, [measurements, isLoading]);
+
+  // Effect to mark the searched point and sample the terrain there (again when the source or algorithm changes)
+  useEffect(() => {
+    if (!map.current || isLoading || !searchPoint) return;
+
+    let cancelled = false;
+    if (!searchMarker.current) searchMarker.current = new maplibregl.Marker({ color: '#2563eb' });
+    searchMarker.current.setLngLat([searchPoint.lng, searchPoint.lat]).addTo(map.current);
+
+    setSearchSample(null);
+    samplePoint(searchPoint.lng, searchPoint.lat, { dem: elevationSource, algorithm: slopeAlgorithm })
+      .then((result) => {
+        if (!cancelled) setSearchSample(result);
+      })
+      .catch((err) => console.error('Error sampling searched point:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchPoint, elevationSource, slopeAlgorithm, isLoading]);
+
+  // Effect to inspect the terrain where the map is clicked (cliff lines open their own popup)
+  useEffect(() => {
+    if (!map.current || isLoading) return;
+
+    const mapInstance = map.current;
+    const cliffLines = showCliffLines ? (cliffResult?.features ?? []) : [];
+    const scheme = getSlopeColorScheme(slopeColors);
+
+    const inspect = async (popup: maplibregl.Popup, lngLat: maplibregl.LngLat) => {
+      const request = ++inspectionRequest.current;
+      popup.setHTML('<p class="text-xs text-zinc-500">Inspecting terrain...</p>');
+
+      try {
+        const inspection = await inspectTerrain(lngLat.lng, lngLat.lat, {
+          dem: elevationSource,
+          algorithm: slopeAlgorithm,
+          radius: reliefRadius.current,
+          cliffLines,
+        });
+        if (request !== inspectionRequest.current) return;
+
+        popup.setHTML(
+          getInspectionHtml(inspection, {
+            coordinates: formatCoordinate(lngLat, coordinateFormat),
+            radius: reliefRadius.current,
+            minSlope: minSlopeAngle,
+            scheme,
+            cliffLinesShown: showCliffLines,
+          })
+        );
+        popup.getElement().querySelector('[data-action="relief-radius"]')?.addEventListener('change', (e) => {
+          reliefRadius.current = Number((e.target as HTMLSelectElement).value);
+          inspect(popup, lngLat);
+        });
+      } catch (err) {
+        if (request !== inspectionRequest.current) return;
+        console.error('Error inspecting terrain:', err);
+        popup.setHTML('<p class="text-xs text-red-600">Could not read the terrain here</p>');
+      }
+    };
+
+    const handleClick = (e: maplibregl.MapMouseEvent) => {
+      if (isDrawingProfileRef.current || isMeasuringRef.current) return;
+      const cliffLayers = ['cliff-lines', 'precomputed-cliffs'].filter((id) => mapInstance.getLayer(id));
+      if (mapInstance.queryRenderedFeatures(e.point, { layers: cliffLayers }).length > 0) return;
+
+      inspectionPopup.current?.remove();
+      inspectionPopup.current = new maplibregl.Popup({ maxWidth: '320px' }).setLngLat(e.lngLat).addTo(mapInstance);
+      inspect(inspectionPopup.current, e.lngLat);
+    };
+
+    mapInstance.on('click', handleClick);
+    return () => {
+      mapInstance.off('click', handleClick);
+    };
+  }, [
+    elevationSource,
+    slopeAlgorithm,
+    slopeColors,
+    minSlopeAngle,
+    showCliffLines,
+    cliffResult,
+    coordinateFormat,
+    isLoading,
+  ]);
+
+  // Effect to show the chart cursor position as a marker on the map
+  useEffect(() => {
+    if (!map.current || isLoading) return;
+
+    const mapInstance = map.current;
+    const point = profile && profileHoverIndex !== null ? profile.points[profileHoverIndex] : null;
+    (mapInstance.getSource('profile-hover') as maplibregl.GeoJSONSource | undefined)?.setData({
+      type: 'FeatureCollection',
+      features: point
+        ? [{ type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: [point.lng, point.lat] } }]
+        : [],
+    });
+  }, [profile, profileHoverIndex, isLoading]);
+
+  // Effect to move the chart cursor to the nearest sample when hovering the line on the map
+  useEffect(() => {
+    if (!map.current || isLoading || !profile) return;
+
+    const mapInstance = map.current;
+    const handleMove = (e: maplibregl.MapLayerMouseEvent) => {
+      let nearest = 0;
+      let nearestDistance = Infinity;
+      profile.points.forEach((sample, index) => {
+        const { x, y } = mapInstance.project([sample.lng, sample.lat]);
+        const distance = Math.hypot(x - e.point.x, y - e.point.y);
+        if (distance < nearestDistance) {
+          nearest = index;
+          nearestDistance = distance;
+        }
+      });
+      setProfileHoverIndex(nearest);
+    };
+    const handleLeave = () => setProfileHoverIndex(null);
+
+    mapInstance.on('mousemove', 'profile-line', handleMove);
+    mapInstance.on('mouseleave', 'profile-line', handleLeave);
+    return () => {
+      mapInstance.off('mousemove', 'profile-line', handleMove);
+      mapInstance.off('mouseleave', 'profile-line', handleLeave);
+    };
+  }, [profile, isLoading]);
+
+  const locatePoint = (point: LatLng) => {
+    setSearchPoint(point);
+    map.current?.flyTo({ center: [point.lng, point.lat], zoom: Math.max(14, map.current.getZoom()) });
+  };
+
+  const clearSearch = () => {
+    searchMarker.current?.remove();
+    setSearchPoint(null);
+    setSearchSample(null);
+  };
+
+  // Start a bookmark of the current view
+  const saveViewAsPlace = () => {
+    if (!map.current) return;
+    const view = getMapView(map.current);
+    setBookmarkDraft({
+      name: `View at ${view.center[1].toFixed(3)}, ${view.center[0].toFixed(3)}`,
+      notes: '',
+      tags: [],
+      position: view.center,
+      view,
+      created: new Date().toISOString(),
+    });
+  };
+
+  const startProfile = () => {
+    setMeasureKind(null);
+    setProfileLine([]);
+    setProfile(null);
+    setProfileHoverIndex(null);
+    setIsDrawingProfile(true);
+  };
+
+  const clearProfile = () => {
+    setIsDrawingProfile(false);
+    setProfileLine([]);
+    setProfile(null);
+    setProfileHoverIndex(null);
+    (map.current?.getSource('profile-line') as maplibregl.GeoJSONSource | undefined)?.setData(
+      getLineGeoJSON([])
+    );
+  };
+
+  const changeMeasureKind = (kind: MeasurementKind | null) => {
+    if (kind && isDrawingProfile) clearProfile();
+    setMeasureKind(kind);
+  };
+
+  // Download the slope grid, cliff lines and measurements currently shown
+  const exportCurrentResults = (format: ExportFormat) => {
+    const slopes = showCliffs && slopeRenderMode === 'grid' ? slopeResult : null;
+    const cliffs = showCliffLines ? cliffResult : null;
+    const bounds = map.current?.getBounds();
+    const bbox: [number, number, number, number] =
+      slopes?.bbox ??
+      (cliffs?.properties?.bbox as [number, number, number, number] | undefined) ??
+      (bounds ? [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()] : [0, 0, 0, 0]);
+
+    // The slope grid comes from the map terrain, cliff lines always from the COG source
+    const slopeSource = (slopes?.elevationSource ?? elevationSource) === 'copernicus' ? getCogSource() : getTerrainSource();
+
+    downloadExport(
+      exportResults(
+        {
+          slopes: slopes?.geoJson ?? null,
+          cliffs,
+          measurements: measurements.length > 0 ? measurementsToGeoJSON(measurements) : null,
+        },
+        {
+          generated: new Date().toISOString(),
+          bbox,
+          elevationSource: cliffs && !slopes ? getCogSource().name : slopeSource.name,
+          criteria: { ...cliffCriteria, minAngle: slopes?.minSlope ?? minSlopeAngle },
+          algorithm: slopes?.algorithm ?? slopeAlgorithm,
+          slopeColors,
+          gridSize: slopes?.gridSize ?? null,
+          cliffDetection: cliffs?.properties,
+          attribution: [...new Set([slopeSource.attribution, getCogSource().attribution])],
+        },
+        format
+      )
+    );
+  };
+
+  // Effect to show only slopes and cliffs facing the selected directions
+  useEffect(() => {
+    if (!map.current || isLoading) return;
+
+    const mapInstance = map.current;
+    const filter: maplibregl.FilterSpecification | null =
+      aspectFilter.length > 0 ? ['in', ['get', 'facing'], ['literal', aspectFilter]] : null;
+
+    for (const layerId of ['slope-fill', 'slope-outline', 'cliff-lines']) {
+      if (mapInstance.getLayer(layerId)) {
+        mapInstance.setFilter(layerId, filter);
+      }
+    }
+  }, [aspectFilter, isLoading]);
+
+  // Effect to handle cliff line updates
+  useEffect(() => {
+    if (!map.current) return;
+
+    const mapInstance = map.current;
+    const handleUpdate = () => {
+      updateCliffLines();
+    };
+
+    mapInstance.on('moveend', handleUpdate);
+    if (mapInstance.loaded()) {
+      updateCliffLines();
+    } else {
+      mapInstance.once('idle', handleUpdate);
+    }
+
+    return () => {
+      mapInstance.off('moveend', handleUpdate);
+      cliffRequest.current?.abort();
+    };
+  }, [updateCliffLines]);
+
   return (
     <div className="relative w-full h-full">
       <div ref={mapContainer} className="w-full h-full" />
@@ -366,7 +1554,7 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
       )}
 
       {error && (
-        <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-red-500 text-white px-6 py-3 rounded-lg shadow-lg">
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 bg-red-500 text-white px-6 py-3 rounded-lg shadow-lg">
           <p className="font-medium">{error}</p>
         </div>
       )}
@@ -384,74 +1572,234 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
           </button>
         </div>
 
+        {/* Elevation source */}
+        <div className="mb-3">
+          <label className="text-xs text-zinc-600 dark:text-zinc-400 block mb-1">
+            Elevation data
+          </label>
+          <div className="flex gap-1">
+            {([
+              { source: 'terrarium', label: 'Terrarium', title: getTerrainSource().attribution },
+              { source: 'copernicus', label: 'Copernicus', title: `${getCogSource().name} mosaic` },
+            ] as const).map(({ source, label, title }) => (
+              <button
+                key={source}
+                onClick={() => setElevationSource(source)}
+                title={title}
+                className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${
+                  elevationSource === source
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {elevationSource === 'copernicus' && (
+            <p className="text-xs text-zinc-400 mt-1">
+              {currentZoom < COPERNICUS_MIN_ZOOM
+                ? `Zoom ${COPERNICUS_MIN_ZOOM}+ for Copernicus, Terrarium shown`
+                : copernicusViewport
+                  ? `${copernicusViewport.tiles.length} COG tiles in view` +
+                    (copernicusViewport.missing.length > 0 ? `, ${copernicusViewport.missing.length} without data` : '')
+                  : 'Opening COG tiles...'}
+            </p>
+          )}
+        </div>
+
         {/* Slope toggle */}
         <label className="flex items-center gap-2 cursor-pointer mb-3">
           <input
             type="checkbox"
             checked={showCliffs}
-            onChange={(e) => {
-              setShowCliffs(e.target.checked);
-              if (map.current) {
-                const zoom = map.current.getZoom();
-                const useSlope = zoom >= SLOPE_ZOOM_THRESHOLD;
-
-                if (e.target.checked) {
-                  // Show appropriate layer based on zoom
-                  map.current.setLayoutProperty('cliff-hillshade', 'visibility', useSlope ? 'none' : 'visible');
-                  map.current.setLayoutProperty('cliff-hillshade-2', 'visibility', useSlope ? 'none' : 'visible');
-                  map.current.setLayoutProperty('slope-fill', 'visibility', useSlope ? 'visible' : 'none');
-                  map.current.setLayoutProperty('slope-outline', 'visibility', useSlope ? 'visible' : 'none');
-                  updateSlopeVisualization();
-                } else {
-                  // Hide all cliff layers
-                  map.current.setLayoutProperty('cliff-hillshade', 'visibility', 'none');
-                  map.current.setLayoutProperty('cliff-hillshade-2', 'visibility', 'none');
-                  map.current.setLayoutProperty('slope-fill', 'visibility', 'none');
-                  map.current.setLayoutProperty('slope-outline', 'visibility', 'none');
-                }
-              }
-            }}
+            onChange={(e) => setShowCliffs(e.target.checked)}
             className="w-4 h-4 accent-red-600"
           />
           <span className="text-sm">Show Steep Slopes</span>
           {isCalculating && (
-            <span className="ml-auto text-xs text-blue-600">calculating...</span>
+            <span className="ml-auto text-xs text-blue-600">
+              {analysisProgress
+                ? `${analysisProgress.stage} ${Math.round(analysisProgress.progress * 100)}%`
+                : 'waiting...'}
+            </span>
           )}
         </label>
 
-        {/* Min slope angle slider */}
+        {/* Cliff criteria, shared by the slope view and cliff detection */}
+        <CliffCriteriaEditor
+          criteria={cliffCriteria}
+          onChange={setCliffCriteria}
+          onAngleCommit={() => updateSlopeVisualization()}
+        />
+
+        {/* Slope render mode */}
         <div className="mb-3">
           <label className="text-xs text-zinc-600 dark:text-zinc-400 block mb-1">
-            Min slope angle: {minSlopeAngle}°
+            Render as
           </label>
-          <input
-            type="range"
-            min="5"
-            max="45"
-            step="5"
-            value={minSlopeAngle}
-            onChange={(e) => {
-              setMinSlopeAngle(parseInt(e.target.value));
-            }}
-            onMouseUp={() => updateSlopeVisualization()}
-            onTouchEnd={() => updateSlopeVisualization()}
-            className="w-full h-2 bg-zinc-200 rounded-lg appearance-none cursor-pointer"
-          />
-          <div className="flex justify-between text-xs text-zinc-400 mt-1">
-            <span>5° gentle</span>
-            <span>45° cliff</span>
+          <div className="flex gap-1">
+            {([
+              { mode: 'tiles', label: 'Pixel tiles', title: 'Slope of every DEM pixel, at every zoom' },
+              { mode: 'grid', label: 'Sampled grid', title: 'Slope grid sampled over the view (zoom 10+)' },
+            ] as const).map(({ mode, label, title }) => (
+              <button
+                key={mode}
+                onClick={() => setSlopeRenderMode(mode)}
+                title={title}
+                className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${
+                  slopeRenderMode === mode
+                    ? 'bg-red-600 text-white'
+                    : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
           </div>
         </div>
 
-        {/* Color legend */}
-        <div className="mb-3 p-2 bg-zinc-50 dark:bg-zinc-800 rounded">
-          <p className="text-xs text-zinc-600 dark:text-zinc-400 mb-1">Slope gradient:</p>
-          <div className="flex items-center gap-1">
-            <div className="h-3 flex-1 rounded" style={{ background: 'linear-gradient(to right, transparent, #ffcc00, #ff6600, #cc0000)' }}></div>
-          </div>
-          <div className="flex justify-between text-xs text-zinc-400 mt-1">
-            <span>flat</span>
-            <span>steep</span>
+        {/* Slope algorithm */}
+        <div className="mb-3">
+          <label className="text-xs text-zinc-600 dark:text-zinc-400 block mb-1">
+            Slope algorithm
+          </label>
+          <select
+            value={slopeAlgorithm}
+            onChange={(e) => setSlopeAlgorithm(e.target.value as SlopeAlgorithm)}
+            title={SLOPE_ALGORITHMS.find((algorithm) => algorithm.id === slopeAlgorithm)?.description}
+            className="w-full px-2 py-1 text-xs bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-600 rounded"
+          >
+            {SLOPE_ALGORITHMS.map((algorithm) => (
+              <option key={algorithm.id} value={algorithm.id}>
+                {algorithm.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Aspect filter */}
+        <div className="mb-3 flex items-start gap-3">
+          <AspectPicker selected={aspectFilter} onChange={setAspectFilter} />
+          <p className="text-xs text-zinc-500">
+            Facing:{' '}
+            <span className="font-medium text-zinc-700 dark:text-zinc-300">
+              {aspectFilter.length > 0 ? aspectFilter.join(', ') : 'all directions'}
+            </span>
+            <br />
+            Pick compass sectors to show only slopes and cliffs facing them.
+          </p>
+        </div>
+
+        {/* Color scheme and legend */}
+        <SlopeColorLegend colors={slopeColors} minSlope={minSlopeAngle} onChange={setSlopeColors} />
+
+        {/* Cliff lines toggle */}
+        <label className="flex items-center gap-2 cursor-pointer mb-3">
+          <input
+            type="checkbox"
+            checked={showCliffLines}
+            onChange={(e) => setShowCliffLines(e.target.checked)}
+            className="w-4 h-4 accent-red-800"
+          />
+          <span className="text-sm">Detect Cliff Lines</span>
+          {isDetecting ? (
+            <span className="ml-auto text-xs text-blue-600">detecting...</span>
+          ) : showCliffLines && currentZoom < CLIFF_LINES_ZOOM_THRESHOLD ? (
+            <span className="ml-auto text-xs text-zinc-400">zoom {CLIFF_LINES_ZOOM_THRESHOLD}+</span>
+          ) : (
+            showCliffLines && cliffNoDataTiles.length > 0 && (
+              <span className="ml-auto text-xs text-zinc-400" title="Grey squares have no elevation data (open ocean)">
+                partly no data
+              </span>
+            )
+          )}
+        </label>
+
+        {/* Precomputed cliffs toggle */}
+        <label
+          className={`flex items-center gap-2 mb-3 ${precomputedAvailable ? 'cursor-pointer' : 'opacity-50'}`}
+          title={
+            precomputedAvailable
+              ? 'Cliff lines from the precomputed tile archive, at every zoom'
+              : 'No precomputed cliffs: build them with npm run scan:cliffs and npm run build:cliff-tiles'
+          }
+        >
+          <input
+            type="checkbox"
+            checked={precomputedAvailable && showPrecomputed}
+            disabled={!precomputedAvailable}
+            onChange={(e) => setShowPrecomputed(e.target.checked)}
+            className="w-4 h-4 accent-red-800"
+          />
+          <span className="text-sm">Precomputed Cliffs</span>
+        </label>
+
+        {/* Sea cliffs only */}
+        <label
+          className="flex items-center gap-2 cursor-pointer mb-3"
+          title={`Cliff lines and the slope grid within ${DEFAULT_COASTAL_PARAMS.maxCoastDistance} m of the sea`}
+        >
+          <input
+            type="checkbox"
+            checked={coastalMode}
+            onChange={(e) => setCoastalMode(e.target.checked)}
+            className="w-4 h-4 accent-sky-700"
+          />
+          <span className="text-sm">Sea Cliffs Only</span>
+        </label>
+
+        {/* Elevation profile */}
+        <button
+          onClick={isDrawingProfile ? clearProfile : startProfile}
+          className={`w-full mb-3 px-2 py-1.5 text-xs font-medium rounded transition-colors ${
+            isDrawingProfile
+              ? 'bg-blue-600 text-white'
+              : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700'
+          }`}
+        >
+          {isDrawingProfile ? 'Cancel Profile' : profileLine.length > 0 ? 'Draw New Profile' : 'Draw Elevation Profile'}
+        </button>
+
+        {/* Measurements */}
+        <MeasurementPanel
+          kind={measureKind}
+          measurements={measurements}
+          onKindChange={changeMeasureKind}
+          onRemove={(id) => setMeasurements((previous) => previous.filter((m) => m.id !== id))}
+          onClear={() => setMeasurements([])}
+        />
+
+        {/* Export */}
+        <div className="mb-3">
+          <label className="text-xs text-zinc-600 dark:text-zinc-400 block mb-1">
+            Export results
+          </label>
+          <div className="flex gap-1">
+            {EXPORT_FORMATS.map(({ id, name }) => {
+              const hasSlopes = showCliffs && slopeRenderMode === 'grid' && slopeResult !== null;
+              const hasCliffs = showCliffLines && cliffResult !== null;
+              const hasMeasurements = measurements.length > 0;
+              // GPX holds the cliff centroids and measurements only
+              const disabled = id === 'gpx' ? !hasCliffs && !hasMeasurements : !hasSlopes && !hasCliffs && !hasMeasurements;
+              return (
+                <button
+                  key={id}
+                  onClick={() => exportCurrentResults(id)}
+                  disabled={disabled}
+                  className="flex-1 px-2 py-1 text-xs rounded transition-colors bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={
+                    disabled
+                      ? id === 'gpx'
+                        ? 'Detect cliff lines or measure to export cliff centroids and measurements'
+                        : 'Use the slope grid, detect cliff lines or measure to export results'
+                      : `Download the slope grid, cliff lines and measurements in view as ${name}`
+                  }
+                >
+                  {name}
+                </button>
+              );
+            })}
           </div>
         </div>
 
@@ -460,6 +1808,7 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
           <button
             onClick={() => {
               if (map.current) {
+                setCoastalMode(true);
                 map.current.flyTo({
                   center: [-9.5, 38.78],
                   zoom: 14,
@@ -490,7 +1839,9 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
         </div>
 
         <p className="text-xs text-zinc-500 mt-3">
-          {currentZoom < SLOPE_ZOOM_THRESHOLD ? (
+          {slopeRenderMode === 'tiles' ? (
+            <>Tile mode (zoom {Math.round(currentZoom)}) — slope of every DEM pixel</>
+          ) : currentZoom < SLOPE_ZOOM_THRESHOLD ? (
             <>Hillshade mode (zoom {Math.round(currentZoom)}) — zoom to 10+ for precise slope</>
           ) : (
             <>Slope mode (zoom {Math.round(currentZoom)}) — calculating actual angles</>
@@ -498,6 +1849,21 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
         </p>
       </div>
 
+      <CoordinateSearch
+        point={searchPoint}
+        sample={searchSample}
+        format={coordinateFormat}
+        onLocate={locatePoint}
+        onClear={clearSearch}
+      />
+
+      <PlacesPanel
+        draft={bookmarkDraft}
+        onDraftClose={() => setBookmarkDraft(null)}
+        onSaveView={saveViewAsPlace}
+        onSelect={(bookmark: Bookmark) => map.current?.flyTo(bookmark.view)}
+      />
+
       {/* Tutorial overlay */}
       {showTutorial && (
         <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-50">
@@ -532,7 +1898,7 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
                 <div className="w-8 h-8 rounded-full bg-green-100 flex items-center justify-center text-green-600 font-bold shrink-0">4</div>
                 <div>
                   <p className="font-medium">Quick locations</p>
-                  <p className="text-sm text-zinc-500">Use buttons to fly to famous coastal cliffs or mountains</p>
+                  <p className="text-sm text-zinc-500">Use the buttons or Saved Places to fly to famous cliffs and mountains</p>
                 </div>
               </div>
             </div>
@@ -566,14 +1932,24 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
             </div>
             <div className="px-6 py-4 space-y-4 text-sm">
               <div>
-                <h3 className="font-bold text-base mb-2">Two Visualization Modes</h3>
+                <h3 className="font-bold text-base mb-2">Visualization Modes</h3>
                 <p className="text-zinc-600 dark:text-zinc-400 mb-2">
-                  The application uses different techniques depending on zoom level for optimal performance and accuracy.
+                  Slope can be rendered as pixel tiles at every zoom, or as a sampled grid that
+                  uses different techniques depending on zoom level.
+                </p>
+              </div>
+
+              <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+                <h4 className="font-bold text-red-700 dark:text-red-400 mb-1">Pixel Tiles (default)</h4>
+                <p className="text-zinc-600 dark:text-zinc-400">
+                  Each terrain tile is decoded in the browser and the slope of <strong>every DEM pixel</strong> is
+                  computed from its 3×3 neighbourhood, including pixels from adjacent tiles at the edges.
+                  Tiles are cached by the map, so panning back is instant.
                 </p>
               </div>
 
               <div className="p-3 bg-orange-50 dark:bg-orange-900/20 rounded-lg border border-orange-200 dark:border-orange-800">
-                <h4 className="font-bold text-orange-700 dark:text-orange-400 mb-1">Hillshade Mode (Zoom &lt; 10)</h4>
+                <h4 className="font-bold text-orange-700 dark:text-orange-400 mb-1">Grid: Hillshade (Zoom &lt; 10)</h4>
                 <p className="text-zinc-600 dark:text-zinc-400">
                   At low zoom levels, we use <strong>hillshade rendering</strong> with red-tinted shadows.
                   This technique simulates light hitting the terrain from multiple angles (315° and 135°),
@@ -582,7 +1958,7 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
               </div>
 
               <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
-                <h4 className="font-bold text-blue-700 dark:text-blue-400 mb-1">Slope Mode (Zoom &ge; 10)</h4>
+                <h4 className="font-bold text-blue-700 dark:text-blue-400 mb-1">Grid: Slope (Zoom &ge; 10)</h4>
                 <p className="text-zinc-600 dark:text-zinc-400">
                   At higher zoom levels, we calculate <strong>true slope angles</strong> in degrees.
                   The map is divided into a grid, elevation is sampled at each point, and slope is computed using:
@@ -592,40 +1968,97 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
                 </div>
                 <p className="text-zinc-600 dark:text-zinc-400 mt-2">
                   Horizontal distance is calculated using the <strong>Haversine formula</strong> for accurate
-                  Earth-surface distances. Maximum slope from 4 directions (N, E, S, W + diagonal) is used.
+                  Earth-surface distances. Slope at each grid point is computed from its 3×3 neighbourhood
+                  with the selected algorithm:
+                </p>
+                <ul className="text-zinc-600 dark:text-zinc-400 mt-1 space-y-1">
+                  {SLOPE_ALGORITHMS.map((algorithm) => (
+                    <li key={algorithm.id}>
+                      • <strong>{algorithm.name}:</strong> {algorithm.description}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div>
+                <h4 className="font-bold mb-1">Sea Cliffs</h4>
+                <p className="text-zinc-600 dark:text-zinc-400">
+                  <strong>Sea Cliffs Only</strong> finds the sea in the elevation data (no data or at most{' '}
+                  {DEFAULT_COASTAL_PARAMS.seaLevel} m, connected to the edge of the view, so inland
+                  depressions do not count) and keeps cliff lines and slope grid cells within{' '}
+                  {DEFAULT_COASTAL_PARAMS.maxCoastDistance} m of it. Clicking a sea cliff shows its height
+                  above sea level and the direction of the sea.
+                </p>
+              </div>
+
+              <div>
+                <h4 className="font-bold mb-1">Elevation Profile</h4>
+                <p className="text-zinc-600 dark:text-zinc-400">
+                  Draw a line to see its cross-section. Elevations are read from the same terrain tiles as
+                  the slope tiles (Terrarium or Copernicus), at a sample spacing that matches the tile
+                  resolution, and each segment is coloured by its gradient with the slope colour scale.
+                </p>
+              </div>
+
+              <div>
+                <h4 className="font-bold mb-1">Inspecting Terrain</h4>
+                <p className="text-zinc-600 dark:text-zinc-400">
+                  Click the map for the slope, aspect and curvature at that point, read like the slope tiles,
+                  the local relief within a radius you choose, the elevation in each DEM source and the
+                  distance and direction to the nearest detected cliff line.
+                </p>
+              </div>
+
+              <div>
+                <h4 className="font-bold mb-1">Measuring</h4>
+                <p className="text-zinc-600 dark:text-zinc-400">
+                  Distance gives the map length of a line and its length along the terrain, Area the area
+                  of a polygon, Drop the height difference, gradient and angle between two clicked points,
+                  such as a cliff top and its toe. Measurements stay on the map until removed and are
+                  included in the exports.
                 </p>
               </div>
 
               <div>
                 <h4 className="font-bold mb-1">Color Scale</h4>
-                <div className="flex items-center gap-2 mb-2">
-                  <div className="h-4 flex-1 rounded" style={{ background: 'linear-gradient(to right, transparent, #ffcc00, #ff6600, #cc0000)' }}></div>
-                </div>
-                <ul className="text-zinc-600 dark:text-zinc-400 space-y-1">
-                  <li><span className="inline-block w-3 h-3 rounded bg-yellow-400 mr-2"></span><strong>Yellow:</strong> Moderate slopes (15-25°)</li>
-                  <li><span className="inline-block w-3 h-3 rounded bg-orange-500 mr-2"></span><strong>Orange:</strong> Steep slopes (25-35°)</li>
-                  <li><span className="inline-block w-3 h-3 rounded bg-red-600 mr-2"></span><strong>Red:</strong> Very steep / cliffs (35°+)</li>
+                <p className="text-zinc-600 dark:text-zinc-400">
+                  Pick the colours of the slope tiles, the slope grid and the elevation profile under{' '}
+                  <strong>Slope colours</strong>; the legend follows the scheme and the minimum slope angle.
+                </p>
+                <ul className="text-zinc-600 dark:text-zinc-400 mt-1 space-y-1">
+                  {SLOPE_COLOR_SCHEMES.map((scheme) => (
+                    <li key={scheme.id}>
+                      • <strong>{scheme.name}:</strong> {scheme.description}
+                    </li>
+                  ))}
                 </ul>
               </div>
 
               <div>
                 <h4 className="font-bold mb-1">Data Source</h4>
                 <p className="text-zinc-600 dark:text-zinc-400">
-                  Elevation data comes from <strong>AWS Terrain Tiles</strong> (Terrarium encoding),
+                  Elevation data comes from <strong>{getTerrainSource().name}</strong> (Terrarium encoding),
                   derived from multiple sources including SRTM, ETOPO1, and GMTED2010.
-                  Resolution varies by location but is typically 30-90 meters.
+                  Resolution varies by location but is typically 30-90 meters
+                  (vertical datum {getTerrainSource().verticalDatum}).
+                </p>
+                <p className="text-zinc-600 dark:text-zinc-400 mt-2">
+                  With <strong>Copernicus</strong> selected, terrain, hillshade and slope use a mosaic of{' '}
+                  <strong>{getCogSource().name}</strong> tiles ({getCogSource().resolution} m, vertical
+                  datum {getCogSource().verticalDatum}) from zoom {COPERNICUS_MIN_ZOOM}. Cliff lines are
+                  always detected on the server from this data.
                 </p>
               </div>
 
               <div>
                 <h4 className="font-bold mb-1">Grid Resolution</h4>
                 <p className="text-zinc-600 dark:text-zinc-400">
-                  Slope calculation uses adaptive grid sizing:
+                  Slope calculation uses adaptive grid sizing and runs in a background worker:
                 </p>
                 <ul className="text-zinc-600 dark:text-zinc-400 mt-1 space-y-1">
-                  <li>• Zoom 10-11: 25×25 grid cells</li>
-                  <li>• Zoom 12-13: 40×40 grid cells</li>
-                  <li>• Zoom 14+: 60×60 grid cells</li>
+                  <li>• Zoom 10-11: {getSlopeGridSize(10)}×{getSlopeGridSize(10)} grid cells</li>
+                  <li>• Zoom 12-13: {getSlopeGridSize(12)}×{getSlopeGridSize(12)} grid cells</li>
+                  <li>• Zoom 14+: {getSlopeGridSize(14)}×{getSlopeGridSize(14)} grid cells</li>
                 </ul>
               </div>
             </div>
@@ -641,6 +2074,37 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
         </div>
       )}
 
+      {/* Elevation profile chart */}
+      {(isDrawingProfile || profileLine.length > 0) && (
+        <div className="absolute bottom-24 left-1/2 -translate-x-1/2 w-[36rem] max-w-[calc(100%-2rem)] bg-white dark:bg-zinc-900 px-4 py-3 rounded-lg shadow-lg border border-zinc-200 dark:border-zinc-700">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-bold">Elevation Profile</h3>
+            <button
+              onClick={clearProfile}
+              className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 text-lg leading-none"
+              title="Remove profile"
+            >
+              ×
+            </button>
+          </div>
+          {isDrawingProfile ? (
+            <p className="text-xs text-zinc-500">
+              Click on the map to add points. Double-click or press Enter to finish, Escape to cancel.
+            </p>
+          ) : profile ? (
+            <ElevationProfileChart
+              profile={profile}
+              minSlope={minSlopeAngle}
+              colors={getSlopeColorScheme(slopeColors)}
+              hoverIndex={profileHoverIndex}
+              onHover={setProfileHoverIndex}
+            />
+          ) : (
+            <p className="text-xs text-zinc-500">Sampling elevation...</p>
+          )}
+        </div>
+      )}
+
       {/* Elevation display */}
       <div className="absolute bottom-20 left-4 bg-white dark:bg-zinc-900 px-4 py-3 rounded-lg shadow-lg border border-zinc-200 dark:border-zinc-700">
         <div className="flex items-center gap-4">
@@ -650,22 +2114,35 @@ export default function DemMap({ initialLocation = 'alps' }: DemMapProps) {
               {elevation !== null ? `${elevation}m` : '—'}
             </p>
           </div>
-          {coordinates && (
-            <div className="border-l border-zinc-200 dark:border-zinc-700 pl-4">
-              <p className="text-xs text-zinc-500">Coordinates</p>
-              <p className="text-xs font-mono">
-                {coordinates.lat.toFixed(4)}°, {coordinates.lng.toFixed(4)}°
-              </p>
+          <div className="border-l border-zinc-200 dark:border-zinc-700 pl-4">
+            <div className="flex gap-0.5 mb-0.5">
+              {COORDINATE_FORMATS.map(({ id, name }) => (
+                <button
+                  key={id}
+                  onClick={() => setCoordinateFormat(id)}
+                  className={`px-1 text-[10px] rounded transition-colors ${
+                    coordinateFormat === id
+                      ? 'bg-blue-600 text-white'
+                      : 'text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800'
+                  }`}
+                >
+                  {name}
+                </button>
+              ))}
             </div>
-          )}
+            <p className="text-xs font-mono">{coordinates ? formatCoordinate(coordinates, coordinateFormat) : '—'}</p>
+          </div>
         </div>
       </div>
 
       {/* Attribution */}
       <div className="absolute bottom-4 right-4 bg-white/90 dark:bg-zinc-900/90 px-3 py-2 rounded text-xs max-w-md">
         <p className="text-zinc-700 dark:text-zinc-300">
-          Terrain: AWS Terrain Tiles
+          Terrain: {elevationSource === 'copernicus' ? getCogSource().name : getTerrainSource().attribution}
         </p>
+        {(showCliffLines || elevationSource === 'copernicus') && (
+          <p className="text-zinc-500 dark:text-zinc-400">{getCogSource().attribution}</p>
+        )}
       </div>
     </div>
   );
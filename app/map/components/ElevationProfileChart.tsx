@@ -0,0 +1,148 @@
+'use client';
+
+import { useRef, type MouseEvent } from 'react';
+import { getSlopeColor } from '@/lib/slope-utils';
+import type { SlopeColorScheme } from '@/lib/slope-colors';
+import type { ElevationProfile } from '@/lib/elevation-profile';
+
+interface ElevationProfileChartProps {
+  profile: ElevationProfile;
+  minSlope: number; // degrees, segments below are left uncoloured like on the map
+  colors: SlopeColorScheme;
+  hoverIndex: number | null; // profile point under the cursor (chart or map)
+  onHover: (index: number | null) => void;
+}
+
+// Chart area in SVG units (stretched to the container width)
+const WIDTH = 600;
+const HEIGHT = 140;
+
+function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(2)} km`;
+}
+
+export default function ElevationProfileChart({
+  profile,
+  minSlope,
+  colors,
+  hoverIndex,
+  onHover,
+}: ElevationProfileChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { points, segments, length, minElevation, maxElevation } = profile;
+
+  if (minElevation === null || maxElevation === null || length === 0) {
+    return <p className="text-xs text-zinc-500">No elevation data along this line</p>;
+  }
+
+  // Pad the elevation range so flat profiles still show as a line in the middle
+  const padding = Math.max(5, (maxElevation - minElevation) * 0.1);
+  const bottom = minElevation - padding;
+  const top = maxElevation + padding;
+
+  const x = (distance: number) => (distance / length) * WIDTH;
+  const y = (elevation: number) => HEIGHT - ((elevation - bottom) / (top - bottom)) * HEIGHT;
+
+  // Profile line, broken where there is no data
+  let path = '';
+  points.forEach((point, index) => {
+    if (point.elevation === null) return;
+    const command = index > 0 && points[index - 1].elevation !== null ? 'L' : 'M';
+    path += `${command}${x(point.distance).toFixed(1)},${y(point.elevation).toFixed(1)}`;
+  });
+
+  const handleMouseMove = (e: MouseEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    const distance = ((e.clientX - rect.left) / rect.width) * length;
+
+    // Nearest sample point (points are ordered by distance)
+    let low = 0;
+    let high = points.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (points[mid].distance < distance) low = mid + 1;
+      else high = mid;
+    }
+    const index = low > 0 && distance - points[low - 1].distance < points[low].distance - distance ? low - 1 : low;
+    onHover(index);
+  };
+
+  const hoverPoint = hoverIndex !== null ? points[hoverIndex] : null;
+
+  return (
+    <div>
+      <div className="relative">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          className="w-full h-36 bg-zinc-50 dark:bg-zinc-800 rounded"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => onHover(null)}
+        >
+          {/* Area under each segment in the slope colour */}
+          {segments.map(({ from, to, slope }) => {
+            const a = points[from];
+            const b = points[to];
+            return (
+              <polygon
+                key={from}
+                points={`${x(a.distance)},${y(a.elevation!)} ${x(b.distance)},${y(b.elevation!)} ${x(b.distance)},${HEIGHT} ${x(a.distance)},${HEIGHT}`}
+                fill={getSlopeColor(slope, minSlope, colors)}
+              />
+            );
+          })}
+          <path d={path} fill="none" stroke="#3f3f46" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          {hoverPoint && (
+            <line
+              x1={x(hoverPoint.distance)}
+              x2={x(hoverPoint.distance)}
+              y1={0}
+              y2={HEIGHT}
+              stroke="#2563eb"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+
+        {/* Axis labels in HTML so they are not stretched with the chart */}
+        <span className="absolute top-1 left-1 text-[10px] text-zinc-500">{Math.round(maxElevation)} m</span>
+        <span className="absolute bottom-1 left-1 text-[10px] text-zinc-500">{Math.round(minElevation)} m</span>
+        <span className="absolute bottom-1 right-1 text-[10px] text-zinc-500">{formatDistance(length)}</span>
+
+        {hoverPoint && (
+          <div
+            className="absolute top-1 -translate-x-1/2 px-1.5 py-0.5 rounded bg-blue-600 text-white text-[10px] font-mono pointer-events-none whitespace-nowrap"
+            style={{ left: `${Math.min(90, Math.max(10, (hoverPoint.distance / length) * 100))}%` }}
+          >
+            {hoverPoint.elevation !== null ? `${Math.round(hoverPoint.elevation)} m` : 'no data'} ·{' '}
+            {formatDistance(hoverPoint.distance)}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 mt-2 text-xs">
+        <div>
+          <p className="text-zinc-500">Length</p>
+          <p className="font-mono font-medium">{formatDistance(length)}</p>
+        </div>
+        <div>
+          <p className="text-zinc-500">Ascent</p>
+          <p className="font-mono font-medium">↑ {Math.round(profile.ascent)} m</p>
+        </div>
+        <div>
+          <p className="text-zinc-500">Descent</p>
+          <p className="font-mono font-medium">↓ {Math.round(profile.descent)} m</p>
+        </div>
+        <div>
+          <p className="text-zinc-500">Max gradient</p>
+          <p className="font-mono font-medium">
+            {Math.round(profile.maxGradient)}% ({Math.round(profile.maxSlope)}°)
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import {
+  getMeasurementLabel,
+  MEASUREMENT_KINDS,
+  type Measurement,
+  type MeasurementKind,
+} from '@/lib/measurement';
+
+interface MeasurementPanelProps {
+  kind: MeasurementKind | null; // being drawn
+  measurements: Measurement[];
+  onKindChange: (kind: MeasurementKind | null) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+// How to finish each kind of measurement
+const HINTS: Record<MeasurementKind, string> = {
+  distance: 'Click to add points, double-click or press Enter to finish.',
+  area: 'Click the corners, double-click or press Enter to close the polygon.',
+  drop: 'Click the top, then the bottom (or any two points).',
+};
+
+export default function MeasurementPanel({ kind, measurements, onKindChange, onRemove, onClear }: MeasurementPanelProps) {
+  return (
+    <div className="mb-3">
+      <label className="text-xs text-zinc-600 dark:text-zinc-400 block mb-1">Measure</label>
+      <div className="flex gap-1">
+        {MEASUREMENT_KINDS.map(({ id, name, description }) => (
+          <button
+            key={id}
+            onClick={() => onKindChange(kind === id ? null : id)}
+            title={description}
+            className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${
+              kind === id
+                ? 'bg-amber-600 text-white'
+                : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700'
+            }`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+      {kind && <p className="text-xs text-zinc-500 mt-1">{HINTS[kind]} Escape stops measuring.</p>}
+
+      {measurements.length > 0 && (
+        <div className="mt-2 space-y-0.5">
+          {measurements.map((measurement, i) => (
+            <div key={measurement.id} className="flex items-center gap-1 text-xs text-zinc-600 dark:text-zinc-300">
+              <span className="text-zinc-400">{i + 1}.</span>
+              <span className="flex-1 truncate" title={getMeasurementLabel(measurement)}>
+                {getMeasurementLabel(measurement)}
+              </span>
+              <button
+                onClick={() => onRemove(measurement.id)}
+                className="text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 leading-none"
+                title="Remove measurement"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button onClick={onClear} className="text-xs text-zinc-500 hover:underline">
+            Clear measurements
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
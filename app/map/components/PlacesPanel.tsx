@@ -0,0 +1,271 @@
+'use client';
+
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import {
+  STARTER_COLLECTION,
+  STARTER_COLLECTION_ID,
+  collectionFromGeoJSON,
+  collectionToGeoJSON,
+  createId,
+  loadCollections,
+  parseTags,
+  saveCollections,
+  type Bookmark,
+  type BookmarkCollection,
+  type BookmarkDraft,
+} from '@/lib/bookmarks';
+import { downloadExport } from '@/lib/export';
+
+interface PlacesPanelProps {
+  draft: BookmarkDraft | null; // place waiting for a name and a collection
+  onDraftClose: () => void;
+  onSaveView: () => void; // start a draft from the current view
+  onSelect: (bookmark: Bookmark) => void;
+}
+
+const buttonClass =
+  'px-2 py-1 text-xs rounded transition-colors bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700 disabled:opacity-40 disabled:cursor-not-allowed';
+const inputClass =
+  'w-full px-2 py-1 text-xs rounded border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800';
+
+interface BookmarkFormProps {
+  draft: BookmarkDraft;
+  collections: BookmarkCollection[]; // user collections the place can go into
+  onSave: (collectionId: string | null, bookmark: Bookmark) => void; // null = new collection
+  onCancel: () => void;
+}
+
+function BookmarkForm({ draft, collections, onSave, onCancel }: BookmarkFormProps) {
+  const [name, setName] = useState(draft.name);
+  const [notes, setNotes] = useState(draft.notes);
+  const [tags, setTags] = useState(draft.tags.join(', '));
+  const [collectionId, setCollectionId] = useState(collections[0]?.id ?? '');
+
+  const save = () => {
+    onSave(collectionId || null, {
+      ...draft,
+      id: createId(),
+      name: name.trim() || draft.name,
+      notes: notes.trim(),
+      tags: parseTags(tags),
+    });
+  };
+
+  return (
+    <div className="space-y-1.5 mb-3 p-2 rounded bg-zinc-50 dark:bg-zinc-800/50">
+      <p className="text-xs font-medium">{draft.cliff ? 'Save cliff' : 'Save view'}</p>
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className={inputClass} autoFocus />
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Notes"
+        rows={2}
+        className={inputClass}
+      />
+      <input
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        placeholder="Tags, comma separated"
+        className={inputClass}
+      />
+      <select value={collectionId} onChange={(e) => setCollectionId(e.target.value)} className={inputClass}>
+        {collections.map((collection) => (
+          <option key={collection.id} value={collection.id}>
+            {collection.name}
+          </option>
+        ))}
+        <option value="">New collection</option>
+      </select>
+      <div className="flex gap-1">
+        <button onClick={save} className="flex-1 px-2 py-1 text-xs rounded bg-blue-600 hover:bg-blue-700 text-white">
+          Save
+        </button>
+        <button onClick={onCancel} className={`flex-1 ${buttonClass}`}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function PlacesPanel({ draft, onDraftClose, onSaveView, onSelect }: PlacesPanelProps) {
+  const fileInput = useRef<HTMLInputElement | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [collections, setCollections] = useState<BookmarkCollection[]>(() => [STARTER_COLLECTION, ...loadCollections()]);
+  const [selectedId, setSelectedId] = useState(STARTER_COLLECTION_ID);
+  const [filter, setFilter] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    saveCollections(collections);
+  }, [collections]);
+
+  const selected = collections.find((collection) => collection.id === selectedId) ?? collections[0];
+  const userCollections = collections.filter((collection) => !collection.builtIn);
+
+  // Match the filter against names and tags
+  const query = filter.trim().toLowerCase();
+  const bookmarks = selected.bookmarks.filter(
+    ({ name, tags }) => !query || name.toLowerCase().includes(query) || tags.some((tag) => tag.toLowerCase().includes(query))
+  );
+
+  const updateCollection = (id: string, update: (collection: BookmarkCollection) => BookmarkCollection) => {
+    setCollections((current) => current.map((collection) => (collection.id === id ? update(collection) : collection)));
+  };
+
+  const saveBookmark = (collectionId: string | null, bookmark: Bookmark) => {
+    if (collectionId) {
+      updateCollection(collectionId, (collection) => ({
+        ...collection,
+        bookmarks: [...collection.bookmarks, bookmark],
+      }));
+    } else {
+      collectionId = createId();
+      const collection = { id: collectionId, name: `Collection ${userCollections.length + 1}`, bookmarks: [bookmark] };
+      setCollections((current) => [...current, collection]);
+    }
+    setSelectedId(collectionId);
+    setIsOpen(true);
+    onDraftClose();
+  };
+
+  const createCollection = () => {
+    const name = window.prompt('Collection name', `Collection ${userCollections.length + 1}`)?.trim();
+    if (!name) return;
+    const collection = { id: createId(), name, bookmarks: [] };
+    setCollections((current) => [...current, collection]);
+    setSelectedId(collection.id);
+  };
+
+  const renameCollection = () => {
+    const name = window.prompt('Collection name', selected.name)?.trim();
+    if (name) updateCollection(selected.id, (collection) => ({ ...collection, name }));
+  };
+
+  const deleteCollection = () => {
+    if (!window.confirm(`Delete "${selected.name}" and its ${selected.bookmarks.length} places?`)) return;
+    setCollections((current) => current.filter((collection) => collection.id !== selected.id));
+    setSelectedId(STARTER_COLLECTION_ID);
+  };
+
+  const deleteBookmark = (id: string) => {
+    updateCollection(selected.id, (collection) => ({
+      ...collection,
+      bookmarks: collection.bookmarks.filter((bookmark) => bookmark.id !== id),
+    }));
+  };
+
+  const exportCollection = () => {
+    const slug = selected.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'places';
+    downloadExport({
+      content: JSON.stringify(collectionToGeoJSON(selected), null, 2),
+      filename: `${slug}.geojson`,
+      mimeType: 'application/geo+json',
+    });
+  };
+
+  const importCollection = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const collection = collectionFromGeoJSON(JSON.parse(await file.text()), file.name.replace(/\.[^.]+$/, ''));
+      setCollections((current) => [...current, collection]);
+      setSelectedId(collection.id);
+      setMessage(`Imported ${collection.bookmarks.length} places`);
+    } catch (err) {
+      setMessage(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div className="absolute top-4 right-14 w-64 bg-white dark:bg-zinc-900 px-4 py-3 rounded-lg shadow-lg border border-zinc-200 dark:border-zinc-700">
+      <div className="flex items-center justify-between">
+        <button onClick={() => setIsOpen(!isOpen)} className="text-sm font-bold">
+          {isOpen ? '▾' : '▸'} Saved Places
+        </button>
+        <button onClick={onSaveView} className={buttonClass} title="Bookmark the current view">
+          + View
+        </button>
+      </div>
+
+      {(isOpen || draft) && (
+        <div className="mt-2">
+          {draft && (
+            <BookmarkForm
+              key={draft.created}
+              draft={draft}
+              collections={userCollections}
+              onSave={saveBookmark}
+              onCancel={onDraftClose}
+            />
+          )}
+
+          {/* Collection and its actions */}
+          <select value={selected.id} onChange={(e) => setSelectedId(e.target.value)} className={`${inputClass} mb-1`}>
+            {collections.map((collection) => (
+              <option key={collection.id} value={collection.id}>
+                {collection.name} ({collection.bookmarks.length})
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-1 mb-2">
+            <button onClick={createCollection} className={`flex-1 ${buttonClass}`}>
+              New
+            </button>
+            <button onClick={renameCollection} disabled={selected.builtIn} className={`flex-1 ${buttonClass}`}>
+              Rename
+            </button>
+            <button onClick={deleteCollection} disabled={selected.builtIn} className={`flex-1 ${buttonClass}`}>
+              Delete
+            </button>
+          </div>
+
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by name or tag"
+            className={`${inputClass} mb-1`}
+          />
+          <ul className="max-h-64 overflow-y-auto divide-y divide-zinc-100 dark:divide-zinc-800">
+            {bookmarks.map((bookmark) => (
+              <li key={bookmark.id} className="flex items-start gap-1 py-1">
+                <button onClick={() => onSelect(bookmark)} className="flex-1 text-left min-w-0" title={bookmark.notes || undefined}>
+                  <p className="text-xs font-medium truncate">{bookmark.name}</p>
+                  {bookmark.tags.length > 0 && (
+                    <p className="text-[10px] text-zinc-500 truncate">{bookmark.tags.map((tag) => `#${tag}`).join(' ')}</p>
+                  )}
+                </button>
+                {!selected.builtIn && (
+                  <button
+                    onClick={() => deleteBookmark(bookmark.id)}
+                    className="text-xs text-zinc-400 hover:text-red-600"
+                    title="Remove from collection"
+                  >
+                    ×
+                  </button>
+                )}
+              </li>
+            ))}
+            {bookmarks.length === 0 && (
+              <li className="py-1 text-xs text-zinc-500">{query ? 'No matching places' : 'No places yet'}</li>
+            )}
+          </ul>
+
+          {/* GeoJSON exchange */}
+          <div className="flex gap-1 mt-2">
+            <button onClick={() => fileInput.current?.click()} className={`flex-1 ${buttonClass}`}>
+              Import
+            </button>
+            <button onClick={exportCollection} disabled={selected.bookmarks.length === 0} className={`flex-1 ${buttonClass}`}>
+              Export
+            </button>
+          </div>
+          <input ref={fileInput} type="file" accept=".geojson,.json,application/geo+json" onChange={importCollection} className="hidden" />
+          {message && <p className="mt-1 text-xs text-zinc-500">{message}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
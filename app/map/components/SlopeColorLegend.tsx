@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  getSlopeColorScheme,
+  getSlopeLegend,
+  MAX_CUSTOM_BREAKS,
+  parseSlopeBreaks,
+  SLOPE_COLOR_SCHEMES,
+  type SlopeColors,
+  type SlopeSchemeId,
+} from '@/lib/slope-colors';
+
+interface SlopeColorLegendProps {
+  colors: SlopeColors;
+  minSlope: number; // degrees, flatter slopes are not coloured
+  onChange: (colors: SlopeColors) => void;
+}
+
+export default function SlopeColorLegend({ colors, minSlope, onChange }: SlopeColorLegendProps) {
+  const [breaksDraft, setBreaksDraft] = useState<string | null>(null);
+  const scheme = getSlopeColorScheme(colors);
+  const legend = getSlopeLegend(scheme, minSlope);
+  const breaksValid = breaksDraft === null || parseSlopeBreaks(breaksDraft) !== null;
+
+  const commitBreaks = () => {
+    if (breaksDraft === null) return;
+    const breaks = parseSlopeBreaks(breaksDraft);
+    if (!breaks) return;
+    setBreaksDraft(null);
+    onChange({ ...colors, breaks });
+  };
+
+  return (
+    <div className="mb-3 p-2 bg-zinc-50 dark:bg-zinc-800 rounded">
+      <div className="flex items-center gap-2 mb-1">
+        <p className="text-xs text-zinc-600 dark:text-zinc-400">Slope colours:</p>
+        <select
+          value={colors.scheme}
+          onChange={(e) => onChange({ ...colors, scheme: e.target.value as SlopeSchemeId })}
+          title={scheme.description}
+          className="flex-1 px-1 py-0.5 text-xs bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-600 rounded"
+        >
+          {SLOPE_COLOR_SCHEMES.map(({ id, name }) => (
+            <option key={id} value={id}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {colors.scheme === 'custom' && (
+        <input
+          value={breaksDraft ?? colors.breaks.join(', ')}
+          onChange={(e) => setBreaksDraft(e.target.value)}
+          onBlur={commitBreaks}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitBreaks();
+            if (e.key === 'Escape') setBreaksDraft(null);
+          }}
+          placeholder="25, 30, 35"
+          title={`Class starts in degrees, up to ${MAX_CUSTOM_BREAKS}`}
+          className={`w-full mb-1 px-2 py-1 text-xs rounded border bg-white dark:bg-zinc-800 ${
+            breaksValid ? 'border-zinc-200 dark:border-zinc-700' : 'border-red-500'
+          }`}
+        />
+      )}
+
+      {legend.gradient ? (
+        <>
+          <div className="h-3 rounded" style={{ background: legend.gradient }}></div>
+          <div className="flex justify-between text-xs text-zinc-400 mt-1">
+            <span>{legend.range[0]}°</span>
+            <span>{legend.range[1]}°+</span>
+          </div>
+        </>
+      ) : legend.classes.length > 0 ? (
+        <div className="space-y-0.5">
+          {legend.classes.map(({ label, color }) => (
+            <div key={label} className="flex items-center gap-2 text-xs text-zinc-500">
+              <span className="w-4 h-3 rounded-sm" style={{ background: color }}></span>
+              {label}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-zinc-400">All classes are below the minimum slope angle</p>
+      )}
+    </div>
+  );
+}
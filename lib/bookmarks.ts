@@ -0,0 +1,179 @@
+/**
+ * Saved places
+ * Bookmarks of map views and cliffs grouped into collections, kept in localStorage
+ * and exchanged as GeoJSON
+ */
+
+import { SAMPLE_LOCATIONS } from './cog-utils';
+import type { CliffLineProperties } from './cliff-detector';
+import type { SeaCliffProperties } from './sea-cliffs';
+import type { MapView } from './permalink';
+
+export type BookmarkCliff = CliffLineProperties & Partial<SeaCliffProperties>;
+
+export interface Bookmark {
+  id: string;
+  name: string;
+  notes: string;
+  tags: string[];
+  position: [number, number]; // [lng, lat], the view centre or the clicked cliff
+  view: MapView; // view to fly to
+  cliff?: BookmarkCliff; // cliff line properties when a cliff was saved
+  created: string; // ISO date
+}
+
+// Bookmark being edited before it is saved
+export type BookmarkDraft = Omit<Bookmark, 'id'>;
+
+export interface BookmarkCollection {
+  id: string;
+  name: string;
+  bookmarks: Bookmark[];
+  builtIn?: boolean; // starter collection, not stored and read-only
+}
+
+const STORAGE_KEY = 'cliff-finder:collections';
+const STORAGE_VERSION = 1;
+
+export const STARTER_COLLECTION_ID = 'starter';
+
+/**
+ * Sample locations as the built-in starter collection
+ */
+export const STARTER_COLLECTION: BookmarkCollection = {
+  id: STARTER_COLLECTION_ID,
+  name: 'Starter places',
+  builtIn: true,
+  bookmarks: Object.entries(SAMPLE_LOCATIONS).map(([key, { lat, lon, zoom, name }]) => ({
+    id: `${STARTER_COLLECTION_ID}-${key}`,
+    name,
+    notes: '',
+    tags: ['sample'],
+    position: [lon, lat],
+    view: { center: [lon, lat], zoom, bearing: 0, pitch: 45 },
+    created: '1970-01-01T00:00:00.000Z',
+  })),
+};
+
+export function createId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Split a comma separated tag list, dropping blanks and duplicates
+ */
+export function parseTags(value: string): string[] {
+  return [...new Set(value.split(',').map((tag) => tag.trim()).filter(Boolean))];
+}
+
+/**
+ * Stored collections, empty when nothing is stored or the stored data is unreadable
+ */
+export function loadCollections(): BookmarkCollection[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (parsed?.version !== STORAGE_VERSION || !Array.isArray(parsed.collections)) return [];
+    return parsed.collections;
+  } catch (err) {
+    console.warn('Could not read saved places:', err);
+    return [];
+  }
+}
+
+/**
+ * Store the user's collections (the built-in collection is left out)
+ */
+export function saveCollections(collections: BookmarkCollection[]): void {
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        version: STORAGE_VERSION,
+        collections: collections.filter((collection) => !collection.builtIn),
+      })
+    );
+  } catch (err) {
+    console.warn('Could not store saved places:', err);
+  }
+}
+
+/**
+ * Collection as a GeoJSON FeatureCollection of points with the collection name
+ * as a foreign member
+ */
+export function collectionToGeoJSON(collection: BookmarkCollection): GeoJSON.FeatureCollection & { name: string } {
+  return {
+    type: 'FeatureCollection',
+    name: collection.name,
+    features: collection.bookmarks.map(({ id, name, notes, tags, position, view, cliff, created }) => ({
+      type: 'Feature',
+      id,
+      geometry: { type: 'Point', coordinates: position },
+      properties: { name, notes, tags, view, created, ...(cliff ? { cliff } : {}) },
+    })),
+  };
+}
+
+function isPosition(value: unknown): value is [number, number] {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    Number.isFinite(value[0]) &&
+    Number.isFinite(value[1]) &&
+    Math.abs(value[0]) <= 180 &&
+    Math.abs(value[1]) <= 90
+  );
+}
+
+function isView(value: unknown): value is MapView {
+  const view = value as MapView | null;
+  return (
+    typeof view === 'object' &&
+    view !== null &&
+    isPosition(view.center) &&
+    [view.zoom, view.bearing, view.pitch].every(Number.isFinite)
+  );
+}
+
+/**
+ * Collection from GeoJSON point features
+ * Features from other tools get a view around the point; other geometries are skipped
+ * @throws Error if the data is not a FeatureCollection or has no points
+ */
+export function collectionFromGeoJSON(data: unknown, fallbackName: string): BookmarkCollection {
+  const geoJson = data as (GeoJSON.FeatureCollection & { name?: unknown }) | null;
+  if (geoJson?.type !== 'FeatureCollection' || !Array.isArray(geoJson.features)) {
+    throw new Error('Not a GeoJSON FeatureCollection');
+  }
+
+  const bookmarks: Bookmark[] = [];
+  for (const feature of geoJson.features) {
+    if (feature?.geometry?.type !== 'Point' || !isPosition(feature.geometry.coordinates)) continue;
+
+    const position: [number, number] = [feature.geometry.coordinates[0], feature.geometry.coordinates[1]];
+    const properties = feature.properties ?? {};
+    bookmarks.push({
+      id: createId(),
+      name: typeof properties.name === 'string' && properties.name ? properties.name : `Place ${bookmarks.length + 1}`,
+      notes: typeof properties.notes === 'string' ? properties.notes : '',
+      tags: Array.isArray(properties.tags) ? properties.tags.filter((tag: unknown) => typeof tag === 'string') : [],
+      position,
+      view: isView(properties.view) ? properties.view : { center: position, zoom: 14, bearing: 0, pitch: 45 },
+      cliff: typeof properties.cliff === 'object' && properties.cliff !== null ? properties.cliff : undefined,
+      created: typeof properties.created === 'string' ? properties.created : new Date().toISOString(),
+    });
+  }
+
+  if (bookmarks.length === 0) {
+    throw new Error('No point features to import');
+  }
+
+  return {
+    id: createId(),
+    name: typeof geoJson.name === 'string' && geoJson.name ? geoJson.name : fallbackName,
+    bookmarks,
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Cliff detection on an elevation window
+ * The steps shared by /api/cliffs and the batch scanner: the cliff mask, the
+ * optional sea-cliff filter, and cliff objects and lines with sea-cliff properties,
+ * all following one set of cliff criteria (see lib/cliff-criteria)
+ */
+
+import {
+  detectCliffsRaster,
+  getPixelSize,
+  segmentCliffs,
+  traceCliffLines,
+  type CliffLineProperties,
+  type CliffObject,
+  type ElevationRaster,
+} from './cliff-detector';
+import { getDetectionParams, meetsCliffCriteria, type CliffCriteria } from './cliff-criteria';
+import {
+  analyzeCoast,
+  describeSeaCliffs,
+  filterCoastalMask,
+  type CoastAnalysis,
+  type CoastalParams,
+  type SeaCliffProperties,
+} from './sea-cliffs';
+
+export interface CliffAnalysisOptions {
+  criteria: CliffCriteria;
+  coastal?: CoastalParams | null; // keep only sea cliffs
+}
+
+export type AnalyzedCliff = CliffObject & Partial<SeaCliffProperties>;
+
+export type AnalyzedCliffLine = GeoJSON.Feature<GeoJSON.LineString, CliffLineProperties & Partial<SeaCliffProperties>>;
+
+export interface CliffAnalysis {
+  detectionParams: { heightDiff: number; horizontalDist: number }; // as evaluated on the raster grid
+  cliffMask: Uint8Array;
+  coast: CoastAnalysis | null;
+  getCliffs: () => Map<string, AnalyzedCliff>; // by cliff ID, those meeting the criteria
+  getLines: () => AnalyzedCliffLine[]; // lines of those cliffs
+}
+
+/**
+ * Detect cliffs in a raster
+ * Cliffs and lines are computed on request, as they cost more than the mask
+ * (cliffs once, they are shared with the sea-cliff properties of the lines)
+ */
+export function analyzeCliffs(
+  raster: ElevationRaster,
+  bbox: [number, number, number, number],
+  { criteria, coastal = null }: CliffAnalysisOptions
+): CliffAnalysis {
+  const { heightDiff, horizontalDist } = getDetectionParams(criteria);
+  // Distances shorter than a pixel have no neighbours to compare against,
+  // so evaluate them over one pixel with the same gradient
+  const evaluationDist = Math.max(horizontalDist, ...getPixelSize(raster));
+  const detectionParams = {
+    heightDiff: (heightDiff * evaluationDist) / horizontalDist,
+    horizontalDist: evaluationDist,
+  };
+
+  const coast = coastal ? analyzeCoast(raster, coastal.seaLevel) : null;
+  const cliffMask = coast
+    ? filterCoastalMask(detectCliffsRaster(raster, detectionParams), coast, coastal!.maxCoastDistance)
+    : detectCliffsRaster(raster, detectionParams);
+
+  // IDs match between segmentCliffs and traceCliffLines
+  let cliffs: Map<string, AnalyzedCliff> | null = null;
+  const getCliffs = (): Map<string, AnalyzedCliff> => {
+    if (!cliffs) {
+      const segmentation = segmentCliffs(cliffMask, raster, bbox, detectionParams);
+      const described = coast
+        ? describeSeaCliffs(segmentation.cliffs, segmentation.labels, raster, coast, coastal!.seaLevel)
+        : segmentation.cliffs;
+      cliffs = new Map(
+        described.filter((cliff) => meetsCliffCriteria(cliff, criteria)).map((cliff) => [cliff.id, cliff])
+      );
+    }
+    return cliffs;
+  };
+
+  const getLines = (): AnalyzedCliffLine[] => {
+    const lines = traceCliffLines(cliffMask, raster, bbox, detectionParams).features;
+    const filtered = criteria.minDrop > 0 || criteria.minExtent > 0;
+    if (!coast && !filtered) return lines;
+
+    const kept = getCliffs();
+    return lines.flatMap((feature) => {
+      const cliff = kept.get(feature.properties.cliffId);
+      if (!cliff) return [];
+      if (!coast) return [feature];
+      const { heightAboveSea, coastDistance, seawardAspect, seaward } = cliff;
+      return [
+        {
+          ...feature,
+          properties: { ...feature.properties, heightAboveSea, coastDistance, seawardAspect, seaward },
+        },
+      ];
+    });
+  };
+
+  return { detectionParams, cliffMask, coast, getCliffs, getLines };
+}
@@ -0,0 +1,126 @@
+/**
+ * What counts as a cliff, shared by the slope view and every detection path
+ *
+ * The steepness threshold (minAngle) colours the slope view and, measured over
+ * evaluationDistance, marks cliff pixels in the detector. Detected cliffs are
+ * then kept when their whole drop and horizontal extent are large enough.
+ */
+
+import { calculateSlopeAngle, DEFAULT_CLIFF_ANGLE, type CliffObject } from './cliff-detector';
+
+export interface CliffCriteria {
+  minAngle: number; // degrees, steepest slope the terrain must reach
+  evaluationDistance: number; // meters, horizontal distance the steepness is measured over
+  minDrop: number; // meters, smallest height difference across a cliff (0 = any)
+  minExtent: number; // meters, smallest horizontal extent of a cliff along its longer side (0 = any)
+}
+
+export const DEFAULT_CLIFF_CRITERIA: CliffCriteria = {
+  minAngle: DEFAULT_CLIFF_ANGLE,
+  evaluationDistance: 30, // one GLO-30 pixel
+  minDrop: 0,
+  minExtent: 0,
+};
+
+// Editable ranges of the criteria (the API accepts any positive value)
+export const CLIFF_CRITERIA_LIMITS: Record<keyof CliffCriteria, { min: number; max: number; step: number }> = {
+  minAngle: { min: 5, max: 60, step: 1 },
+  evaluationDistance: { min: 10, max: 300, step: 10 },
+  minDrop: { min: 0, max: 500, step: 5 },
+  minExtent: { min: 0, max: 2000, step: 10 },
+};
+
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Steepness of the criteria as a gradient in percent (rise over run)
+ */
+export function getCriteriaGradient({ minAngle }: CliffCriteria): number {
+  return Math.tan((minAngle * Math.PI) / 180) * 100;
+}
+
+/**
+ * Detector parameters: the height difference over the evaluation distance at the minimum angle
+ */
+export function getDetectionParams(criteria: CliffCriteria): { heightDiff: number; horizontalDist: number } {
+  return {
+    heightDiff: (getCriteriaGradient(criteria) / 100) * criteria.evaluationDistance,
+    horizontalDist: criteria.evaluationDistance,
+  };
+}
+
+/**
+ * Criteria of the detector parameters (inverse of getDetectionParams)
+ */
+export function criteriaFromDetectionParams(
+  heightDiff: number,
+  horizontalDist: number,
+  rest: Pick<CliffCriteria, 'minDrop' | 'minExtent'> = DEFAULT_CLIFF_CRITERIA
+): CliffCriteria {
+  return { ...rest, minAngle: calculateSlopeAngle(heightDiff, horizontalDist), evaluationDistance: horizontalDist };
+}
+
+/**
+ * Horizontal extent of a cliff in meters, the longer side of its bounding box
+ */
+export function getCliffExtent({ bbox: [west, south, east, north] }: CliffObject): number {
+  const midLat = ((south + north) / 2) * (Math.PI / 180);
+  return Math.max((east - west) * METERS_PER_DEGREE * Math.cos(midLat), (north - south) * METERS_PER_DEGREE);
+}
+
+/**
+ * Whether a detected cliff is large enough (its steepness is checked by the detector)
+ */
+export function meetsCliffCriteria(cliff: CliffObject, { minDrop, minExtent }: CliffCriteria): boolean {
+  return cliff.maxHeightDiff >= minDrop && (minExtent === 0 || getCliffExtent(cliff) >= minExtent);
+}
+
+/**
+ * Query parameters of the criteria, as /api/cliffs takes them
+ */
+export function criteriaToSearchParams(criteria: CliffCriteria): Record<keyof CliffCriteria, string> {
+  return {
+    minAngle: String(criteria.minAngle),
+    evaluationDistance: String(criteria.evaluationDistance),
+    minDrop: String(criteria.minDrop),
+    minExtent: String(criteria.minExtent),
+  };
+}
+
+/**
+ * Criteria from query parameters, defaults for missing ones
+ * @returns null when a value is out of range (angle in (0, 90), distance positive, drop and extent not negative)
+ */
+export function parseCriteriaParams(
+  get: (name: keyof CliffCriteria) => string | null,
+  defaults: CliffCriteria = DEFAULT_CLIFF_CRITERIA
+): CliffCriteria | null {
+  const read = (name: keyof CliffCriteria) => {
+    const value = get(name);
+    return value === null ? defaults[name] : parseFloat(value);
+  };
+
+  const criteria: CliffCriteria = {
+    minAngle: read('minAngle'),
+    evaluationDistance: read('evaluationDistance'),
+    minDrop: read('minDrop'),
+    minExtent: read('minExtent'),
+  };
+
+  if (Object.values(criteria).some((value) => !Number.isFinite(value))) return null;
+  if (criteria.minAngle <= 0 || criteria.minAngle >= 90 || criteria.evaluationDistance <= 0) return null;
+  if (criteria.minDrop < 0 || criteria.minExtent < 0) return null;
+  return criteria;
+}
+
+/**
+ * One-line description, e.g. "15° (26.8%) over 30 m, drop 20 m+, extent 100 m+"
+ */
+export function describeCriteria(criteria: CliffCriteria): string {
+  const parts = [
+    `${criteria.minAngle}° (${getCriteriaGradient(criteria).toFixed(1)}%) over ${criteria.evaluationDistance} m`,
+  ];
+  if (criteria.minDrop > 0) parts.push(`drop ${criteria.minDrop} m+`);
+  if (criteria.minExtent > 0) parts.push(`extent ${criteria.minExtent} m+`);
+  return parts.join(', ');
+}
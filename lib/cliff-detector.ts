@@ -18,85 +18,226 @@ export function calculateSlopeAngle(heightDiff: number, horizontalDist: number):
   return Math.atan(heightDiff / horizontalDist) * (180 / Math.PI);
 }
 
+// Default minimum cliff angle in degrees (the minAngle of DEFAULT_CLIFF_CRITERIA)
+export const DEFAULT_CLIFF_ANGLE = 15;
+
 /**
  * Determine if slope meets cliff criteria
  * @param slopeAngle - Slope angle in degrees
- * @param minAngle - Minimum angle to be considered a cliff (default: 8.5° for 3m/20m)
+ * @param minAngle - Minimum angle to be considered a cliff (default: DEFAULT_CLIFF_ANGLE)
  * @returns True if slope is steep enough to be a cliff
  */
-export function isCliff(slopeAngle: number, minAngle: number = 8.5): boolean {
+export function isCliff(slopeAngle: number, minAngle: number = DEFAULT_CLIFF_ANGLE): boolean {
   return slopeAngle >= minAngle;
 }
 
+export interface ElevationRaster {
+  data: Float32Array | Float64Array; // row-major, north to south
+  width: number;
+  height: number;
+  resolution: number; // meters per pixel (the mean of both axes when they differ)
+  xResolution?: number; // meters per pixel along rows, default resolution
+  yResolution?: number; // meters per pixel down columns, default resolution
+  noData?: number | null; // NaN is always treated as no data
+}
+
 /**
- * Get cliff detection parameters
+ * Ground size of a pixel in meters, [along rows, down columns]
  */
-export function getCliffParams(
-  heightDiff: number = 3,
-  horizontalDist: number = 20
-): SlopeParams & { minAngle: number; gradient: number } {
-  const gradient = (heightDiff / horizontalDist) * 100; // percentage
-  const minAngle = calculateSlopeAngle(heightDiff, horizontalDist);
-
-  return {
-    heightDiff,
-    horizontalDist,
-    minAngle,
-    gradient,
-  };
+export function getPixelSize({ resolution, xResolution, yResolution }: ElevationRaster): [number, number] {
+  return [xResolution ?? resolution, yResolution ?? resolution];
 }
 
 /**
- * Analyze elevation data to find potential cliffs
- * @param elevationData - 2D array of elevation values
- * @param resolution - Spatial resolution in meters per pixel
- * @param params - Cliff detection parameters
- * @returns Array of cliff locations
+ * Wrap a 2D elevation array as a raster (null entries become NaN)
  */
-export function detectCliffs(
-  elevationData: number[][],
-  resolution: number,
-  params: SlopeParams
-): boolean[][] {
+export function rasterFromRows(elevationData: number[][], resolution: number): ElevationRaster {
   const height = elevationData.length;
   const width = elevationData[0]?.length || 0;
-  const cliffMask: boolean[][] = Array(height)
-    .fill(null)
-    .map(() => Array(width).fill(false));
+  const data = new Float64Array(width * height);
 
-  const pixelDistance = Math.ceil(params.horizontalDist / resolution);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = elevationData[y][x];
+      data[y * width + x] = value === null ? NaN : value;
+    }
+  }
 
+  return { data, width, height, resolution };
+}
+
+/**
+ * Expand a flat cliff mask into rows
+ */
+export function maskToRows(cliffMask: Uint8Array, width: number, height: number): boolean[][] {
+  const rows: boolean[][] = [];
   for (let y = 0; y < height; y++) {
+    const row: boolean[] = [];
     for (let x = 0; x < width; x++) {
-      const currentElev = elevationData[y][x];
-      if (currentElev === null || isNaN(currentElev)) continue;
+      row.push(cliffMask[y * width + x] === 1);
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Copy a raster with no-data pixels replaced by NaN
+ */
+function normalizeNoData(raster: ElevationRaster): Float32Array | Float64Array {
+  const { data, noData } = raster;
+  if (noData === undefined || noData === null || isNaN(noData)) return data;
+
+  const normalized = data.slice();
+  for (let i = 0; i < normalized.length; i++) {
+    if (normalized[i] === noData) normalized[i] = NaN;
+  }
+  return normalized;
+}
+
+/**
+ * Sliding-window extreme along one line of a raster (monotonic deque)
+ */
+function slidingExtreme(
+  source: Float32Array | Float64Array,
+  target: Float32Array | Float64Array,
+  offset: number,
+  stride: number,
+  length: number,
+  radius: number,
+  isMax: boolean,
+  queue: Int32Array
+): void {
+  let head = 0;
+  let tail = 0;
+
+  for (let i = 0; i < length + radius; i++) {
+    // Push the value entering the window, dropping values it dominates
+    if (i < length) {
+      const value = source[offset + i * stride];
+      while (tail > head) {
+        const last = source[offset + queue[tail - 1] * stride];
+        if (isMax ? last > value : last < value) break;
+        tail--;
+      }
+      queue[tail++] = i;
+    }
+
+    // Emit the window centred on i - radius
+    const center = i - radius;
+    if (center < 0) continue;
+    while (queue[head] < center - radius) head++;
+    target[offset + center * stride] = source[offset + queue[head] * stride];
+  }
+}
+
+/**
+ * Sliding-window minimum and maximum over rectangular windows, skipping NaN
+ *
+ * Runs one pass along rows and one along columns, so the cost per pixel does
+ * not depend on the radius. Windows without data yield +Infinity / -Infinity.
+ * Results keep the precision of the input.
+ *
+ * @param radius - Pixels either side along rows
+ * @param radiusY - Pixels either side down columns (default: radius)
+ */
+export function slidingMinMax(
+  data: Float32Array | Float64Array,
+  width: number,
+  height: number,
+  radius: number,
+  radiusY: number = radius
+): { min: Float32Array | Float64Array; max: Float32Array | Float64Array } {
+  const ArrayType = data instanceof Float64Array ? Float64Array : Float32Array;
+  const min = new ArrayType(data.length);
+  const max = new ArrayType(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const value = data[i];
+    min[i] = isNaN(value) ? Infinity : value;
+    max[i] = isNaN(value) ? -Infinity : value;
+  }
+
+  const buffer = new ArrayType(data.length);
+  const queue = new Int32Array(Math.max(width, height));
+
+  for (const [values, isMax] of [[min, false], [max, true]] as const) {
+    for (let y = 0; y < height; y++) {
+      slidingExtreme(values, buffer, y * width, 1, width, radius, isMax, queue);
+    }
+    for (let x = 0; x < width; x++) {
+      slidingExtreme(buffer, values, x, width, height, radiusY, isMax, queue);
+    }
+  }
+
+  return { min, max };
+}
+
+/**
+ * Find cliff pixels in an elevation raster
+ *
+ * A pixel is a cliff when any neighbour within the horizontal distance is steeper
+ * than heightDiff / horizontalDist. A sliding-window min/max over the radius
+ * rules out most pixels before any neighbour is visited, and neighbours are
+ * visited nearest first so the search stops as soon as no farther one can qualify.
+ *
+ * @param raster - Elevation raster
+ * @param params - Cliff detection parameters
+ * @returns Mask with 1 for cliff pixels, row-major like the raster
+ */
+export function detectCliffsRaster(raster: ElevationRaster, params: SlopeParams): Uint8Array {
+  const { width, height } = raster;
+  const [xResolution, yResolution] = getPixelSize(raster);
+  const data = normalizeNoData(raster);
+  const cliffMask = new Uint8Array(width * height);
+
+  // Pixels are not square away from the equator, so the radius differs per axis
+  const pixelDistanceX = Math.ceil(params.horizontalDist / xResolution);
+  const pixelDistanceY = Math.ceil(params.horizontalDist / yResolution);
+  const minAngle = calculateSlopeAngle(params.heightDiff, params.horizontalDist);
+  const gradient = params.heightDiff / params.horizontalDist;
+
+  // Neighbour offsets within the distance, nearest first, with the elevation
+  // difference each needs (slightly relaxed, the angle test below is exact)
+  const offsets: { dx: number; dy: number; distance: number; threshold: number }[] = [];
+  for (let dy = -pixelDistanceY; dy <= pixelDistanceY; dy++) {
+    for (let dx = -pixelDistanceX; dx <= pixelDistanceX; dx++) {
+      if (dx === 0 && dy === 0) continue;
+      const distance = Math.hypot(dx * xResolution, dy * yResolution);
+      if (distance > params.horizontalDist) continue;
+      offsets.push({ dx, dy, distance, threshold: gradient * distance * (1 - 1e-9) });
+    }
+  }
+  offsets.sort((a, b) => a.distance - b.distance);
+  if (offsets.length === 0) return cliffMask;
 
-      // Check surrounding pixels within the horizontal distance
-      for (let dy = -pixelDistance; dy <= pixelDistance; dy++) {
-        for (let dx = -pixelDistance; dx <= pixelDistance; dx++) {
-          if (dx === 0 && dy === 0) continue;
+  const { min, max } = slidingMinMax(data, width, height, pixelDistanceX, pixelDistanceY);
 
-          const nx = x + dx;
-          const ny = y + dy;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const currentElev = data[index];
+      if (isNaN(currentElev)) continue;
 
-          if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+      // Largest difference to anything in the surrounding square
+      const bound = Math.max(max[index] - currentElev, currentElev - min[index]);
 
-          const neighborElev = elevationData[ny][nx];
-          if (neighborElev === null || isNaN(neighborElev)) continue;
+      for (const { dx, dy, distance, threshold } of offsets) {
+        if (bound < threshold) break;
 
-          const actualDistance = Math.sqrt(dx * dx + dy * dy) * resolution;
-          if (actualDistance > params.horizontalDist) continue;
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
 
-          const elevDiff = Math.abs(currentElev - neighborElev);
-          const slopeAngle = calculateSlopeAngle(elevDiff, actualDistance);
+        const neighborElev = data[ny * width + nx];
+        if (isNaN(neighborElev)) continue;
 
-          const minAngle = calculateSlopeAngle(params.heightDiff, params.horizontalDist);
-          if (slopeAngle >= minAngle) {
-            cliffMask[y][x] = true;
-            break;
-          }
+        const elevDiff = Math.abs(currentElev - neighborElev);
+        if (elevDiff < threshold) continue;
+
+        if (calculateSlopeAngle(elevDiff, distance) >= minAngle) {
+          cliffMask[index] = 1;
+          break;
         }
-        if (cliffMask[y][x]) break;
       }
     }
   }
@@ -104,6 +245,22 @@ export function detectCliffs(
   return cliffMask;
 }
 
+/**
+ * Analyze elevation data to find potential cliffs
+ * @param elevationData - 2D array of elevation values
+ * @param resolution - Spatial resolution in meters per pixel
+ * @param params - Cliff detection parameters
+ * @returns Array of cliff locations
+ */
+export function detectCliffs(
+  elevationData: number[][],
+  resolution: number,
+  params: SlopeParams
+): boolean[][] {
+  const raster = rasterFromRows(elevationData, resolution);
+  return maskToRows(detectCliffsRaster(raster, params), raster.width, raster.height);
+}
+
 /**
  * Create a GeoJSON feature collection from cliff mask
  * @param cliffMask - Boolean array indicating cliff locations
@@ -145,3 +302,499 @@ export function cliffMaskToGeoJSON(
     features,
   };
 }
+
+export type CliffEdge = 'top' | 'toe';
+
+export interface CliffLineProperties {
+  cliffId: string;
+  edge: CliffEdge;
+  length: number; // meters
+  meanDrop: number; // meters
+  maxDrop: number; // meters
+  aspect: number; // degrees clockwise from north, direction the face looks towards
+  facing: CompassDirection | '-'; // compass direction of the aspect
+}
+
+export const COMPASS_DIRECTIONS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'] as const;
+
+export type CompassDirection = (typeof COMPASS_DIRECTIONS)[number];
+
+// 8-connected neighbour offsets, cardinal directions first
+const NEIGHBOR_OFFSETS: [number, number][] = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [-1, 1], [1, -1], [-1, -1],
+];
+
+/**
+ * Convert an aspect in degrees to an 8-point compass direction
+ */
+export function aspectToCompass(aspect: number): CompassDirection | '-' {
+  if (isNaN(aspect)) return '-';
+  const index = Math.round((((aspect % 360) + 360) % 360) / 45) % 8;
+  return COMPASS_DIRECTIONS[index];
+}
+
+/**
+ * Label 8-connected groups of cliff pixels
+ * @returns Label per pixel (0 = no cliff, 1..count = component) and component count
+ */
+function labelCliffComponents(
+  cliffMask: Uint8Array,
+  width: number,
+  height: number
+): { labels: Int32Array; count: number } {
+  const labels = new Int32Array(width * height);
+  const stack: number[] = [];
+  let count = 0;
+
+  for (let start = 0; start < width * height; start++) {
+    if (labels[start] !== 0 || cliffMask[start] !== 1) continue;
+
+    count++;
+    labels[start] = count;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width;
+      const y = Math.floor(index / width);
+
+      for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+
+        const neighbor = ny * width + nx;
+        if (labels[neighbor] !== 0 || cliffMask[neighbor] !== 1) continue;
+
+        labels[neighbor] = count;
+        stack.push(neighbor);
+      }
+    }
+  }
+
+  return { labels, count };
+}
+
+/**
+ * Largest elevation difference to any neighbour within the horizontal distance
+ */
+function calculateMaxDrop(
+  data: Float32Array | Float64Array,
+  raster: ElevationRaster,
+  x: number,
+  y: number,
+  horizontalDist: number
+): number {
+  const { width, height } = raster;
+  const [xResolution, yResolution] = getPixelSize(raster);
+  const currentElev = data[y * width + x];
+  const pixelDistanceX = Math.max(1, Math.ceil(horizontalDist / xResolution));
+  const pixelDistanceY = Math.max(1, Math.ceil(horizontalDist / yResolution));
+  const maxDistance = Math.max(horizontalDist, xResolution, yResolution);
+  let maxDrop = 0;
+
+  for (let dy = -pixelDistanceY; dy <= pixelDistanceY; dy++) {
+    for (let dx = -pixelDistanceX; dx <= pixelDistanceX; dx++) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+      if (Math.hypot(dx * xResolution, dy * yResolution) > maxDistance) continue;
+
+      const neighborElev = data[ny * width + nx];
+      if (isNaN(neighborElev)) continue;
+
+      maxDrop = Math.max(maxDrop, Math.abs(currentElev - neighborElev));
+    }
+  }
+
+  return maxDrop;
+}
+
+/**
+ * Calculate slope and aspect (downslope direction) with Horn's 3x3 method
+ * @returns Slope in degrees and aspect in degrees clockwise from north (NaN on flat ground)
+ */
+function calculateSlopeAspect(
+  data: Float32Array | Float64Array,
+  raster: ElevationRaster,
+  x: number,
+  y: number
+): { slope: number; aspect: number } {
+  const { width, height } = raster;
+  const [xResolution, yResolution] = getPixelSize(raster);
+  const center = data[y * width + x];
+
+  // Missing neighbours fall back to the centre elevation
+  const at = (dx: number, dy: number): number => {
+    const nx = x + dx;
+    const ny = y + dy;
+    if (nx < 0 || nx >= width || ny < 0 || ny >= height) return center;
+    const value = data[ny * width + nx];
+    return isNaN(value) ? center : value;
+  };
+
+  // Rows run north to south, so dzdy is the gradient towards the south
+  const dzdx =
+    (at(1, -1) + 2 * at(1, 0) + at(1, 1) - (at(-1, -1) + 2 * at(-1, 0) + at(-1, 1))) /
+    (8 * xResolution);
+  const dzdy =
+    (at(-1, 1) + 2 * at(0, 1) + at(1, 1) - (at(-1, -1) + 2 * at(0, -1) + at(1, -1))) /
+    (8 * yResolution);
+
+  const slope = Math.atan(Math.sqrt(dzdx * dzdx + dzdy * dzdy)) * (180 / Math.PI);
+  if (dzdx === 0 && dzdy === 0) return { slope, aspect: NaN };
+
+  const aspect = Math.atan2(-dzdx, dzdy) * (180 / Math.PI);
+  return { slope, aspect: (aspect + 360) % 360 };
+}
+
+/**
+ * Circular mean of angles in degrees, ignoring NaN values
+ */
+export function meanAngle(angles: number[]): number {
+  let sumSin = 0;
+  let sumCos = 0;
+  for (const angle of angles) {
+    if (isNaN(angle)) continue;
+    sumSin += Math.sin(angle * (Math.PI / 180));
+    sumCos += Math.cos(angle * (Math.PI / 180));
+  }
+  if (sumSin === 0 && sumCos === 0) return NaN;
+  return (Math.atan2(sumSin, sumCos) * (180 / Math.PI) + 360) % 360;
+}
+
+export interface CliffObject {
+  id: string;
+  pixelCount: number;
+  area: number; // square meters
+  bbox: [number, number, number, number]; // [west, south, east, north]
+  centroid: [number, number]; // [lng, lat]
+  centroidElevation: number; // meters
+  minElevation: number; // meters
+  maxElevation: number; // meters
+  maxHeightDiff: number; // meters
+  meanHeightDiff: number; // meters
+  maxSlope: number; // degrees
+  meanAspect: number; // degrees clockwise from north
+  facing: CompassDirection | '-'; // compass direction of the mean aspect
+}
+
+export interface CliffSegmentation {
+  labels: Int32Array; // row-major, 0 = no cliff, n = cliffs[n - 1]
+  cliffs: CliffObject[];
+}
+
+/**
+ * Group adjacent cliff pixels into distinct cliffs with per-cliff statistics
+ *
+ * IDs are derived from the geographic position of each cliff's first pixel in
+ * row order, so the same cliff keeps its ID across windows on the same grid.
+ *
+ * @param cliffMask - Cliff mask from detectCliffsRaster
+ * @param raster - Elevation raster the mask was computed from
+ * @param bounds - Geographic bounds [west, south, east, north]
+ * @param params - Cliff detection parameters used for the mask
+ * @returns Pixel labels and one object per cliff
+ */
+export function segmentCliffs(
+  cliffMask: Uint8Array,
+  raster: ElevationRaster,
+  bounds: [number, number, number, number],
+  params: SlopeParams
+): CliffSegmentation {
+  const [west, south, east, north] = bounds;
+  const { width, height } = raster;
+  const [xResolution, yResolution] = getPixelSize(raster);
+  const data = normalizeNoData(raster);
+  const lngStep = (east - west) / width;
+  const latStep = (north - south) / height;
+  const { labels, count } = labelCliffComponents(cliffMask, width, height);
+
+  const stats = Array.from({ length: count }, () => ({
+    firstPixel: -1,
+    pixelCount: 0,
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity,
+    sumX: 0,
+    sumY: 0,
+    minElevation: Infinity,
+    maxElevation: -Infinity,
+    maxHeightDiff: 0,
+    sumHeightDiff: 0,
+    maxSlope: 0,
+    aspects: [] as number[],
+  }));
+
+  for (let index = 0; index < labels.length; index++) {
+    const label = labels[index];
+    if (label === 0) continue;
+
+    const x = index % width;
+    const y = Math.floor(index / width);
+    const elev = data[index];
+    const stat = stats[label - 1];
+
+    if (stat.firstPixel < 0) stat.firstPixel = index;
+    stat.pixelCount++;
+    stat.minX = Math.min(stat.minX, x);
+    stat.minY = Math.min(stat.minY, y);
+    stat.maxX = Math.max(stat.maxX, x);
+    stat.maxY = Math.max(stat.maxY, y);
+    stat.sumX += x;
+    stat.sumY += y;
+
+    if (isNaN(elev)) continue;
+
+    const heightDiff = calculateMaxDrop(data, raster, x, y, params.horizontalDist);
+    const { slope, aspect } = calculateSlopeAspect(data, raster, x, y);
+    stat.minElevation = Math.min(stat.minElevation, elev);
+    stat.maxElevation = Math.max(stat.maxElevation, elev);
+    stat.maxHeightDiff = Math.max(stat.maxHeightDiff, heightDiff);
+    stat.sumHeightDiff += heightDiff;
+    stat.maxSlope = Math.max(stat.maxSlope, slope);
+    stat.aspects.push(aspect);
+  }
+
+  // Elevation at the cliff pixel closest to the centroid (cliffs are rarely convex)
+  const centroidPixels = stats.map((stat) => ({
+    x: stat.sumX / stat.pixelCount,
+    y: stat.sumY / stat.pixelCount,
+    bestDistance: Infinity,
+    elevation: NaN,
+  }));
+  for (let index = 0; index < labels.length; index++) {
+    const label = labels[index];
+    if (label === 0) continue;
+
+    const x = index % width;
+    const y = Math.floor(index / width);
+    const elev = data[index];
+    if (isNaN(elev)) continue;
+
+    const centroid = centroidPixels[label - 1];
+    const distance = (x - centroid.x) ** 2 + (y - centroid.y) ** 2;
+    if (distance < centroid.bestDistance) {
+      centroid.bestDistance = distance;
+      centroid.elevation = elev;
+    }
+  }
+
+  const cliffs = stats.map((stat, i): CliffObject => {
+    const firstX = stat.firstPixel % width;
+    const firstY = Math.floor(stat.firstPixel / width);
+    const firstLng = west + (firstX + 0.5) * lngStep;
+    const firstLat = north - (firstY + 0.5) * latStep;
+    const meanAspect = meanAngle(stat.aspects);
+    const validCount = stat.aspects.length;
+
+    return {
+      id: `cliff_${firstLat.toFixed(5)}_${firstLng.toFixed(5)}`,
+      pixelCount: stat.pixelCount,
+      area: stat.pixelCount * xResolution * yResolution,
+      bbox: [
+        west + stat.minX * lngStep,
+        north - (stat.maxY + 1) * latStep,
+        west + (stat.maxX + 1) * lngStep,
+        north - stat.minY * latStep,
+      ],
+      centroid: [
+        west + (centroidPixels[i].x + 0.5) * lngStep,
+        north - (centroidPixels[i].y + 0.5) * latStep,
+      ],
+      centroidElevation: centroidPixels[i].elevation,
+      minElevation: validCount > 0 ? stat.minElevation : NaN,
+      maxElevation: validCount > 0 ? stat.maxElevation : NaN,
+      maxHeightDiff: stat.maxHeightDiff,
+      meanHeightDiff: validCount > 0 ? stat.sumHeightDiff / validCount : 0,
+      maxSlope: stat.maxSlope,
+      meanAspect,
+      facing: aspectToCompass(meanAspect),
+    };
+  });
+
+  return { labels, cliffs };
+}
+
+/**
+ * Create a GeoJSON feature collection with one centroid point per cliff
+ * @param cliffs - Cliff objects from segmentCliffs
+ * @returns GeoJSON FeatureCollection of cliff centroids with their statistics
+ */
+export function cliffObjectsToGeoJSON(
+  cliffs: CliffObject[]
+): GeoJSON.FeatureCollection<GeoJSON.Point, CliffObject> {
+  return {
+    type: 'FeatureCollection',
+    features: cliffs.map((cliff) => ({
+      type: 'Feature',
+      id: cliff.id,
+      geometry: {
+        type: 'Point',
+        coordinates: cliff.centroid,
+      },
+      properties: cliff,
+    })),
+  };
+}
+
+/**
+ * Chain a set of edge pixels into polylines by walking 8-connected neighbours
+ * Walks start from pixels with the fewest neighbours so lines run end to end
+ */
+function chainEdgePixels(pixels: number[], width: number): number[][] {
+  const remaining = new Set(pixels);
+
+  const neighborsOf = (index: number): number[] => {
+    const x = index % width;
+    const y = Math.floor(index / width);
+    const result: number[] = [];
+    for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+      const nx = x + dx;
+      if (nx < 0 || nx >= width) continue;
+      const neighbor = (y + dy) * width + nx;
+      if (remaining.has(neighbor)) result.push(neighbor);
+    }
+    return result;
+  };
+
+  const degree = new Map(pixels.map((index) => [index, neighborsOf(index).length]));
+  const starts = [...pixels].sort((a, b) => degree.get(a)! - degree.get(b)!);
+  const chains: number[][] = [];
+
+  for (const start of starts) {
+    if (!remaining.has(start)) continue;
+
+    const chain = [start];
+    remaining.delete(start);
+
+    let current = start;
+    for (;;) {
+      const next = neighborsOf(current)[0];
+      if (next === undefined) break;
+      chain.push(next);
+      remaining.delete(next);
+      current = next;
+    }
+
+    chains.push(chain);
+  }
+
+  return chains;
+}
+
+/**
+ * Trace cliff edges as polylines
+ *
+ * Connected cliff areas are split into their top edge (boundary pixels in the upper
+ * half of the area's elevation range) and their toe (boundary pixels in the lower
+ * half). Each edge is chained into LineStrings carrying length, drop and facing.
+ *
+ * @param cliffMask - Cliff mask from detectCliffsRaster
+ * @param raster - Elevation raster the mask was computed from
+ * @param bounds - Geographic bounds [west, south, east, north]
+ * @param params - Cliff detection parameters used for the mask
+ * @param minPixels - Shortest line to keep, in pixels
+ * @returns GeoJSON FeatureCollection of cliff edge lines
+ */
+export function traceCliffLines(
+  cliffMask: Uint8Array,
+  raster: ElevationRaster,
+  bounds: [number, number, number, number],
+  params: SlopeParams,
+  minPixels: number = 3
+): GeoJSON.FeatureCollection<GeoJSON.LineString, CliffLineProperties> {
+  const [west, south, east, north] = bounds;
+  const { width, height } = raster;
+  const [xResolution, yResolution] = getPixelSize(raster);
+  const data = normalizeNoData(raster);
+  const { labels, cliffs } = segmentCliffs(cliffMask, raster, bounds, params);
+
+  // Boundary pixels of each component, grouped by edge
+  const edgePixels = new Map<string, number[]>();
+  for (let index = 0; index < labels.length; index++) {
+    const label = labels[index];
+    if (label === 0) continue;
+
+    const x = index % width;
+    const y = Math.floor(index / width);
+    const elev = data[index];
+    if (isNaN(elev)) continue;
+
+    const isBoundary = NEIGHBOR_OFFSETS.slice(0, 4).some(([dx, dy]) => {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) return false;
+      return labels[ny * width + nx] !== label;
+    });
+    if (!isBoundary) continue;
+
+    // Tell the top edge from the toe by the cliff's elevation range
+    const { minElevation, maxElevation } = cliffs[label - 1];
+    const edge: CliffEdge = elev >= (minElevation + maxElevation) / 2 ? 'top' : 'toe';
+    const key = `${label}:${edge}`;
+    if (!edgePixels.has(key)) edgePixels.set(key, []);
+    edgePixels.get(key)!.push(index);
+  }
+
+  const features: GeoJSON.Feature<GeoJSON.LineString, CliffLineProperties>[] = [];
+
+  for (const [key, pixels] of edgePixels) {
+    const [label, edge] = key.split(':') as [string, CliffEdge];
+
+    for (const chain of chainEdgePixels(pixels, width)) {
+      if (chain.length < minPixels) continue;
+
+      const coordinates: GeoJSON.Position[] = [];
+      const drops: number[] = [];
+      const aspects: number[] = [];
+      let length = 0;
+
+      chain.forEach((index, i) => {
+        const x = index % width;
+        const y = Math.floor(index / width);
+
+        // Pixel centres
+        coordinates.push([
+          west + ((x + 0.5) / width) * (east - west),
+          north - ((y + 0.5) / height) * (north - south),
+        ]);
+        drops.push(calculateMaxDrop(data, raster, x, y, params.horizontalDist));
+        aspects.push(calculateSlopeAspect(data, raster, x, y).aspect);
+
+        if (i > 0) {
+          const previous = chain[i - 1];
+          const dx = x - (previous % width);
+          const dy = y - Math.floor(previous / width);
+          length += Math.hypot(dx * xResolution, dy * yResolution);
+        }
+      });
+
+      const aspect = meanAngle(aspects);
+
+      features.push({
+        type: 'Feature',
+        geometry: {
+          type: 'LineString',
+          coordinates,
+        },
+        properties: {
+          cliffId: cliffs[Number(label) - 1].id,
+          edge,
+          length,
+          meanDrop: drops.reduce((sum, drop) => sum + drop, 0) / drops.length,
+          maxDrop: Math.max(...drops),
+          aspect,
+          facing: aspectToCompass(aspect),
+        },
+      });
+    }
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features,
+  };
+}
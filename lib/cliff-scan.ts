@@ -0,0 +1,249 @@
+/**
+ * Batch cliff scanning of a region, one cell at a time
+ *
+ * Cells are 1° Copernicus tiles or equal parts of them. Each cell is read with a
+ * halo so cliffs crossing its edges are seen whole (up to the halo width), and
+ * keeps the cliffs whose centroid lies inside it, so neighbouring cells never
+ * report the same cliff.
+ * Server-side only (reads COGs through dem-reader).
+ */
+
+import { readElevationWindow, type GeoBounds } from './dem-reader';
+import { analyzeCliffs, type CliffAnalysisOptions } from './cliff-analysis';
+import { isTileAvailable } from './tile-availability';
+import { calculateSlopeGrid, createSlopeGeoJSON, type SlopeAlgorithm } from './slope-utils';
+
+const METERS_PER_DEGREE = 111320;
+
+export interface ScanCell extends GeoBounds {
+  id: string; // tile name, with the part for cells smaller than a tile (N46E010, N46E010-1-0)
+  lat: number; // tile corner
+  lon: number;
+}
+
+export interface ScanSlopeOptions {
+  cellSize: number; // meters between slope grid points
+  minSlope: number; // degrees, flatter cells are left out
+  algorithm: SlopeAlgorithm;
+}
+
+export interface ScanOptions extends CliffAnalysisOptions {
+  halo: number; // meters read around each cell
+  slopes?: ScanSlopeOptions | null; // also output steep slope cells
+}
+
+export interface ScanCellResult {
+  cell: ScanCell;
+  status: 'done' | 'no-data';
+  cliffs: number;
+  lines: number;
+  slopeCells: number;
+  resolution: number | null; // meters per pixel of the read window
+  missingTiles: string[];
+  seconds: number;
+  features: GeoJSON.Feature[]; // layer property: cliff, cliff-line or slope (as in lib/export)
+}
+
+const TILE_NAME = /^([NS])(\d{1,2})([EW])(\d{1,3})$/i;
+const COPERNICUS_TILE_NAME = /_([NS])(\d\d)_00_([EW])(\d{3})_00/;
+
+/**
+ * Tile corner from a short name (N46E010) or a Copernicus tile name
+ */
+export function parseTileName(name: string): { lat: number; lon: number } | null {
+  const match = name.trim().match(TILE_NAME) ?? name.match(COPERNICUS_TILE_NAME);
+  if (!match) return null;
+
+  const lat = parseInt(match[2], 10) * (match[1].toUpperCase() === 'N' ? 1 : -1);
+  const lon = parseInt(match[4], 10) * (match[3].toUpperCase() === 'E' ? 1 : -1);
+  if (lat < -90 || lat >= 90 || lon < -180 || lon >= 180) return null;
+  return { lat, lon };
+}
+
+export function formatTileName(lat: number, lon: number): string {
+  const latName = `${lat >= 0 ? 'N' : 'S'}${String(Math.abs(lat)).padStart(2, '0')}`;
+  const lonName = `${lon >= 0 ? 'E' : 'W'}${String(Math.abs(lon)).padStart(3, '0')}`;
+  return latName + lonName;
+}
+
+/**
+ * Cells covering a bbox or a list of tiles
+ * @param partsPerSide - Split every tile into partsPerSide x partsPerSide cells (less memory per cell)
+ * @param bbox - Clip cells to [west, south, east, north]
+ */
+export function getScanCells(
+  tiles: { lat: number; lon: number }[],
+  partsPerSide: number = 1,
+  bbox?: [number, number, number, number]
+): ScanCell[] {
+  const cells: ScanCell[] = [];
+  const seen = new Set<string>();
+
+  for (const { lat, lon } of tiles) {
+    const name = formatTileName(lat, lon);
+    if (seen.has(name)) continue;
+    seen.add(name);
+
+    for (let row = 0; row < partsPerSide; row++) {
+      for (let col = 0; col < partsPerSide; col++) {
+        const cell = {
+          id: partsPerSide === 1 ? name : `${name}-${row}-${col}`,
+          lat,
+          lon,
+          west: lon + col / partsPerSide,
+          east: lon + (col + 1) / partsPerSide,
+          south: lat + row / partsPerSide,
+          north: lat + (row + 1) / partsPerSide,
+        };
+
+        if (bbox) {
+          const [west, south, east, north] = bbox;
+          cell.west = Math.max(cell.west, west);
+          cell.south = Math.max(cell.south, south);
+          cell.east = Math.min(cell.east, east);
+          cell.north = Math.min(cell.north, north);
+          if (cell.west >= cell.east || cell.south >= cell.north) continue;
+        }
+        cells.push(cell);
+      }
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Tiles touching a bbox [west, south, east, north]
+ */
+export function getTilesForBbox([west, south, east, north]: [number, number, number, number]): { lat: number; lon: number }[] {
+  const tiles: { lat: number; lon: number }[] = [];
+  for (let lat = Math.floor(south); lat < Math.ceil(north); lat++) {
+    for (let lon = Math.floor(west); lon < Math.ceil(east); lon++) {
+      tiles.push({ lat, lon });
+    }
+  }
+  return tiles;
+}
+
+function roundCoordinates(coordinates: GeoJSON.Position[]): GeoJSON.Position[] {
+  return coordinates.map(([lng, lat]) => [Math.round(lng * 1e6) / 1e6, Math.round(lat * 1e6) / 1e6]);
+}
+
+/**
+ * Scan one cell for cliffs (and steep slopes)
+ */
+export async function scanCell(cell: ScanCell, options: ScanOptions): Promise<ScanCellResult> {
+  const started = Date.now();
+  const empty: ScanCellResult = {
+    cell,
+    status: 'no-data',
+    cliffs: 0,
+    lines: 0,
+    slopeCells: 0,
+    resolution: null,
+    missingTiles: [],
+    seconds: 0,
+    features: [],
+  };
+
+  // Copernicus has no tiles over open ocean
+  if (!isTileAvailable(cell.lat, cell.lon)) return empty;
+
+  const latHalo = options.halo / METERS_PER_DEGREE;
+  const lonHalo = options.halo / (METERS_PER_DEGREE * Math.cos((((cell.south + cell.north) / 2) * Math.PI) / 180));
+  const bounds: GeoBounds = {
+    west: Math.max(-180, cell.west - lonHalo),
+    east: Math.min(180, cell.east + lonHalo),
+    south: Math.max(-90, cell.south - latHalo),
+    north: Math.min(90, cell.north + latHalo),
+  };
+
+  const window = await readElevationWindow(bounds);
+  const missingTiles = window.missingTiles.map((tile) => tile.url);
+  if (window.data.every((value) => isNaN(value))) {
+    return { ...empty, missingTiles, seconds: (Date.now() - started) / 1000 };
+  }
+
+  const inCell = (lng: number, lat: number) => lng >= cell.west && lng < cell.east && lat >= cell.south && lat < cell.north;
+  const bbox: [number, number, number, number] = [bounds.west, bounds.south, bounds.east, bounds.north];
+  const { getCliffs, getLines } = analyzeCliffs(window, bbox, options);
+
+  const cliffs = [...getCliffs().values()].filter(({ centroid }) => inCell(centroid[0], centroid[1]));
+  const owned = new Set(cliffs.map((cliff) => cliff.id));
+  const lines = getLines().filter((feature) => owned.has(feature.properties.cliffId));
+
+  const features: GeoJSON.Feature[] = [
+    ...cliffs.map(({ centroid, bbox: cliffBbox, ...properties }): GeoJSON.Feature => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: roundCoordinates([centroid])[0] },
+      properties: { layer: 'cliff', cell: cell.id, ...properties, bbox: cliffBbox },
+    })),
+    ...lines.map((feature): GeoJSON.Feature => ({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: roundCoordinates(feature.geometry.coordinates) },
+      properties: { layer: 'cliff-line', cell: cell.id, ...feature.properties },
+    })),
+  ];
+
+  let slopeCells = 0;
+  if (options.slopes) {
+    const slopes = scanSlopes(cell, window, options.slopes);
+    slopeCells = slopes.length;
+    features.push(...slopes);
+  }
+
+  return {
+    cell,
+    status: 'done',
+    cliffs: cliffs.length,
+    lines: lines.length,
+    slopeCells,
+    resolution: window.resolution,
+    missingTiles,
+    seconds: (Date.now() - started) / 1000,
+    features,
+  };
+}
+
+/**
+ * Steep cells of a slope grid over the cell, sampled from the read window
+ * Square cells in degrees, cellSize meters along a meridian
+ */
+function scanSlopes(
+  cell: ScanCell,
+  window: Awaited<ReturnType<typeof readElevationWindow>>,
+  { cellSize, minSlope, algorithm }: ScanSlopeOptions
+): GeoJSON.Feature[] {
+  const step = cellSize / METERS_PER_DEGREE;
+  const { bounds, width, height, lonStep, latStep, data } = window;
+
+  // One point beyond the cell on every side, so edge cells have real neighbours
+  const lngs: number[] = [];
+  const lats: number[] = [];
+  for (let lng = cell.west - step / 2; lng < cell.east + step; lng += step) lngs.push(lng);
+  for (let lat = cell.south - step / 2; lat < cell.north + step; lat += step) lats.push(lat);
+
+  // Nearest pixel of the window, rows south to north
+  const elevations = lats.map((lat) =>
+    lngs.map((lng) => {
+      const x = Math.floor((lng - bounds.west) / lonStep);
+      const y = Math.floor((bounds.north - lat) / latStep);
+      if (x < 0 || x >= width || y < 0 || y >= height) return null;
+      const value = data[y * width + x];
+      return isNaN(value) ? null : value;
+    })
+  );
+
+  const cells = calculateSlopeGrid(elevations, lngs, lats, { algorithm }).filter(({ lng, lat }) =>
+    lng >= cell.west && lng < cell.east && lat >= cell.south && lat < cell.north
+  );
+
+  return createSlopeGeoJSON(cells, step, minSlope).features.map(({ geometry, properties }) => {
+    const { slope, aspect, facing, elevation } = properties ?? {};
+    return {
+      type: 'Feature',
+      geometry: { ...geometry, coordinates: (geometry as GeoJSON.Polygon).coordinates.map(roundCoordinates) } as GeoJSON.Polygon,
+      properties: { layer: 'slope', cell: cell.id, slope, aspect, facing, elevation },
+    };
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * Access to the precomputed cliff tile archive (server-side only)
+ *
+ * The archive is built by scripts/build-cliff-tiles.ts and read with byte range
+ * reads, from disk or from an HTTP server that supports Range requests.
+ *
+ * Configuration (environment):
+ *   CLIFF_TILES_URL  PMTiles archive: a file path or an HTTP(S) URL (default data/cliffs.pmtiles)
+ */
+
+import { open, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { openPmtiles, type PmtilesArchive, type RangeReader } from './pmtiles';
+
+const ARCHIVE_LOCATION = process.env.CLIFF_TILES_URL || path.join('data', 'cliffs.pmtiles');
+
+/**
+ * The archive is missing (not built yet, or not on the server)
+ */
+export class ArchiveNotFoundError extends Error {
+  constructor(location: string) {
+    super(`No cliff tile archive at ${location}`);
+    this.name = 'ArchiveNotFoundError';
+  }
+}
+
+function fileReader(file: string): RangeReader {
+  return async (offset, length) => {
+    const handle = await open(file, 'r');
+    try {
+      const data = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(data, 0, length, offset);
+      return data.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  };
+}
+
+function httpReader(url: string): RangeReader {
+  return async (offset, length) => {
+    const response = await fetch(url, { headers: { Range: `bytes=${offset}-${offset + length - 1}` } });
+    if (response.status === 404) throw new ArchiveNotFoundError(url);
+    if (response.status !== 206 && response.status !== 200) {
+      throw new Error(`Cliff tile archive request failed: HTTP ${response.status}`);
+    }
+    const data = Buffer.from(await response.arrayBuffer());
+    // Servers without range support answer with the whole file
+    return response.status === 200 ? data.subarray(offset, offset + length) : data;
+  };
+}
+
+// Reopened when the file changes, so a rebuilt archive is served without a restart
+let cached: { archive: Promise<PmtilesArchive>; modified: number } | null = null;
+
+/**
+ * The configured archive, opened once (header, root directory and metadata)
+ */
+export async function getCliffTileArchive(): Promise<PmtilesArchive> {
+  if (/^https?:\/\//i.test(ARCHIVE_LOCATION)) {
+    if (!cached) cached = { archive: openPmtiles(httpReader(ARCHIVE_LOCATION)), modified: 0 };
+  } else {
+    const modified = await stat(ARCHIVE_LOCATION).then(
+      (stats) => stats.mtimeMs,
+      () => {
+        throw new ArchiveNotFoundError(ARCHIVE_LOCATION);
+      }
+    );
+    if (!cached || cached.modified !== modified) {
+      cached = { archive: openPmtiles(fileReader(ARCHIVE_LOCATION)), modified };
+    }
+  }
+
+  const current = cached;
+  return current.archive.catch((error) => {
+    // A failed open is retried on the next request
+    if (cached === current) cached = null;
+    throw error;
+  });
+}
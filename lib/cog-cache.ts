@@ -0,0 +1,491 @@
+/**
+ * Persistent, range-aware disk cache for the COG proxy
+ *
+ * Byte ranges are widened to fixed-size blocks, so overlapping requests share
+ * cached data. Each tile gets a directory (named by a hash of its path) with a
+ * meta.json holding the object size and one file per block. The total size is
+ * capped and the least recently used blocks are evicted first.
+ *
+ * Configuration (environment):
+ *   COG_CACHE_DIR         cache directory (default .cache/cog)
+ *   COG_CACHE_MAX_BYTES   size cap in bytes (default 2 GiB)
+ *   COG_CACHE_BLOCK_SIZE  block size in bytes (default 64 KiB, the geotiff.js block size)
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, stat, unlink, utimes, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+export interface CogCacheConfig {
+  dir: string;
+  maxBytes: number;
+  blockSize: number;
+}
+
+export interface ByteRange {
+  start: number;
+  end?: number; // inclusive, undefined = to the end of the object
+  suffix?: number; // bytes=-N (last N bytes), start is ignored
+}
+
+export interface CogObjectInfo {
+  size: number;
+  contentType: string;
+}
+
+export interface CachedRange extends CogObjectInfo {
+  data: Buffer;
+  start: number;
+  end: number; // inclusive
+  cache: 'hit' | 'miss' | 'partial' | 'bypass'; // bypass = not cacheable (local files)
+}
+
+export interface CogCacheStats extends CogCacheConfig {
+  totalBytes: number;
+  blockCount: number;
+  tiles: { path: string; size: number; cachedBytes: number; blocks: number }[];
+  requests: { hit: number; miss: number; partial: number };
+  bytesServed: number;
+  bytesFetched: number;
+}
+
+/**
+ * The requested range lies beyond the end of the object (HTTP 416)
+ */
+export class RangeNotSatisfiableError extends Error {
+  constructor(public size: number) {
+    super(`Range not satisfiable (object size ${size})`);
+    this.name = 'RangeNotSatisfiableError';
+  }
+}
+
+/**
+ * The upstream server answered with an error status
+ */
+export class UpstreamError extends Error {
+  constructor(public status: number) {
+    super(`Upstream error: ${status}`);
+    this.name = 'UpstreamError';
+  }
+}
+
+interface TileMeta extends CogObjectInfo {
+  path: string;
+}
+
+interface BlockEntry {
+  tileKey: string;
+  index: number;
+  bytes: number;
+}
+
+const DEFAULT_CONTENT_TYPE = 'image/tiff';
+
+let config: CogCacheConfig | null = null;
+let index: Promise<Map<string, BlockEntry>> | null = null; // insertion order = LRU order
+const tiles = new Map<string, TileMeta>();
+const pendingBlocks = new Map<string, Promise<Buffer>>();
+let totalBytes = 0;
+const counters = { hit: 0, miss: 0, partial: 0, bytesServed: 0, bytesFetched: 0 };
+
+/**
+ * Read the cache configuration from the environment
+ */
+export function getCogCacheConfig(): CogCacheConfig {
+  if (!config) {
+    const positive = (value: string | undefined, fallback: number) => {
+      const parsed = parseInt(value ?? '', 10);
+      return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+    };
+    config = {
+      dir: path.resolve(process.env.COG_CACHE_DIR || path.join('.cache', 'cog')),
+      maxBytes: positive(process.env.COG_CACHE_MAX_BYTES, 2 * 1024 ** 3),
+      blockSize: positive(process.env.COG_CACHE_BLOCK_SIZE, 64 * 1024),
+    };
+  }
+  return config;
+}
+
+/**
+ * Parse a single-range Range header (bytes=a-b, bytes=a- or bytes=-n)
+ * @returns null when the header is not a single byte range
+ */
+export function parseRangeHeader(header: string): ByteRange | null {
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  if (match[1] === '') {
+    const suffix = parseInt(match[2], 10);
+    return suffix > 0 ? { start: 0, suffix } : null;
+  }
+
+  const start = parseInt(match[1], 10);
+  const end = match[2] === '' ? undefined : parseInt(match[2], 10);
+  if (end !== undefined && end < start) return null;
+  return { start, end };
+}
+
+function tileKeyFor(tilePath: string): string {
+  return createHash('sha1').update(tilePath).digest('hex');
+}
+
+function blockKey(tileKey: string, blockIndex: number): string {
+  return `${tileKey}/${blockIndex}`;
+}
+
+function blockFile(tileKey: string, blockIndex: number): string {
+  return path.join(getCogCacheConfig().dir, tileKey, `${blockIndex}.bin`);
+}
+
+/**
+ * Load the block index from disk once, ordered by last access (file mtime)
+ */
+function getIndex(): Promise<Map<string, BlockEntry>> {
+  if (!index) {
+    index = (async () => {
+      const { dir } = getCogCacheConfig();
+      const found: (BlockEntry & { lastAccess: number })[] = [];
+
+      await mkdir(dir, { recursive: true });
+      for (const tileKey of await readdir(dir)) {
+        try {
+          const meta = JSON.parse(await readFile(path.join(dir, tileKey, 'meta.json'), 'utf8')) as TileMeta;
+          tiles.set(tileKey, meta);
+        } catch {
+          continue; // Not a tile directory or an interrupted write
+        }
+
+        for (const file of await readdir(path.join(dir, tileKey))) {
+          const match = file.match(/^(\d+)\.bin$/);
+          if (!match) continue;
+          const info = await stat(path.join(dir, tileKey, file));
+          found.push({ tileKey, index: parseInt(match[1], 10), bytes: info.size, lastAccess: info.mtimeMs });
+        }
+      }
+
+      found.sort((a, b) => a.lastAccess - b.lastAccess);
+      const entries = new Map<string, BlockEntry>();
+      totalBytes = 0;
+      for (const { tileKey, index: blockIndex, bytes } of found) {
+        entries.set(blockKey(tileKey, blockIndex), { tileKey, index: blockIndex, bytes });
+        totalBytes += bytes;
+      }
+      return entries;
+    })();
+  }
+  return index;
+}
+
+/**
+ * Write a file atomically so readers never see a partial block
+ */
+async function writeFileAtomic(file: string, data: Buffer | string): Promise<void> {
+  const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await writeFile(temp, data);
+  await rename(temp, file);
+}
+
+async function saveTileMeta(tileKey: string, meta: TileMeta): Promise<void> {
+  tiles.set(tileKey, meta);
+  await mkdir(path.join(getCogCacheConfig().dir, tileKey), { recursive: true });
+  await writeFileAtomic(path.join(getCogCacheConfig().dir, tileKey, 'meta.json'), JSON.stringify(meta));
+}
+
+/**
+ * Evict least recently used blocks until the cache fits its size cap
+ */
+async function evict(entries: Map<string, BlockEntry>): Promise<void> {
+  const { maxBytes } = getCogCacheConfig();
+  for (const [key, entry] of entries) {
+    if (totalBytes <= maxBytes) break;
+    entries.delete(key);
+    totalBytes -= entry.bytes;
+    await unlink(blockFile(entry.tileKey, entry.index)).catch(() => undefined);
+  }
+}
+
+async function readBlock(entries: Map<string, BlockEntry>, tileKey: string, blockIndex: number): Promise<Buffer | null> {
+  const key = blockKey(tileKey, blockIndex);
+  const entry = entries.get(key);
+  if (!entry) return null;
+
+  try {
+    const data = await readFile(blockFile(tileKey, blockIndex));
+
+    // Mark as most recently used (in memory and on disk for the next start)
+    entries.delete(key);
+    entries.set(key, entry);
+    const now = new Date();
+    utimes(blockFile(tileKey, blockIndex), now, now).catch(() => undefined);
+    return data;
+  } catch {
+    // Removed behind our back
+    entries.delete(key);
+    totalBytes -= entry.bytes;
+    return null;
+  }
+}
+
+async function writeBlock(
+  entries: Map<string, BlockEntry>,
+  tileKey: string,
+  blockIndex: number,
+  data: Buffer
+): Promise<void> {
+  await mkdir(path.join(getCogCacheConfig().dir, tileKey), { recursive: true });
+  await writeFileAtomic(blockFile(tileKey, blockIndex), data);
+
+  const key = blockKey(tileKey, blockIndex);
+  const previous = entries.get(key);
+  if (previous) {
+    entries.delete(key);
+    totalBytes -= previous.bytes;
+  }
+  entries.set(key, { tileKey, index: blockIndex, bytes: data.length });
+  totalBytes += data.length;
+}
+
+/**
+ * Parse "bytes a-b/size" from a Content-Range header
+ */
+function parseContentRange(header: string | null): { start: number; size: number } | null {
+  const match = header?.match(/^bytes (\d+)-\d+\/(\d+)$/);
+  return match ? { start: parseInt(match[1], 10), size: parseInt(match[2], 10) } : null;
+}
+
+/**
+ * Fetch a run of consecutive blocks from upstream and store them
+ * @returns The blocks by index and the object info reported by upstream
+ */
+async function fetchBlockRun(
+  entries: Map<string, BlockEntry>,
+  tilePath: string,
+  tileKey: string,
+  upstreamUrl: string,
+  firstBlock: number,
+  lastBlock: number
+): Promise<{ blocks: Map<number, Buffer>; info: CogObjectInfo }> {
+  const { blockSize } = getCogCacheConfig();
+  const rangeStart = firstBlock * blockSize;
+  const rangeEnd = (lastBlock + 1) * blockSize - 1;
+
+  const response = await fetch(upstreamUrl, { headers: { Range: `bytes=${rangeStart}-${rangeEnd}` } });
+  if (response.status === 416) {
+    const size = parseInt(response.headers.get('content-range')?.split('/')[1] ?? '', 10);
+    throw new RangeNotSatisfiableError(Number.isFinite(size) ? size : 0);
+  }
+  if (!response.ok) {
+    throw new UpstreamError(response.status);
+  }
+
+  const body = Buffer.from(await response.arrayBuffer());
+  counters.bytesFetched += body.length;
+
+  // Servers that ignore Range send the whole object with 200
+  const contentRange = parseContentRange(response.headers.get('content-range'));
+  const bodyStart = response.status === 206 && contentRange ? contentRange.start : 0;
+  const size = response.status === 206 && contentRange ? contentRange.size : body.length;
+  const info: CogObjectInfo = {
+    size,
+    contentType: response.headers.get('content-type') || DEFAULT_CONTENT_TYPE,
+  };
+
+  const known = tiles.get(tileKey);
+  if (!known || known.size !== size) {
+    if (known) {
+      // The object changed upstream: drop its stale blocks
+      await purgeCogCache(tilePath);
+    }
+    await saveTileMeta(tileKey, { path: tilePath, ...info });
+  }
+
+  const blocks = new Map<number, Buffer>();
+  const lastObjectBlock = Math.floor((size - 1) / blockSize);
+  for (let blockIndex = firstBlock; blockIndex <= Math.min(lastBlock, lastObjectBlock); blockIndex++) {
+    const offset = blockIndex * blockSize - bodyStart;
+    const block = body.subarray(offset, Math.min(offset + blockSize, body.length));
+    if (offset < 0 || block.length === 0) continue;
+
+    // Only complete blocks (or the object's final block) are cached
+    const expected = Math.min(blockSize, size - blockIndex * blockSize);
+    if (block.length === expected) {
+      await writeBlock(entries, tileKey, blockIndex, block);
+    }
+    blocks.set(blockIndex, block);
+  }
+
+  await evict(entries);
+  return { blocks, info };
+}
+
+/**
+ * Read object info (size and content type), from cache when known
+ */
+export async function getCogObjectInfo(tilePath: string, upstreamUrl: string): Promise<CogObjectInfo> {
+  await getIndex();
+  const known = tiles.get(tileKeyFor(tilePath));
+  if (known) return { size: known.size, contentType: known.contentType };
+
+  const response = await fetch(upstreamUrl, { method: 'HEAD' });
+  if (!response.ok) {
+    throw new UpstreamError(response.status);
+  }
+
+  const info: CogObjectInfo = {
+    size: parseInt(response.headers.get('content-length') ?? '0', 10),
+    contentType: response.headers.get('content-type') || DEFAULT_CONTENT_TYPE,
+  };
+  await saveTileMeta(tileKeyFor(tilePath), { path: tilePath, ...info });
+  return info;
+}
+
+/**
+ * Read a byte range of a COG, serving cached blocks and fetching the rest
+ * Works offline for fully cached ranges
+ */
+export async function readCogRange(
+  tilePath: string,
+  range: ByteRange,
+  upstreamUrl: string
+): Promise<CachedRange> {
+  const entries = await getIndex();
+  const { blockSize } = getCogCacheConfig();
+  const tileKey = tileKeyFor(tilePath);
+
+  // Suffix and open-ended ranges need the object size
+  let info: CogObjectInfo | undefined = tiles.get(tileKey);
+  if (!info && (range.suffix !== undefined || range.end === undefined)) {
+    info = await getCogObjectInfo(tilePath, upstreamUrl);
+  }
+
+  let start = range.start;
+  let end = range.end ?? Infinity;
+  if (info) {
+    if (range.suffix !== undefined) {
+      start = Math.max(0, info.size - range.suffix);
+      end = info.size - 1;
+    }
+    if (start >= info.size) throw new RangeNotSatisfiableError(info.size);
+    end = Math.min(end, info.size - 1);
+  }
+
+  const firstBlock = Math.floor(start / blockSize);
+  const lastBlock = Math.floor(end / blockSize);
+
+  // Collect cached blocks and runs of missing ones
+  const blocks = new Map<number, Buffer>();
+  const missingRuns: [number, number][] = [];
+  for (let blockIndex = firstBlock; blockIndex <= lastBlock; blockIndex++) {
+    const pending = pendingBlocks.get(blockKey(tileKey, blockIndex));
+    const cached = pending ? await pending.catch(() => null) : await readBlock(entries, tileKey, blockIndex);
+    if (cached) {
+      blocks.set(blockIndex, cached);
+    } else if (missingRuns.length > 0 && missingRuns[missingRuns.length - 1][1] === blockIndex - 1) {
+      missingRuns[missingRuns.length - 1][1] = blockIndex;
+    } else {
+      missingRuns.push([blockIndex, blockIndex]);
+    }
+  }
+
+  // Fetch missing runs, sharing in-flight downloads with concurrent requests
+  for (const [runStart, runEnd] of missingRuns) {
+    const run = fetchBlockRun(entries, tilePath, tileKey, upstreamUrl, runStart, runEnd);
+    for (let blockIndex = runStart; blockIndex <= runEnd; blockIndex++) {
+      const key = blockKey(tileKey, blockIndex);
+      const block = run.then(({ blocks: fetched }) => fetched.get(blockIndex) ?? Buffer.alloc(0));
+      block.catch(() => undefined);
+      pendingBlocks.set(key, block);
+      run.finally(() => pendingBlocks.delete(key)).catch(() => undefined);
+    }
+
+    const fetched = await run;
+    info = fetched.info;
+    for (const [blockIndex, block] of fetched.blocks) {
+      blocks.set(blockIndex, block);
+    }
+  }
+
+  info ??= tiles.get(tileKey);
+  if (!info) throw new UpstreamError(502);
+  if (start >= info.size) throw new RangeNotSatisfiableError(info.size);
+  end = Math.min(end, info.size - 1);
+
+  // Assemble the requested bytes from the blocks
+  const parts: Buffer[] = [];
+  for (let blockIndex = firstBlock; blockIndex <= Math.floor(end / blockSize); blockIndex++) {
+    const block = blocks.get(blockIndex);
+    if (!block) throw new UpstreamError(502);
+    const blockStart = blockIndex * blockSize;
+    parts.push(block.subarray(Math.max(0, start - blockStart), Math.min(block.length, end - blockStart + 1)));
+  }
+  const data = Buffer.concat(parts);
+
+  const fetchedBlocks = missingRuns.reduce((sum, [runStart, runEnd]) => sum + runEnd - runStart + 1, 0);
+  const cache = fetchedBlocks === 0 ? 'hit' : fetchedBlocks < lastBlock - firstBlock + 1 ? 'partial' : 'miss';
+  counters[cache]++;
+  counters.bytesServed += data.length;
+
+  return { data, start, end, size: info.size, contentType: info.contentType, cache };
+}
+
+/**
+ * Cache usage and request counters since the server started
+ */
+export async function getCogCacheStats(): Promise<CogCacheStats> {
+  const entries = await getIndex();
+
+  const perTile = new Map<string, { cachedBytes: number; blocks: number }>();
+  for (const entry of entries.values()) {
+    const tile = perTile.get(entry.tileKey) ?? { cachedBytes: 0, blocks: 0 };
+    tile.cachedBytes += entry.bytes;
+    tile.blocks++;
+    perTile.set(entry.tileKey, tile);
+  }
+
+  return {
+    ...getCogCacheConfig(),
+    totalBytes,
+    blockCount: entries.size,
+    tiles: [...tiles.entries()]
+      .map(([tileKey, meta]) => ({
+        path: meta.path,
+        size: meta.size,
+        ...(perTile.get(tileKey) ?? { cachedBytes: 0, blocks: 0 }),
+      }))
+      .sort((a, b) => b.cachedBytes - a.cachedBytes),
+    requests: { hit: counters.hit, miss: counters.miss, partial: counters.partial },
+    bytesServed: counters.bytesServed,
+    bytesFetched: counters.bytesFetched,
+  };
+}
+
+/**
+ * Remove one tile (by its proxy path) or everything from the cache
+ * @returns Bytes and blocks removed
+ */
+export async function purgeCogCache(tilePath?: string): Promise<{ removedBytes: number; removedBlocks: number }> {
+  const entries = await getIndex();
+  const { dir } = getCogCacheConfig();
+  const tileKey = tilePath !== undefined ? tileKeyFor(tilePath) : undefined;
+
+  let removedBytes = 0;
+  let removedBlocks = 0;
+  for (const [key, entry] of entries) {
+    if (tileKey !== undefined && entry.tileKey !== tileKey) continue;
+    entries.delete(key);
+    removedBytes += entry.bytes;
+    removedBlocks++;
+  }
+  totalBytes -= removedBytes;
+
+  if (tileKey !== undefined) {
+    tiles.delete(tileKey);
+    await rm(path.join(dir, tileKey), { recursive: true, force: true });
+  } else {
+    tiles.clear();
+    await rm(dir, { recursive: true, force: true });
+    await mkdir(dir, { recursive: true });
+  }
+
+  return { removedBytes, removedBlocks };
+}
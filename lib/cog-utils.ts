@@ -2,6 +2,9 @@
  * Utilities for working with Copernicus DEM Cloud Optimized GeoTIFF tiles
  */
 
+import { getCogSource, getCogTilePath, resolveCogTileUrl, type CogDemSource } from './dem-sources';
+import { isTileAvailable } from './tile-availability';
+
 export interface CopernicusTile {
   lat: number;
   lon: number;
@@ -9,33 +12,30 @@ export interface CopernicusTile {
 }
 
 /**
- * Generates the Copernicus DEM GLO-30 tile URL for a given latitude and longitude
+ * Generates the COG tile URL for a given latitude and longitude
  *
- * Tile naming convention:
+ * Tile naming convention (Copernicus GLO-30):
  * Copernicus_DSM_COG_10_N{lat}_00_E{lon}_00_DEM/Copernicus_DSM_COG_10_N{lat}_00_E{lon}_00_DEM.tif
  *
  * @param lat - Latitude (will be floored to nearest degree)
  * @param lon - Longitude (will be floored to nearest degree)
- * @returns The full HTTPS URL to the COG tile
+ * @param source - DEM source (defaults to the configured COG source)
+ * @returns The full URL to the COG tile (a file path for a local directory source)
  */
-export function getCopernicusTileUrl(lat: number, lon: number): string {
-  // Floor to nearest degree (tiles are 1° x 1°)
-  const tileLat = Math.floor(lat);
-  const tileLon = Math.floor(lon);
-
-  // Determine hemisphere prefixes
-  const latPrefix = tileLat >= 0 ? 'N' : 'S';
-  const lonPrefix = tileLon >= 0 ? 'E' : 'W';
-
-  // Format coordinates with leading zeros (2 digits for lat, 3 for lon)
-  const latStr = Math.abs(tileLat).toString().padStart(2, '0');
-  const lonStr = Math.abs(tileLon).toString().padStart(3, '0');
-
-  // Build tile name
-  const tileName = `Copernicus_DSM_COG_10_${latPrefix}${latStr}_00_${lonPrefix}${lonStr}_00_DEM`;
+export function getCopernicusTileUrl(lat: number, lon: number, source: CogDemSource = getCogSource()): string {
+  return resolveCogTileUrl(source, getCogTilePath(source, lat, lon))!;
+}
 
-  // Return full URL
-  return `https://copernicus-dem-30m.s3.amazonaws.com/${tileName}/${tileName}.tif`;
+/**
+ * Generates the proxied COG tile URL (same origin, avoids CORS)
+ *
+ * @param lat - Latitude
+ * @param lon - Longitude
+ * @returns URL of the tile through /api/cog
+ */
+export function getCogProxyUrl(lat: number, lon: number): string {
+  // Use path-based proxy to avoid CORS issues (the proxy resolves the same source)
+  return `${window.location.origin}/api/cog/${getCogTilePath(getCogSource(), lat, lon)}`;
 }
 
 /**
@@ -46,44 +46,33 @@ export function getCopernicusTileUrl(lat: number, lon: number): string {
  * @returns COG protocol URL with #dem suffix for single-band DEM
  */
 export function getCogProtocolUrl(lat: number, lon: number): string {
-  // Floor to nearest degree (tiles are 1° x 1°)
-  const tileLat = Math.floor(lat);
-  const tileLon = Math.floor(lon);
-
-  // Determine hemisphere prefixes
-  const latPrefix = tileLat >= 0 ? 'N' : 'S';
-  const lonPrefix = tileLon >= 0 ? 'E' : 'W';
-
-  // Format coordinates with leading zeros (2 digits for lat, 3 for lon)
-  const latStr = Math.abs(tileLat).toString().padStart(2, '0');
-  const lonStr = Math.abs(tileLon).toString().padStart(3, '0');
-
-  // Build tile name
-  const tileName = `Copernicus_DSM_COG_10_${latPrefix}${latStr}_00_${lonPrefix}${lonStr}_00_DEM`;
-
-  // Use path-based proxy to avoid CORS issues
-  const proxyPath = `/api/cog/${tileName}/${tileName}.tif`;
   // Use #dem suffix to convert single-band elevation to terrain-rgb format
-  return `cog://${window.location.origin}${proxyPath}#dem`;
+  return `cog://${getCogProxyUrl(lat, lon)}#dem`;
 }
 
 /**
  * Get multiple tile URLs for a bounding box
+ * Tiles the source does not have (open ocean, see tile-availability) are skipped
  *
  * @param bounds - Bounding box {north, south, east, west}
+ * @param options - includeMissing: also return tiles known to be missing
  * @returns Array of tile information
  */
-export function getTilesForBounds(bounds: {
-  north: number;
-  south: number;
-  east: number;
-  west: number;
-}): CopernicusTile[] {
+export function getTilesForBounds(
+  bounds: {
+    north: number;
+    south: number;
+    east: number;
+    west: number;
+  },
+  { includeMissing = false }: { includeMissing?: boolean } = {}
+): CopernicusTile[] {
   const tiles: CopernicusTile[] = [];
 
   // Iterate through each degree
   for (let lat = Math.floor(bounds.south); lat < Math.ceil(bounds.north); lat++) {
     for (let lon = Math.floor(bounds.west); lon < Math.ceil(bounds.east); lon++) {
+      if (!includeMissing && !isTileAvailable(lat, lon)) continue;
       tiles.push({
         lat,
         lon,
@@ -96,7 +85,7 @@ export function getTilesForBounds(bounds: {
 }
 
 /**
- * Common European locations for quick testing
+ * Common European locations, the built-in starter collection of saved places
  */
 export const SAMPLE_LOCATIONS = {
   alps: { lat: 46.5, lon: 10.5, zoom: 9, name: 'Alps' },
@@ -0,0 +1,318 @@
+/**
+ * Coordinate parsing and formatting: decimal degrees, degrees-minutes-seconds,
+ * UTM and MGRS on WGS84, computed locally without a geocoding service
+ */
+
+export type CoordinateFormat = 'decimal' | 'dms' | 'utm' | 'mgrs';
+
+export const COORDINATE_FORMATS: { id: CoordinateFormat; name: string; example: string }[] = [
+  { id: 'decimal', name: 'Decimal', example: '46.5, 10.5' },
+  { id: 'dms', name: 'DMS', example: '46°30\'00"N 10°30\'00"E' },
+  { id: 'utm', name: 'UTM', example: '32T 615097 5150696' },
+  { id: 'mgrs', name: 'MGRS', example: '32TPS 15097 50696' },
+];
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface UtmCoordinate {
+  zone: number; // 1-60
+  band: string; // latitude band letter, C-X without I and O
+  easting: number; // meters
+  northing: number; // meters
+}
+
+// WGS84 ellipsoid and UTM scale
+const A = 6378137;
+const F = 1 / 298.257223563;
+const K0 = 0.9996;
+const FALSE_EASTING = 500000;
+const FALSE_NORTHING_SOUTH = 10000000;
+
+// Latitude bands of 8° from 80°S, X covers 72-84°N
+const LAT_BANDS = 'CDEFGHJKLMNPQRSTUVWXX';
+
+// MGRS 100 km square letters, columns by zone set, rows by odd/even zone
+const MGRS_COLUMNS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+const MGRS_ROWS = ['ABCDEFGHJKLMNPQRSTUV', 'FGHJKLMNPQRSTUVABCDE'];
+
+// Krüger series coefficients for the transverse Mercator projection
+const N = F / (2 - F);
+const RECTIFYING_RADIUS = (A / (1 + N)) * (1 + N ** 2 / 4 + N ** 4 / 64);
+const ALPHA = [N / 2 - (2 * N ** 2) / 3 + (5 * N ** 3) / 16, (13 * N ** 2) / 48 - (3 * N ** 3) / 5, (61 * N ** 3) / 240];
+const BETA = [N / 2 - (2 * N ** 2) / 3 + (37 * N ** 3) / 96, N ** 2 / 48 + N ** 3 / 15, (17 * N ** 3) / 480];
+const DELTA = [2 * N - (2 * N ** 2) / 3 - 2 * N ** 3, (7 * N ** 2) / 3 - (8 * N ** 3) / 5, (56 * N ** 3) / 15];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * UTM zone of a point, with the Norway and Svalbard exceptions
+ */
+function getUtmZone(lat: number, lng: number): number {
+  const zone = Math.min(60, Math.floor((lng + 180) / 6) + 1);
+  if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) return 32;
+  if (lat >= 72) {
+    if (lng >= 0 && lng < 9) return 31;
+    if (lng >= 9 && lng < 21) return 33;
+    if (lng >= 21 && lng < 33) return 35;
+    if (lng >= 33 && lng < 42) return 37;
+  }
+  return zone;
+}
+
+/**
+ * UTM coordinate of a point
+ * @returns null outside the UTM latitude range (80°S to 84°N)
+ */
+export function toUtm(lat: number, lng: number): UtmCoordinate | null {
+  if (lat < -80 || lat > 84) return null;
+
+  const zone = getUtmZone(lat, lng);
+  const phi = toRadians(lat);
+  const lambda = toRadians(lng - (zone * 6 - 183));
+
+  const twoRootN = (2 * Math.sqrt(N)) / (1 + N);
+  const t = Math.sinh(Math.atanh(Math.sin(phi)) - twoRootN * Math.atanh(twoRootN * Math.sin(phi)));
+  const xiPrime = Math.atan2(t, Math.cos(lambda));
+  const etaPrime = Math.atanh(Math.sin(lambda) / Math.sqrt(1 + t * t));
+
+  let xi = xiPrime;
+  let eta = etaPrime;
+  ALPHA.forEach((alpha, j) => {
+    const k = 2 * (j + 1);
+    xi += alpha * Math.sin(k * xiPrime) * Math.cosh(k * etaPrime);
+    eta += alpha * Math.cos(k * xiPrime) * Math.sinh(k * etaPrime);
+  });
+
+  return {
+    zone,
+    band: LAT_BANDS[Math.floor(lat / 8 + 10)],
+    easting: FALSE_EASTING + K0 * RECTIFYING_RADIUS * eta,
+    northing: (lat < 0 ? FALSE_NORTHING_SOUTH : 0) + K0 * RECTIFYING_RADIUS * xi,
+  };
+}
+
+/**
+ * Point of a UTM coordinate, the hemisphere taken from the latitude band
+ */
+export function fromUtm({ zone, band, easting, northing }: UtmCoordinate): LatLng {
+  const south = band < 'N';
+  const xi = (northing - (south ? FALSE_NORTHING_SOUTH : 0)) / (K0 * RECTIFYING_RADIUS);
+  const eta = (easting - FALSE_EASTING) / (K0 * RECTIFYING_RADIUS);
+
+  let xiPrime = xi;
+  let etaPrime = eta;
+  BETA.forEach((beta, j) => {
+    const k = 2 * (j + 1);
+    xiPrime -= beta * Math.sin(k * xi) * Math.cosh(k * eta);
+    etaPrime -= beta * Math.cos(k * xi) * Math.sinh(k * eta);
+  });
+
+  const chi = Math.asin(Math.sin(xiPrime) / Math.cosh(etaPrime));
+  let phi = chi;
+  DELTA.forEach((delta, j) => {
+    phi += delta * Math.sin(2 * (j + 1) * chi);
+  });
+
+  return {
+    lat: toDegrees(phi),
+    lng: zone * 6 - 183 + toDegrees(Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime))),
+  };
+}
+
+/**
+ * MGRS reference of a point
+ * @param digits - Digits per axis, 5 = 1 m, 4 = 10 m, ...
+ * @returns null outside the UTM latitude range
+ */
+export function toMgrs(lat: number, lng: number, digits: number = 5): string | null {
+  const utm = toUtm(lat, lng);
+  if (!utm) return null;
+
+  const column = MGRS_COLUMNS[(utm.zone - 1) % 3][Math.floor(utm.easting / 100000) - 1];
+  const row = MGRS_ROWS[(utm.zone - 1) % 2][Math.floor(utm.northing / 100000) % 20];
+  const scale = 10 ** (5 - digits);
+  const easting = String(Math.floor((utm.easting % 100000) / scale)).padStart(digits, '0');
+  const northing = String(Math.floor((utm.northing % 100000) / scale)).padStart(digits, '0');
+
+  return `${utm.zone}${utm.band}${column}${row} ${easting} ${northing}`;
+}
+
+/**
+ * UTM coordinate of an MGRS reference, at the centre of its precision square
+ * @returns null if the reference is malformed
+ */
+function parseMgrs(input: string): UtmCoordinate | null {
+  const match = input
+    .toUpperCase()
+    .replace(/\s+/g, '')
+    .match(/^(\d{1,2})([C-HJ-NP-X])([A-HJ-NP-Z])([A-HJ-NP-V])(\d*)$/);
+  if (!match || match[5].length % 2 !== 0 || match[5].length > 10) return null;
+
+  const zone = Number(match[1]);
+  const [, , band, columnLetter, rowLetter, digits] = match;
+  if (zone < 1 || zone > 60) return null;
+
+  const column = MGRS_COLUMNS[(zone - 1) % 3].indexOf(columnLetter);
+  const row = MGRS_ROWS[(zone - 1) % 2].indexOf(rowLetter);
+  if (column < 0 || row < 0) return null;
+
+  const precision = digits.length / 2;
+  const scale = 10 ** (5 - precision);
+  const offset = precision < 5 ? scale / 2 : 0;
+  const easting = (column + 1) * 100000 + Number(digits.slice(0, precision) || 0) * scale + offset;
+  let northing = row * 100000 + Number(digits.slice(precision) || 0) * scale + offset;
+
+  // Row letters repeat every 2000 km, take the cycle that reaches the latitude band
+  const bandSouth = (LAT_BANDS.indexOf(band) - 10) * 8;
+  const bandNorthing = toUtm(bandSouth, zone * 6 - 183)!.northing;
+  while (northing < Math.floor(bandNorthing / 100000) * 100000) northing += 2000000;
+
+  return { zone, band, easting, northing };
+}
+
+/**
+ * UTM coordinate from "32T 615097 5150696" (optionally with mE/mN units)
+ */
+function parseUtm(input: string): UtmCoordinate | null {
+  const match = input
+    .toUpperCase()
+    .trim()
+    .match(/^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*(?:ME|E)?\s*,?\s+(\d+(?:\.\d+)?)\s*(?:MN|N)?$/);
+  if (!match) return null;
+
+  const zone = Number(match[1]);
+  const easting = Number(match[3]);
+  const northing = Number(match[4]);
+  if (zone < 1 || zone > 60 || easting < 100000 || easting > 900000 || northing > FALSE_NORTHING_SOUTH) return null;
+
+  return { zone, band: match[2], easting, northing };
+}
+
+/**
+ * Degrees from up to three numbers (degrees, minutes, seconds) and a hemisphere letter
+ */
+function toDecimal(numbers: number[], hemisphere: string | undefined): number | null {
+  if (numbers.length === 0 || numbers.length > 3) return null;
+
+  const [degrees, minutes = 0, seconds = 0] = numbers;
+  if (minutes < 0 || minutes >= 60 || seconds < 0 || seconds >= 60) return null;
+  if (numbers.length > 1 && !Number.isInteger(degrees)) return null;
+
+  const value = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+  const negative = degrees < 0 || Object.is(degrees, -0) || hemisphere === 'S' || hemisphere === 'W';
+  return negative ? -value : value;
+}
+
+/**
+ * Point from decimal degrees or degrees-minutes-seconds, latitude first unless
+ * the hemisphere letters say otherwise
+ * Accepts "46.5, 10.5", "46.5N 10.5E", "N46 30 E10 30", "46°30'15"N 10°30'E", ...
+ */
+function parseDegrees(input: string): { point: LatLng; format: CoordinateFormat } | null {
+  const normalized = input.toUpperCase().replace(/[°º'′"″]/g, ' ');
+  if (!/^[\d\s.,;\-+NSEW]+$/.test(normalized)) return null;
+
+  const tokens = normalized.match(/[-+]?\d+(?:\.\d+)?|[NSEW]|[,;]/g) ?? [];
+  const letters = tokens.filter((token) => /^[NSEW]$/.test(token));
+
+  // Split into the two coordinates at the separator or the hemisphere letters
+  let groups: string[][];
+  if (letters.length === 2) {
+    const prefixed = /^[NSEW]$/.test(tokens[0] ?? '');
+    groups = [[]];
+    for (const token of tokens) {
+      if (token === ',' || token === ';') continue;
+      const isLetter = /^[NSEW]$/.test(token);
+      if (prefixed && isLetter && groups[groups.length - 1].length > 0) groups.push([]);
+      groups[groups.length - 1].push(token);
+      if (!prefixed && isLetter) groups.push([]);
+    }
+    groups = groups.filter((group) => group.length > 0);
+  } else if (letters.length === 0) {
+    const separator = tokens.findIndex((token) => token === ',' || token === ';');
+    const numbers = tokens.filter((token) => token !== ',' && token !== ';');
+    if (separator >= 0) {
+      groups = [tokens.slice(0, separator), tokens.slice(separator + 1).filter((token) => token !== ',' && token !== ';')];
+    } else if (numbers.length % 2 === 0) {
+      groups = [numbers.slice(0, numbers.length / 2), numbers.slice(numbers.length / 2)];
+    } else {
+      return null;
+    }
+  } else {
+    return null;
+  }
+  if (groups.length !== 2) return null;
+
+  const parsed = groups.map((group) => {
+    const hemisphere = group.find((token) => /^[NSEW]$/.test(token));
+    const numbers = group.filter((token) => token !== hemisphere).map(Number);
+    return { hemisphere, numbers, value: toDecimal(numbers, hemisphere) };
+  });
+  if (parsed.some(({ value }) => value === null)) return null;
+
+  // Longitude first when the letters say so
+  const swap = parsed[0].hemisphere === 'E' || parsed[0].hemisphere === 'W';
+  if (parsed[0].hemisphere && parsed[1].hemisphere) {
+    const firstIsLat = parsed[0].hemisphere === 'N' || parsed[0].hemisphere === 'S';
+    const secondIsLat = parsed[1].hemisphere === 'N' || parsed[1].hemisphere === 'S';
+    if (firstIsLat === secondIsLat) return null;
+  }
+  const [lat, lng] = swap ? [parsed[1].value!, parsed[0].value!] : [parsed[0].value!, parsed[1].value!];
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+  return {
+    point: { lat, lng },
+    format: parsed.some(({ numbers }) => numbers.length > 1) ? 'dms' : 'decimal',
+  };
+}
+
+/**
+ * Point from a coordinate in any supported format
+ * @returns The point and the format it was written in, null if the input is not a coordinate
+ */
+export function parseCoordinate(input: string): { point: LatLng; format: CoordinateFormat } | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  const utm = parseUtm(trimmed);
+  if (utm) return { point: fromUtm(utm), format: 'utm' };
+
+  const mgrs = parseMgrs(trimmed);
+  if (mgrs) return { point: fromUtm(mgrs), format: 'mgrs' };
+
+  return parseDegrees(trimmed);
+}
+
+function formatDms(value: number, positive: string, negative: string): string {
+  const absolute = Math.abs(value);
+  // Round to tenths of a second first so 59.96" does not show as 60.0"
+  const totalTenths = Math.round(absolute * 36000);
+  const degrees = Math.floor(totalTenths / 36000);
+  const minutes = Math.floor((totalTenths % 36000) / 600);
+  const seconds = (totalTenths % 600) / 10;
+  return `${degrees}°${String(minutes).padStart(2, '0')}'${seconds.toFixed(1).padStart(4, '0')}"${value < 0 ? negative : positive}`;
+}
+
+/**
+ * Point as text in a coordinate format
+ */
+export function formatCoordinate({ lat, lng }: LatLng, format: CoordinateFormat): string {
+  switch (format) {
+    case 'dms':
+      return `${formatDms(lat, 'N', 'S')} ${formatDms(lng, 'E', 'W')}`;
+    case 'utm': {
+      const utm = toUtm(lat, lng);
+      return utm
+        ? `${utm.zone}${utm.band} ${Math.round(utm.easting)} ${Math.round(utm.northing)}`
+        : 'outside UTM range';
+    }
+    case 'mgrs':
+      return toMgrs(lat, lng) ?? 'outside MGRS range';
+    default:
+      return `${lat.toFixed(5)}°, ${lng.toFixed(5)}°`;
+  }
+}
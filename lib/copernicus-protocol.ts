@@ -0,0 +1,148 @@
+/**
+ * Copernicus DEM as Terrarium-encoded terrain tiles via a custom MapLibre protocol
+ *
+ * The Copernicus COGs are geographic (EPSG:4326), which the cog:// protocol cannot
+ * reproject, so this protocol mosaics the COG tiles covering each XYZ tile through
+ * /api/cog and encodes the result for raster-dem sources (terrain, hillshade).
+ * Below COPERNICUS_MIN_ZOOM a tile would span too many COGs, so the Terrarium
+ * tiles are served instead.
+ *
+ * Tile URL: copernicus://{z}/{x}/{y}
+ */
+
+import { fromUrl, type GeoTIFF } from 'geotiff';
+import type { AddProtocolAction } from 'maplibre-gl';
+import { getCogProxyUrl, getTilesForBounds, type CopernicusTile } from './cog-utils';
+import { readMercatorElevationTile, encodeTerrarium, MERCATOR_TILE_SIZE } from './dem-mosaic';
+import { getTerrainSource, getTerrainTileUrl } from './dem-sources';
+import type { GeoBounds } from './dem-reader';
+import { isTileAvailable, markTileMissing, partitionTiles } from './tile-availability';
+
+export const COPERNICUS_MIN_ZOOM = 8;
+export const COPERNICUS_TILE_URL = 'copernicus://{z}/{x}/{y}';
+
+// Most COG tiles kept open at once (a viewport at the minimum zoom needs a few dozen)
+const MAX_OPEN_TILES = 48;
+
+export interface CopernicusViewport {
+  tiles: CopernicusTile[]; // COG tiles covering the view
+  missing: CopernicusTile[]; // of those, tiles the source does not have (open ocean)
+}
+
+// Opened COGs by tile URL, least recently used first
+const openTiles = new Map<string, Promise<GeoTIFF | null>>();
+
+/**
+ * Open a COG tile through the proxy, null when the source does not have it
+ * @throws On any other failure, which is not cached (see openCogTile)
+ */
+async function openRemoteTile(tile: CopernicusTile, url: string): Promise<GeoTIFF | null> {
+  try {
+    return await fromUrl(url);
+  } catch (error) {
+    // The proxy marks tiles the source does not have, remember them to stop asking
+    const response = await fetch(url, { method: 'HEAD' }).catch(() => null);
+    if (response?.headers.get('X-Tile-Status') !== 'no-data') {
+      throw new Error(`Could not open COG tile ${url}`, { cause: error });
+    }
+    markTileMissing(tile.lat, tile.lon);
+    return null;
+  }
+}
+
+function openCogTile(tile: CopernicusTile): Promise<GeoTIFF | null> {
+  if (!isTileAvailable(tile.lat, tile.lon)) return Promise.resolve(null);
+  const url = getCogProxyUrl(tile.lat, tile.lon);
+
+  let tiff = openTiles.get(url);
+  if (tiff) {
+    openTiles.delete(url);
+  } else {
+    const opening = openRemoteTile(tile, url);
+    // Failures are not kept, the next tile request opens the COG again
+    opening.catch(() => {
+      if (openTiles.get(url) === opening) openTiles.delete(url);
+    });
+    tiff = opening;
+  }
+  openTiles.set(url, tiff);
+
+  while (openTiles.size > MAX_OPEN_TILES) {
+    openTiles.delete(openTiles.keys().next().value!);
+  }
+  return tiff;
+}
+
+/**
+ * Keep the COG tiles of the current view open and close the rest
+ * Call on every view change while the Copernicus source is in use
+ */
+export async function updateCopernicusViewport(bounds: GeoBounds, zoom: number): Promise<CopernicusViewport> {
+  if (zoom < COPERNICUS_MIN_ZOOM) {
+    openTiles.clear();
+    return { tiles: [], missing: [] };
+  }
+
+  const tiles = getTilesForBounds(
+    {
+      west: Math.max(-180, bounds.west),
+      east: Math.min(180, bounds.east),
+      south: Math.max(-90, bounds.south),
+      north: Math.min(90, bounds.north),
+    },
+    { includeMissing: true }
+  ).slice(0, MAX_OPEN_TILES);
+
+  const inView = new Set(tiles.map((tile) => getCogProxyUrl(tile.lat, tile.lon)));
+  for (const url of openTiles.keys()) {
+    if (!inView.has(url)) openTiles.delete(url);
+  }
+
+  // Opening finds the tiles missing from the manifest that the source does not have either
+  // (tiles that fail to open are retried by the tile requests)
+  await Promise.all(tiles.map((tile) => openCogTile(tile).catch(() => null)));
+  return { tiles, missing: partitionTiles(tiles).missing };
+}
+
+/**
+ * Elevations of an XYZ tile from the Copernicus mosaic, sea level where there is no tile
+ * @returns null below COPERNICUS_MIN_ZOOM
+ * @throws When a covering COG could not be opened, rather than filling it with sea level
+ */
+export async function readCopernicusElevationTile(z: number, x: number, y: number): Promise<Float32Array | null> {
+  if (z < COPERNICUS_MIN_ZOOM) return null;
+
+  const elevations = await readMercatorElevationTile(z, x, y, openCogTile, MERCATOR_TILE_SIZE);
+  for (let p = 0; p < elevations.length; p++) {
+    if (Number.isNaN(elevations[p])) elevations[p] = 0;
+  }
+  return elevations;
+}
+
+/**
+ * MapLibre protocol handler for copernicus:// terrain tiles (Terrarium encoding)
+ * Register with maplibregl.addProtocol('copernicus', copernicusProtocol)
+ */
+export const copernicusProtocol: AddProtocolAction = async (requestParameters, abortController) => {
+  const match = requestParameters.url.match(/^copernicus:\/\/(\d+)\/(\d+)\/(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid Copernicus protocol URL '${requestParameters.url}'`);
+  }
+  const [z, x, y] = match.slice(1).map((value) => parseInt(value, 10));
+
+  if (z < COPERNICUS_MIN_ZOOM) {
+    const response = await fetch(getTerrainTileUrl(getTerrainSource(), z, x, y), {
+      signal: abortController.signal,
+    });
+    if (!response.ok) throw new Error(`Terrain tile error: ${response.status}`);
+    return { data: await createImageBitmap(await response.blob()) };
+  }
+
+  const elevations = await readCopernicusElevationTile(z, x, y);
+  if (abortController.signal.aborted) {
+    throw new DOMException('Copernicus tile request aborted', 'AbortError');
+  }
+
+  const rgba = encodeTerrarium(elevations!);
+  return { data: await createImageBitmap(new ImageData(rgba, MERCATOR_TILE_SIZE, MERCATOR_TILE_SIZE)) };
+};
@@ -0,0 +1,146 @@
+/**
+ * Web Mercator elevation tiles from the 1° Copernicus COG mosaic
+ * Resamples the geographic (EPSG:4326) COG tiles into XYZ tiles. Opening the
+ * COGs is left to the caller, so this runs in the browser and on the server.
+ */
+
+import type { GeoTIFF } from 'geotiff';
+import { getTilesForBounds, type CopernicusTile } from './cog-utils';
+import type { GeoBounds } from './dem-reader';
+
+export const MERCATOR_TILE_SIZE = 256;
+
+export type OpenCogTile = (tile: CopernicusTile) => Promise<GeoTIFF | null>;
+
+function tileYToLat(y: number, z: number): number {
+  const n = Math.PI * (1 - (2 * y) / 2 ** z);
+  return Math.atan(Math.sinh(n)) * (180 / Math.PI);
+}
+
+/**
+ * Geographic bounds of an XYZ tile
+ */
+export function getMercatorTileBounds(z: number, x: number, y: number): GeoBounds {
+  const tiles = 2 ** z;
+  return {
+    west: (x / tiles) * 360 - 180,
+    east: ((x + 1) / tiles) * 360 - 180,
+    north: tileYToLat(y, z),
+    south: tileYToLat(y + 1, z),
+  };
+}
+
+/**
+ * Read the elevation of an XYZ tile from the COG tiles covering it
+ *
+ * Each COG is read over its intersection with the tile at about the output
+ * resolution (geotiff picks the matching overview), then sampled bilinearly at
+ * the latitude and longitude of every output pixel centre.
+ *
+ * @returns Row-major elevations from the north-west corner, NaN where no COG covers the pixel
+ */
+export async function readMercatorElevationTile(
+  z: number,
+  x: number,
+  y: number,
+  openTile: OpenCogTile,
+  tileSize: number = MERCATOR_TILE_SIZE
+): Promise<Float32Array> {
+  const bounds = getMercatorTileBounds(z, x, y);
+  const elevations = new Float32Array(tileSize * tileSize).fill(NaN);
+
+  // Pixel centre coordinates (latitude is not linear in Mercator rows)
+  const lons = Array.from({ length: tileSize }, (_, col) =>
+    bounds.west + ((col + 0.5) / tileSize) * (bounds.east - bounds.west)
+  );
+  const lats = Array.from({ length: tileSize }, (_, row) => tileYToLat(y + (row + 0.5) / tileSize, z));
+
+  await Promise.all(
+    getTilesForBounds(bounds).map(async (tile) => {
+      const tiff = await openTile(tile);
+      if (!tiff) return;
+
+      // Intersection of the COG with the XYZ tile
+      const west = Math.max(bounds.west, tile.lon);
+      const east = Math.min(bounds.east, tile.lon + 1);
+      const south = Math.max(bounds.south, tile.lat);
+      const north = Math.min(bounds.north, tile.lat + 1);
+
+      const cols = lons.flatMap((lon, col) => (lon >= west && lon < east ? [col] : []));
+      const rows = lats.flatMap((lat, row) => (lat >= south && lat < north ? [row] : []));
+      if (cols.length === 0 || rows.length === 0) return;
+
+      const width = Math.max(2, cols.length);
+      const height = Math.max(2, rows.length);
+      const raster = (await tiff.readRasters({
+        bbox: [west, south, east, north],
+        width,
+        height,
+        samples: [0],
+        interleave: true,
+        resampleMethod: 'bilinear',
+      })) as unknown as ArrayLike<number>;
+      const noData = (await tiff.getImage()).getGDALNoData();
+
+      const value = (px: number, py: number) => {
+        const v = raster[py * width + px];
+        return v === noData ? NaN : v;
+      };
+
+      for (const row of rows) {
+        // Fractional position in the read raster (pixel centres at +0.5)
+        const fy = Math.min(height - 1, Math.max(0, ((north - lats[row]) / (north - south)) * height - 0.5));
+        const y0 = Math.floor(fy);
+        const y1 = Math.min(height - 1, y0 + 1);
+        const ty = fy - y0;
+
+        for (const col of cols) {
+          const fx = Math.min(width - 1, Math.max(0, ((lons[col] - west) / (east - west)) * width - 0.5));
+          const x0 = Math.floor(fx);
+          const x1 = Math.min(width - 1, x0 + 1);
+          const tx = fx - x0;
+
+          const top = value(x0, y0) * (1 - tx) + value(x1, y0) * tx;
+          const bottom = value(x0, y1) * (1 - tx) + value(x1, y1) * tx;
+          elevations[row * tileSize + col] = top * (1 - ty) + bottom * ty;
+        }
+      }
+    })
+  );
+
+  return elevations;
+}
+
+/**
+ * Encode elevations as Terrarium RGB: elevation = R * 256 + G + B / 256 - 32768
+ * Pixels without data are encoded as sea level
+ */
+export function encodeTerrarium(elevations: Float32Array): Uint8ClampedArray<ArrayBuffer> {
+  const rgba = new Uint8ClampedArray(elevations.length * 4);
+  for (let p = 0; p < elevations.length; p++) {
+    const value = (Number.isNaN(elevations[p]) ? 0 : elevations[p]) + 32768;
+    const red = Math.floor(value / 256);
+    const green = Math.floor(value - red * 256);
+    rgba[p * 4] = red;
+    rgba[p * 4 + 1] = green;
+    rgba[p * 4 + 2] = Math.round((value - red * 256 - green) * 256);
+    rgba[p * 4 + 3] = 255;
+  }
+  return rgba;
+}
+
+/**
+ * Encode elevations as Mapbox terrain-RGB: elevation = -10000 + (R * 65536 + G * 256 + B) * 0.1
+ * Pixels without data are encoded as sea level
+ */
+export function encodeTerrainRgb(elevations: Float32Array): Uint8ClampedArray<ArrayBuffer> {
+  const rgba = new Uint8ClampedArray(elevations.length * 4);
+  for (let p = 0; p < elevations.length; p++) {
+    const value = Math.round(((Number.isNaN(elevations[p]) ? 0 : elevations[p]) + 10000) * 10);
+    rgba[p * 4] = Math.floor(value / 65536);
+    rgba[p * 4 + 1] = Math.floor(value / 256) % 256;
+    rgba[p * 4 + 2] = value % 256;
+    rgba[p * 4 + 3] = 255;
+  }
+  return rgba;
+}
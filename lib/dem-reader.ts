@@ -0,0 +1,175 @@
+/**
+ * Server-side reading of Copernicus DEM windows
+ * Mosaics the covering COG tiles into a single elevation grid
+ */
+
+import { fromFile, fromUrl, type GeoTIFF } from 'geotiff';
+import { getTilesForBounds, type CopernicusTile } from './cog-utils';
+import { getCogSource, isLocalDirectory } from './dem-sources';
+import { isTileAvailable, markTileMissing } from './tile-availability';
+import type { ElevationRaster } from './cliff-detector';
+
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface ElevationWindow extends ElevationRaster {
+  data: Float32Array; // NaN where no data
+  bounds: GeoBounds;
+  lonStep: number; // degrees per pixel
+  latStep: number; // degrees per pixel
+  xResolution: number; // meters per pixel at the centre latitude
+  yResolution: number;
+  missingTiles: CopernicusTile[];
+}
+
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Whether a tile failed to open because the source does not have it
+ * (geotiff errors carry no HTTP status, so the URL is probed)
+ */
+async function isMissingTile(tile: CopernicusTile, error: unknown): Promise<boolean> {
+  if (isLocalDirectory(tile.url)) {
+    return (error as NodeJS.ErrnoException).code === 'ENOENT';
+  }
+  const response = await fetch(tile.url, { method: 'HEAD' }).catch(() => null);
+  return response?.status === 404 || response?.status === 403;
+}
+
+/**
+ * Open a COG tile, returning null when the source does not have it
+ * (Copernicus has no tiles over open ocean, see tile-availability)
+ * @throws When the tile exists but cannot be read (network errors, 5xx, throttling)
+ */
+export async function openCogTile(tile: CopernicusTile): Promise<GeoTIFF | null> {
+  if (!isTileAvailable(tile.lat, tile.lon)) return null;
+
+  try {
+    return isLocalDirectory(tile.url) ? await fromFile(tile.url) : await fromUrl(tile.url);
+  } catch (error) {
+    if (!(await isMissingTile(tile, error))) {
+      throw new Error(`Could not open COG tile ${tile.url}`, { cause: error });
+    }
+    // Remembered so the tile is not requested again
+    markTileMissing(tile.lat, tile.lon);
+    return null;
+  }
+}
+
+/**
+ * Read elevation data for a bounding box from the covering Copernicus tiles
+ *
+ * Windows spanning several tiles are stitched into one grid. The grid spacing
+ * is taken from the tile under the window centre, other tiles are resampled to it.
+ *
+ * @param bounds - Bounding box {north, south, east, west}
+ * @returns Elevation window with NaN for pixels without data
+ */
+export async function readElevationWindow(bounds: GeoBounds): Promise<ElevationWindow> {
+  // Missing tiles are included so they can be reported (they open as null)
+  const tiles = getTilesForBounds(bounds, { includeMissing: true });
+  const opened = await Promise.all(tiles.map(openCogTile));
+
+  const centerLat = (bounds.north + bounds.south) / 2;
+  const centerLon = (bounds.east + bounds.west) / 2;
+
+  // Pick grid spacing from the tile containing the centre (Copernicus longitude spacing widens towards the poles)
+  let latStep = 1 / getCogSource().pixelsPerDegree;
+  let lonStep = latStep;
+  const centerIndex = tiles.findIndex(
+    (tile) => tile.lat === Math.floor(centerLat) && tile.lon === Math.floor(centerLon)
+  );
+  const referenceTiff = opened[centerIndex] ?? opened.find((tiff) => tiff !== null);
+  if (referenceTiff) {
+    const [resX, resY] = (await referenceTiff.getImage()).getResolution();
+    lonStep = Math.abs(resX);
+    latStep = Math.abs(resY);
+  }
+
+  const width = Math.max(1, Math.round((bounds.east - bounds.west) / lonStep));
+  const height = Math.max(1, Math.round((bounds.north - bounds.south) / latStep));
+  const data = new Float32Array(width * height).fill(NaN);
+  const missingTiles: CopernicusTile[] = [];
+
+  await Promise.all(
+    tiles.map(async (tile, index) => {
+      const tiff = opened[index];
+      if (!tiff) {
+        missingTiles.push(tile);
+        return;
+      }
+
+      try {
+        const image = await tiff.getImage();
+        const [tileWest, tileSouth, tileEast, tileNorth] = image.getBoundingBox();
+
+        // Intersection of the tile with the requested window
+        const west = Math.max(bounds.west, tileWest);
+        const east = Math.min(bounds.east, tileEast);
+        const south = Math.max(bounds.south, tileSouth);
+        const north = Math.min(bounds.north, tileNorth);
+        if (west >= east || south >= north) return;
+
+        // Target pixels in the output grid
+        const outX0 = Math.round((west - bounds.west) / lonStep);
+        const outX1 = Math.min(width, Math.round((east - bounds.west) / lonStep));
+        const outY0 = Math.round((bounds.north - north) / latStep);
+        const outY1 = Math.min(height, Math.round((bounds.north - south) / latStep));
+        if (outX1 <= outX0 || outY1 <= outY0) return;
+
+        // Source pixels in the tile
+        const [originX, originY] = image.getOrigin();
+        const [resX, resY] = image.getResolution();
+        const srcX0 = Math.max(0, Math.floor((west - originX) / Math.abs(resX)));
+        const srcX1 = Math.min(image.getWidth(), Math.ceil((east - originX) / Math.abs(resX)));
+        const srcY0 = Math.max(0, Math.floor((originY - north) / Math.abs(resY)));
+        const srcY1 = Math.min(image.getHeight(), Math.ceil((originY - south) / Math.abs(resY)));
+        if (srcX1 <= srcX0 || srcY1 <= srcY0) return;
+
+        const targetWidth = outX1 - outX0;
+        const targetHeight = outY1 - outY0;
+        const raster = await image.readRasters({
+          window: [srcX0, srcY0, srcX1, srcY1],
+          samples: [0],
+          width: targetWidth,
+          height: targetHeight,
+          resampleMethod: 'bilinear',
+          interleave: true,
+        });
+
+        const values = raster as unknown as ArrayLike<number>;
+        const noData = image.getGDALNoData();
+        for (let y = 0; y < targetHeight; y++) {
+          for (let x = 0; x < targetWidth; x++) {
+            const value = values[y * targetWidth + x];
+            data[(outY0 + y) * width + outX0 + x] = value === noData ? NaN : value;
+          }
+        }
+      } catch (error) {
+        console.warn('Could not read COG tile:', tile.url, error);
+        missingTiles.push(tile);
+      }
+    })
+  );
+
+  // Ground size of one pixel at the window centre, per axis and averaged
+  const xResolution = lonStep * Math.cos(centerLat * (Math.PI / 180)) * METERS_PER_DEGREE;
+  const yResolution = latStep * METERS_PER_DEGREE;
+
+  return {
+    data,
+    width,
+    height,
+    bounds,
+    lonStep,
+    latStep,
+    resolution: (xResolution + yResolution) / 2,
+    xResolution,
+    yResolution,
+    missingTiles,
+  };
+}
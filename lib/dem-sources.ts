@@ -0,0 +1,185 @@
+/**
+ * Registry of DEM sources
+ *
+ * Every module resolves tile locations through this registry, so the app can be
+ * pointed at a local mirror for testing and air-gapped use.
+ *
+ * Configuration (environment):
+ *   NEXT_PUBLIC_DEM_SOURCE          COG source for the proxy and cliff detection: glo30 (default), glo90 or local
+ *   DEM_LOCAL_URL                   local mirror of GLO-30 tiles: an HTTP server URL or a directory (server only)
+ *   NEXT_PUBLIC_TERRARIUM_TILE_URL  Terrarium tile URL template, e.g. a local tile server
+ */
+
+export type DemSourceId = 'glo30' | 'glo90' | 'terrarium' | 'local';
+
+interface DemSourceInfo {
+  id: DemSourceId;
+  name: string;
+  resolution: number; // nominal meters per pixel
+  verticalDatum: string;
+  attribution: string;
+}
+
+/**
+ * 1° x 1° Cloud Optimized GeoTIFF tiles in geographic coordinates
+ */
+export interface CogDemSource extends DemSourceInfo {
+  type: 'cog';
+  baseUrl: string; // HTTP(S) URL or local directory
+  pixelsPerDegree: number; // latitude spacing (longitude spacing widens towards the poles)
+  tileName(lat: number, lon: number): string; // tile at the floored lat/lon, without extension
+}
+
+/**
+ * Web Mercator XYZ tiles with elevation encoded in RGB
+ */
+export interface TerrainTileSource extends DemSourceInfo {
+  type: 'terrain-tiles';
+  tileUrl: string; // {z}/{x}/{y} template
+  encoding: 'terrarium';
+  tileSize: number;
+  maxzoom: number;
+}
+
+export type DemSource = CogDemSource | TerrainTileSource;
+
+const COPERNICUS_ATTRIBUTION =
+  'Copernicus DEM © DLR e.V. 2010-2014 and © Airbus Defence and Space GmbH 2014-2018, ' +
+  'provided under COPERNICUS by the European Union and ESA';
+
+/**
+ * Copernicus tile naming convention:
+ * Copernicus_DSM_COG_{10|30}_N{lat}_00_E{lon}_00_DEM (10 = 1 arc second, 30 = 3 arc seconds)
+ */
+function copernicusTileName(arcSecondsCode: string) {
+  return (lat: number, lon: number): string => {
+    // Floor to nearest degree (tiles are 1° x 1°)
+    const tileLat = Math.floor(lat);
+    const tileLon = Math.floor(lon);
+
+    // Determine hemisphere prefixes
+    const latPrefix = tileLat >= 0 ? 'N' : 'S';
+    const lonPrefix = tileLon >= 0 ? 'E' : 'W';
+
+    // Format coordinates with leading zeros (2 digits for lat, 3 for lon)
+    const latStr = Math.abs(tileLat).toString().padStart(2, '0');
+    const lonStr = Math.abs(tileLon).toString().padStart(3, '0');
+
+    return `Copernicus_DSM_COG_${arcSecondsCode}_${latPrefix}${latStr}_00_${lonPrefix}${lonStr}_00_DEM`;
+  };
+}
+
+export const DEM_SOURCES: Record<DemSourceId, DemSource> = {
+  glo30: {
+    id: 'glo30',
+    type: 'cog',
+    name: 'Copernicus GLO-30',
+    resolution: 30,
+    verticalDatum: 'EGM2008',
+    attribution: COPERNICUS_ATTRIBUTION,
+    baseUrl: 'https://copernicus-dem-30m.s3.amazonaws.com',
+    pixelsPerDegree: 3600,
+    tileName: copernicusTileName('10'),
+  },
+  glo90: {
+    id: 'glo90',
+    type: 'cog',
+    name: 'Copernicus GLO-90',
+    resolution: 90,
+    verticalDatum: 'EGM2008',
+    attribution: COPERNICUS_ATTRIBUTION,
+    baseUrl: 'https://copernicus-dem-90m.s3.amazonaws.com',
+    pixelsPerDegree: 1200,
+    tileName: copernicusTileName('30'),
+  },
+  local: {
+    id: 'local',
+    type: 'cog',
+    name: 'Local GLO-30 mirror',
+    resolution: 30,
+    verticalDatum: 'EGM2008',
+    attribution: COPERNICUS_ATTRIBUTION,
+    baseUrl: process.env.DEM_LOCAL_URL || 'http://localhost:8080',
+    pixelsPerDegree: 3600,
+    tileName: copernicusTileName('10'),
+  },
+  terrarium: {
+    id: 'terrarium',
+    type: 'terrain-tiles',
+    name: 'AWS Terrain Tiles',
+    resolution: 30, // varies by location, 30-90 m over land
+    verticalDatum: 'EGM96 (mixed sources)',
+    attribution: 'AWS Terrain Tiles (SRTM, GMTED2010, ETOPO1 and others)',
+    tileUrl:
+      process.env.NEXT_PUBLIC_TERRARIUM_TILE_URL ||
+      'https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png',
+    encoding: 'terrarium',
+    tileSize: 256,
+    maxzoom: 15,
+  },
+};
+
+/**
+ * COG source used by the proxy, server-side reading and the map
+ */
+export function getCogSource(): CogDemSource {
+  const source = DEM_SOURCES[process.env.NEXT_PUBLIC_DEM_SOURCE as DemSourceId];
+  return source?.type === 'cog' ? source : (DEM_SOURCES.glo30 as CogDemSource);
+}
+
+/**
+ * Terrain tile source for the map terrain, hillshade and slope tiles
+ */
+export function getTerrainSource(): TerrainTileSource {
+  return DEM_SOURCES.terrarium as TerrainTileSource;
+}
+
+/**
+ * Relative path of the COG tile containing a coordinate
+ */
+export function getCogTilePath(source: CogDemSource, lat: number, lon: number): string {
+  const tileName = source.tileName(lat, lon);
+  return `${tileName}/${tileName}.tif`;
+}
+
+/**
+ * Validate a relative tile path against the source's naming scheme
+ * @returns The tile's south-west corner, or null when the path is not a tile of this source
+ */
+export function parseCogTilePath(source: CogDemSource, tilePath: string): { lat: number; lon: number } | null {
+  const match = tilePath.match(/^Copernicus_DSM_COG_\d\d_([NS])(\d\d)_00_([EW])(\d{3})_00_DEM\//);
+  if (!match) return null;
+
+  const lat = parseInt(match[2], 10) * (match[1] === 'N' ? 1 : -1);
+  const lon = parseInt(match[4], 10) * (match[3] === 'E' ? 1 : -1);
+  if (lat < -90 || lat >= 90 || lon < -180 || lon >= 180) return null;
+
+  // The path must be exactly what the source names this tile (resolution code, zero padding, extension)
+  return getCogTilePath(source, lat, lon) === tilePath ? { lat, lon } : null;
+}
+
+/**
+ * Whether a base URL is a local directory rather than an HTTP(S) server
+ */
+export function isLocalDirectory(baseUrl: string): boolean {
+  return !/^https?:\/\//i.test(baseUrl);
+}
+
+/**
+ * Full URL (or file path for a local directory) of a tile path within a source
+ * @returns null when the path would leave the source (empty, '.' or '..' segments)
+ */
+export function resolveCogTileUrl(source: CogDemSource, tilePath: string): string | null {
+  const segments = tilePath.split('/');
+  if (segments.some((segment) => segment === '' || segment === '.' || segment === '..' || segment.includes('\\'))) {
+    return null;
+  }
+  return `${source.baseUrl.replace(/\/+$/, '')}/${segments.join('/')}`;
+}
+
+/**
+ * URL of one terrain tile
+ */
+export function getTerrainTileUrl(source: TerrainTileSource, z: number, x: number, y: number): string {
+  return source.tileUrl.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+}
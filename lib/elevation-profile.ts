@@ -0,0 +1,209 @@
+/**
+ * Elevation profiles along a polyline
+ * Samples the decoded elevation tiles of the slope protocol, so profile values
+ * agree with the slope tiles on the map
+ */
+
+import { calculateNeighborhoodSlope, calculateSlopeAngle, haversineDistance, type SlopeAlgorithm } from './slope-utils';
+import { sampleElevations, type SlopeTileDem } from './slope-protocol';
+import { getTerrainSource } from './dem-sources';
+
+const EARTH_CIRCUMFERENCE = 40075016.686; // meters at the equator
+const TILE_SIZE = 256;
+
+export interface ProfilePoint {
+  lng: number;
+  lat: number;
+  distance: number; // meters from the start along the line
+  elevation: number | null; // null where there is no data
+}
+
+export interface ProfileSegment {
+  from: number; // index of the first point
+  to: number;
+  gradient: number; // percent, positive uphill in line direction
+  slope: number; // degrees, unsigned
+}
+
+export interface PointSample {
+  elevation: number | null; // meters
+  slope: number | null; // degrees, null without the full neighbourhood
+  aspect: number | null; // degrees clockwise from north the slope faces, null when flat
+}
+
+export interface ElevationProfile {
+  points: ProfilePoint[];
+  segments: ProfileSegment[]; // between consecutive points with data
+  length: number; // meters
+  ascent: number; // meters
+  descent: number; // meters
+  maxGradient: number; // percent, steepest segment either way
+  maxSlope: number; // degrees, steepest segment
+  minElevation: number | null;
+  maxElevation: number | null;
+  zoom: number; // zoom level of the sampled elevation tiles
+}
+
+/**
+ * Length of a polyline in meters
+ */
+export function getLineLength(line: [number, number][]): number {
+  let length = 0;
+  for (let i = 1; i < line.length; i++) {
+    length += haversineDistance(line[i - 1][1], line[i - 1][0], line[i][1], line[i][0]);
+  }
+  return length;
+}
+
+/**
+ * Points at most `spacing` meters apart along a polyline, keeping its vertices
+ */
+export function densifyLine(line: [number, number][], spacing: number): ProfilePoint[] {
+  if (line.length === 0) return [];
+
+  const points: ProfilePoint[] = [{ lng: line[0][0], lat: line[0][1], distance: 0, elevation: null }];
+  let distance = 0;
+
+  for (let i = 1; i < line.length; i++) {
+    const [lng0, lat0] = line[i - 1];
+    const [lng1, lat1] = line[i];
+    const segmentLength = haversineDistance(lat0, lng0, lat1, lng1);
+    const steps = Math.max(1, Math.ceil(segmentLength / spacing));
+
+    // Linear in degrees, which is close enough over the lengths drawn on the map
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps;
+      points.push({
+        lng: lng0 + (lng1 - lng0) * t,
+        lat: lat0 + (lat1 - lat0) * t,
+        distance: distance + segmentLength * t,
+        elevation: null,
+      });
+    }
+    distance += segmentLength;
+  }
+
+  return points;
+}
+
+/**
+ * Zoom level whose tile pixels are about `spacing` meters at a latitude
+ */
+export function getSampleZoom(spacing: number, lat: number): number {
+  const { maxzoom } = getTerrainSource();
+  const zoom = Math.floor(Math.log2((EARTH_CIRCUMFERENCE * Math.cos((lat * Math.PI) / 180)) / (TILE_SIZE * spacing)));
+  return Math.min(maxzoom, Math.max(0, zoom));
+}
+
+/**
+ * Ascent, descent and gradients of sampled profile points
+ */
+export function calculateProfileStats(points: ProfilePoint[], zoom: number): ElevationProfile {
+  const segments: ProfileSegment[] = [];
+  let ascent = 0;
+  let descent = 0;
+  let maxGradient = 0;
+  let maxSlope = 0;
+  let minElevation: number | null = null;
+  let maxElevation: number | null = null;
+
+  for (let i = 0; i < points.length; i++) {
+    const elevation = points[i].elevation;
+    if (elevation === null) continue;
+    minElevation = minElevation === null ? elevation : Math.min(minElevation, elevation);
+    maxElevation = maxElevation === null ? elevation : Math.max(maxElevation, elevation);
+
+    const previous = points[i - 1];
+    if (!previous || previous.elevation === null) continue;
+
+    const rise = elevation - previous.elevation;
+    const run = points[i].distance - previous.distance;
+    if (rise > 0) ascent += rise;
+    else descent -= rise;
+
+    const gradient = run > 0 ? (rise / run) * 100 : 0;
+    const slope = calculateSlopeAngle(rise, run);
+    segments.push({ from: i - 1, to: i, gradient, slope });
+    maxGradient = Math.max(maxGradient, Math.abs(gradient));
+    maxSlope = Math.max(maxSlope, slope);
+  }
+
+  return {
+    points,
+    segments,
+    length: points.length > 0 ? points[points.length - 1].distance : 0,
+    ascent,
+    descent,
+    maxGradient,
+    maxSlope,
+    minElevation,
+    maxElevation,
+    zoom,
+  };
+}
+
+/**
+ * Sample the elevation profile of a polyline
+ *
+ * Samples are spaced evenly, but not closer than a pixel of the most detailed
+ * terrain tiles, and read from the zoom level whose pixels match the spacing.
+ *
+ * @param line - [lng, lat] vertices
+ * @param options.maxSamples - Upper limit of sample points
+ */
+export async function sampleElevationProfile(
+  line: [number, number][],
+  { dem = 'terrarium', maxSamples = 500 }: { dem?: SlopeTileDem; maxSamples?: number } = {}
+): Promise<ElevationProfile> {
+  const length = getLineLength(line);
+  const centerLat = line.reduce((sum, [, lat]) => sum + lat, 0) / Math.max(1, line.length);
+  const finestPixel =
+    (EARTH_CIRCUMFERENCE * Math.cos((centerLat * Math.PI) / 180)) / (TILE_SIZE * 2 ** getTerrainSource().maxzoom);
+
+  const spacing = Math.max(finestPixel, length / maxSamples);
+  const zoom = getSampleZoom(spacing, centerLat);
+  const points = densifyLine(line, spacing);
+
+  const elevations = await sampleElevations(points, zoom, dem);
+  points.forEach((point, index) => {
+    point.elevation = elevations[index];
+  });
+
+  return calculateProfileStats(points, zoom);
+}
+
+/**
+ * Elevations of a 3x3 neighbourhood one pixel of the most detailed terrain tiles apart
+ * Rows north to south, the point itself in the middle, like the slope tiles
+ */
+export async function sampleNeighborhood(
+  lng: number,
+  lat: number,
+  dem: SlopeTileDem = 'terrarium'
+): Promise<{ elevations: (number | null)[]; spacing: number }> {
+  const zoom = getTerrainSource().maxzoom;
+  const spacing = (EARTH_CIRCUMFERENCE * Math.cos((lat * Math.PI) / 180)) / (TILE_SIZE * 2 ** zoom);
+  const dLat = spacing / 111320;
+  const dLng = spacing / (111320 * Math.cos((lat * Math.PI) / 180));
+
+  const neighborhood = [1, 0, -1].flatMap((row) => [-1, 0, 1].map((col) => ({ lng: lng + col * dLng, lat: lat + row * dLat })));
+  return { elevations: await sampleElevations(neighborhood, zoom, dem), spacing };
+}
+
+/**
+ * Elevation, slope and aspect at a point from the most detailed terrain tiles
+ * Slope comes from the 3x3 neighbourhood one pixel apart, like the slope tiles
+ */
+export async function samplePoint(
+  lng: number,
+  lat: number,
+  { dem = 'terrarium', algorithm = 'horn' }: { dem?: SlopeTileDem; algorithm?: SlopeAlgorithm } = {}
+): Promise<PointSample> {
+  const { elevations, spacing } = await sampleNeighborhood(lng, lat, dem);
+
+  const elevation = elevations[4];
+  if (elevations.some((value) => value === null)) return { elevation, slope: null, aspect: null };
+
+  const { slope, aspect } = calculateNeighborhoodSlope(elevations as number[], spacing, spacing, algorithm);
+  return { elevation, slope, aspect: Number.isNaN(aspect) ? null : aspect };
+}
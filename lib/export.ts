@@ -0,0 +1,354 @@
+/**
+ * Export of slope and cliff results and measurements as GeoJSON, KML, GPX and CSV
+ * Every format carries the analysis parameters and the data attribution
+ */
+
+import { getCriteriaGradient, type CliffCriteria } from './cliff-criteria';
+import { formatSlopeColors, getSlopeColorScheme, type SlopeColors } from './slope-colors';
+import { getSlopeColor } from './slope-utils';
+
+export type ExportFormat = 'geojson' | 'kml' | 'gpx' | 'csv';
+
+export const EXPORT_FORMATS: { id: ExportFormat; name: string; extension: string; mimeType: string }[] = [
+  { id: 'geojson', name: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  { id: 'kml', name: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  { id: 'gpx', name: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  { id: 'csv', name: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+];
+
+export interface ExportMetadata {
+  generated: string; // ISO date
+  bbox: [number, number, number, number]; // [west, south, east, north]
+  elevationSource: string; // name of the DEM behind the results
+  criteria: CliffCriteria; // minAngle is also the threshold of the slope grid
+  algorithm: string;
+  slopeColors: SlopeColors; // of the slope cells in KML
+  gridSize: number | null; // slope grid cells per side, null without a slope grid
+  cliffDetection?: Record<string, unknown>; // parameters reported by /api/cliffs
+  attribution: string[];
+}
+
+export interface ExportData {
+  slopes: GeoJSON.FeatureCollection | null; // slope grid cells
+  cliffs: GeoJSON.FeatureCollection | null; // cliff lines
+  measurements: GeoJSON.FeatureCollection | null; // see lib/measurement
+}
+
+export interface ExportFile {
+  content: string;
+  filename: string;
+  mimeType: string;
+}
+
+interface CliffCentroid {
+  cliffId: string;
+  lng: number;
+  lat: number;
+  properties: GeoJSON.GeoJsonProperties;
+}
+
+// Measurements in KML colours (aabbggrr): amber outline, translucent fill
+const MEASUREMENT_KML_COLOR = 'ff0677d9';
+const MEASUREMENT_KML_FILL = '260677d9';
+
+type LayeredFeature = GeoJSON.Feature & { properties: Record<string, unknown> & { layer: string } };
+
+/**
+ * All features with a layer property telling slopes, cliff lines and measurements apart
+ */
+function getLayeredFeatures({ slopes, cliffs, measurements }: ExportData): LayeredFeature[] {
+  return [
+    ...(slopes?.features ?? []).map((feature) => ({
+      ...feature,
+      properties: { layer: 'slope', ...feature.properties },
+    })),
+    ...(cliffs?.features ?? []).map((feature) => ({
+      ...feature,
+      properties: { layer: 'cliff-line', ...feature.properties },
+    })),
+    ...(measurements?.features ?? []).map((feature) => ({
+      ...feature,
+      properties: { layer: 'measurement', ...feature.properties },
+    })),
+  ];
+}
+
+/**
+ * Flatten the metadata into labelled values
+ */
+function describeMetadata(metadata: ExportMetadata): [string, string][] {
+  const entries: [string, string][] = [
+    ['generated', metadata.generated],
+    ['bbox', metadata.bbox.map((value) => value.toFixed(5)).join(',')],
+    ['elevationSource', metadata.elevationSource],
+    ...Object.entries(metadata.criteria).map(([key, value]): [string, string] => [`criteria.${key}`, String(value)]),
+    ['criteria.gradient', `${getCriteriaGradient(metadata.criteria).toFixed(1)}%`],
+    ['algorithm', metadata.algorithm],
+    ['slopeColors', formatSlopeColors(metadata.slopeColors)],
+    ['gridSize', metadata.gridSize === null ? 'none (slope tiles)' : String(metadata.gridSize)],
+  ];
+  for (const [key, value] of Object.entries(metadata.cliffDetection ?? {})) {
+    entries.push([`cliffDetection.${key}`, typeof value === 'object' ? JSON.stringify(value) : String(value)]);
+  }
+  metadata.attribution.forEach((text, i) => entries.push([`attribution${i + 1}`, text]));
+  return entries;
+}
+
+/**
+ * Mean vertex position of the lines of each cliff
+ */
+function getCliffCentroids(cliffs: GeoJSON.FeatureCollection | null): CliffCentroid[] {
+  const centroids = new Map<string, CliffCentroid & { count: number }>();
+
+  for (const feature of cliffs?.features ?? []) {
+    if (feature.geometry.type !== 'LineString') continue;
+    const cliffId = String(feature.properties?.cliffId ?? '');
+
+    let centroid = centroids.get(cliffId);
+    if (!centroid) {
+      centroid = { cliffId, lng: 0, lat: 0, count: 0, properties: feature.properties };
+      centroids.set(cliffId, centroid);
+    }
+    for (const [lng, lat] of feature.geometry.coordinates) {
+      centroid.lng += lng;
+      centroid.lat += lat;
+      centroid.count++;
+    }
+    // Describe the cliff by its top edge where there is one
+    if (feature.properties?.edge === 'top') centroid.properties = feature.properties;
+  }
+
+  return [...centroids.values()].map(({ cliffId, lng, lat, count, properties }) => ({
+    cliffId,
+    lng: lng / count,
+    lat: lat / count,
+    properties,
+  }));
+}
+
+function escapeXml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeCsv(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * A point for the feature: the middle vertex of lines, the ring centre of polygons
+ */
+function getRepresentativePoint(geometry: GeoJSON.Geometry): GeoJSON.Position | null {
+  switch (geometry.type) {
+    case 'Point':
+      return geometry.coordinates;
+    case 'LineString':
+      return geometry.coordinates[Math.floor(geometry.coordinates.length / 2)] ?? null;
+    case 'Polygon': {
+      const ring = geometry.coordinates[0].slice(0, -1);
+      if (ring.length === 0) return null;
+      return [
+        ring.reduce((sum, [lng]) => sum + lng, 0) / ring.length,
+        ring.reduce((sum, [, lat]) => sum + lat, 0) / ring.length,
+      ];
+    }
+    default:
+      return null;
+  }
+}
+
+function toWkt(geometry: GeoJSON.Geometry): string {
+  const position = ([lng, lat]: GeoJSON.Position) => `${lng} ${lat}`;
+  switch (geometry.type) {
+    case 'Point':
+      return `POINT (${position(geometry.coordinates)})`;
+    case 'LineString':
+      return `LINESTRING (${geometry.coordinates.map(position).join(', ')})`;
+    case 'Polygon':
+      return `POLYGON (${geometry.coordinates.map((ring) => `(${ring.map(position).join(', ')})`).join(', ')})`;
+    default:
+      return '';
+  }
+}
+
+function exportGeoJSON(data: ExportData, metadata: ExportMetadata): string {
+  // Metadata as a foreign member of the collection
+  return JSON.stringify({ type: 'FeatureCollection', metadata, features: getLayeredFeatures(data) }, null, 2);
+}
+
+/**
+ * KML colour (aabbggrr) from a CSS rgba() colour
+ */
+function toKmlColor(color: unknown): string | null {
+  const match = String(color).match(/rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\)/);
+  if (!match) return null;
+  const hex = (value: number) => Math.round(value).toString(16).padStart(2, '0');
+  const [r, g, b] = match.slice(1, 4).map(Number);
+  const a = match[4] === undefined ? 1 : parseFloat(match[4]);
+  return `${hex(a * 255)}${hex(b)}${hex(g)}${hex(r)}`;
+}
+
+function exportKML(data: ExportData, metadata: ExportMetadata): string {
+  const slopeScheme = getSlopeColorScheme(metadata.slopeColors);
+  const extendedData = (entries: [string, unknown][]) =>
+    `<ExtendedData>${entries
+      .map(([name, value]) => `<Data name="${escapeXml(name)}"><value>${escapeXml(value)}</value></Data>`)
+      .join('')}</ExtendedData>`;
+
+  const coordinates = (positions: GeoJSON.Position[]) => positions.map(([lng, lat]) => `${lng},${lat}`).join(' ');
+
+  const placemark = (feature: GeoJSON.Feature, name: string) => {
+    const { geometry } = feature;
+    const properties = Object.entries(feature.properties ?? {});
+    const isMeasurement = feature.properties?.measurementId !== undefined;
+    let shape: string;
+    let style = '';
+
+    if (geometry.type === 'Polygon') {
+      shape = `<Polygon><outerBoundaryIs><LinearRing><coordinates>${coordinates(geometry.coordinates[0])}</coordinates></LinearRing></outerBoundaryIs></Polygon>`;
+      if (isMeasurement) {
+        style = `<Style><LineStyle><color>${MEASUREMENT_KML_COLOR}</color><width>2</width></LineStyle><PolyStyle><color>${MEASUREMENT_KML_FILL}</color></PolyStyle></Style>`;
+      } else {
+        const color = toKmlColor(
+          getSlopeColor(Number(feature.properties?.slope), metadata.criteria.minAngle, slopeScheme)
+        );
+        if (color) style = `<Style><LineStyle><width>0</width></LineStyle><PolyStyle><color>${color}</color></PolyStyle></Style>`;
+      }
+    } else if (geometry.type === 'LineString') {
+      shape = `<LineString><coordinates>${coordinates(geometry.coordinates)}</coordinates></LineString>`;
+      style = isMeasurement
+        ? `<Style><LineStyle><color>${MEASUREMENT_KML_COLOR}</color><width>2</width></LineStyle></Style>`
+        : '<Style><LineStyle><color>ff1c1cb9</color><width>3</width></LineStyle></Style>';
+    } else if (geometry.type === 'Point') {
+      shape = `<Point><coordinates>${coordinates([geometry.coordinates])}</coordinates></Point>`;
+    } else {
+      return '';
+    }
+
+    return `<Placemark><name>${escapeXml(name)}</name>${style}${extendedData(properties)}${shape}</Placemark>`;
+  };
+
+  const folder = (name: string, features: GeoJSON.Feature[], nameOf: (feature: GeoJSON.Feature, i: number) => string) =>
+    features.length > 0
+      ? `<Folder><name>${escapeXml(name)}</name>${features.map((feature, i) => placemark(feature, nameOf(feature, i))).join('\n')}</Folder>`
+      : '';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    '<name>Cliff Finder export</name>',
+    `<description>${escapeXml(metadata.attribution.join('\n'))}</description>`,
+    extendedData(describeMetadata(metadata)),
+    folder('Steep slopes', data.slopes?.features ?? [], (feature) => `${Math.round(Number(feature.properties?.slope))}°`),
+    folder('Cliff lines', data.cliffs?.features ?? [], (feature) => `${feature.properties?.cliffId} (${feature.properties?.edge})`),
+    folder('Measurements', data.measurements?.features ?? [], (feature) => String(feature.properties?.label)),
+    '</Document>',
+    '</kml>',
+  ].join('\n');
+}
+
+function exportGPX(data: ExportData, metadata: ExportMetadata): string {
+  const [west, south, east, north] = metadata.bbox;
+  const description = describeMetadata(metadata)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join('\n');
+
+  const waypoints = getCliffCentroids(data.cliffs).map(({ cliffId, lng, lat, properties }) => {
+    const details = [
+      properties?.maxDrop !== undefined && `drop ${Math.round(Number(properties.maxDrop))} m`,
+      properties?.facing && `facing ${properties.facing}`,
+      properties?.heightAboveSea !== undefined && `${Math.round(Number(properties.heightAboveSea))} m above sea`,
+    ].filter(Boolean);
+    return (
+      `<wpt lat="${lat.toFixed(7)}" lon="${lng.toFixed(7)}">` +
+      `<name>${escapeXml(cliffId)}</name><desc>${escapeXml(details.join(', '))}</desc><type>cliff</type></wpt>`
+    );
+  });
+
+  // Measurements as routes, polygons closed
+  const routes = (data.measurements?.features ?? []).flatMap(({ geometry, properties }) => {
+    const positions =
+      geometry.type === 'LineString' ? geometry.coordinates : geometry.type === 'Polygon' ? geometry.coordinates[0] : null;
+    if (!positions) return [];
+    const points = positions.map(([lng, lat]) => `<rtept lat="${lat.toFixed(7)}" lon="${lng.toFixed(7)}"/>`).join('');
+    return [
+      `<rte><name>${escapeXml(properties?.label)}</name><type>${escapeXml(properties?.kind)}</type>${points}</rte>`,
+    ];
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Cliff Finder" xmlns="http://www.topografix.com/GPX/1/1">',
+    '<metadata>',
+    '<name>Cliff Finder export</name>',
+    `<desc>${escapeXml(description)}</desc>`,
+    `<time>${escapeXml(metadata.generated)}</time>`,
+    `<bounds minlat="${south}" minlon="${west}" maxlat="${north}" maxlon="${east}"/>`,
+    '</metadata>',
+    ...waypoints,
+    ...routes,
+    '</gpx>',
+  ].join('\n');
+}
+
+function exportCSV(data: ExportData, metadata: ExportMetadata): string {
+  const features = getLayeredFeatures(data);
+  const keys = [...new Set(features.flatMap((feature) => Object.keys(feature.properties)))];
+  const columns = ['lng', 'lat', ...keys, 'wkt'];
+
+  // Metadata as leading comment lines
+  const lines = describeMetadata(metadata).map(([key, value]) => `# ${key}: ${value.replace(/\n/g, ' ')}`);
+  lines.push(columns.join(','));
+
+  for (const feature of features) {
+    const point = getRepresentativePoint(feature.geometry);
+    lines.push(
+      [
+        point?.[0].toFixed(7) ?? '',
+        point?.[1].toFixed(7) ?? '',
+        ...keys.map((key) => escapeCsv(feature.properties[key])),
+        escapeCsv(toWkt(feature.geometry)),
+      ].join(',')
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serialize results in an export format
+ */
+export function exportResults(data: ExportData, metadata: ExportMetadata, format: ExportFormat): ExportFile {
+  const { extension, mimeType } = EXPORT_FORMATS.find((f) => f.id === format)!;
+  const exporters: Record<ExportFormat, (data: ExportData, metadata: ExportMetadata) => string> = {
+    geojson: exportGeoJSON,
+    kml: exportKML,
+    gpx: exportGPX,
+    csv: exportCSV,
+  };
+
+  const stamp = metadata.generated.replace(/[:.]/g, '-').slice(0, 19);
+  return {
+    content: exporters[format](data, metadata),
+    filename: `cliff-finder-${stamp}.${extension}`,
+    mimeType,
+  };
+}
+
+/**
+ * Save an export file through the browser
+ */
+export function downloadExport({ content, filename, mimeType }: ExportFile): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
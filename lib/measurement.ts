@@ -0,0 +1,241 @@
+/**
+ * Measurements drawn on the map: ground distance, polygon area and the vertical
+ * drop between two points
+ *
+ * Elevations are sampled from the decoded elevation tiles of the slope protocol,
+ * like the elevation profile, so surface lengths and drops agree with it.
+ */
+
+import { getLineLength, sampleElevationProfile, type ProfilePoint } from './elevation-profile';
+import { getTerrainSource } from './dem-sources';
+import { sampleElevations, type SlopeTileDem } from './slope-protocol';
+import { calculateSlopeAngle, haversineDistance, initialBearing } from './slope-utils';
+
+const EARTH_RADIUS = 6371000; // meters, as in haversineDistance
+
+export type MeasurementKind = 'distance' | 'area' | 'drop';
+
+export const MEASUREMENT_KINDS: {
+  id: MeasurementKind;
+  name: string;
+  description: string;
+  minPoints: number;
+  maxPoints: number;
+}[] = [
+  {
+    id: 'distance',
+    name: 'Distance',
+    description: 'Map and surface length along a line',
+    minPoints: 2,
+    maxPoints: Infinity,
+  },
+  { id: 'area', name: 'Area', description: 'Area and perimeter of a polygon', minPoints: 3, maxPoints: Infinity },
+  {
+    id: 'drop',
+    name: 'Drop',
+    description: 'Height difference, gradient and angle between two points',
+    minPoints: 2,
+    maxPoints: 2,
+  },
+];
+
+export type MeasurementResult =
+  | {
+      kind: 'distance';
+      length: number; // meters on the map (haversine)
+      surfaceLength: number | null; // meters along the terrain, null without elevations
+      ascent: number; // meters
+      descent: number;
+    }
+  | {
+      kind: 'area';
+      area: number; // square meters on the map
+      perimeter: number; // meters
+    }
+  | {
+      kind: 'drop';
+      fromElevation: number | null; // meters at the first point
+      toElevation: number | null; // meters at the second point
+      heightDifference: number | null; // meters, negative when the second point is lower
+      distance: number; // horizontal meters
+      gradient: number | null; // percent, signed like heightDifference
+      angle: number | null; // degrees, unsigned
+      bearing: number; // degrees clockwise from north, from the first point to the second
+    };
+
+export interface Measurement {
+  id: string;
+  kind: MeasurementKind;
+  positions: [number, number][]; // [lng, lat] vertices, the polygon ring not closed
+  dem: SlopeTileDem; // source of the elevations
+  result: MeasurementResult | null; // null while sampling
+}
+
+/**
+ * Area of a polygon ring on the sphere in square meters (spherical excess)
+ * @param ring - [lng, lat] vertices, closed or not
+ */
+export function getPolygonArea(ring: [number, number][]): number {
+  if (ring.length < 3) return 0;
+  const radians = Math.PI / 180;
+
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [lng1, lat1] = ring[i];
+    const [lng2, lat2] = ring[(i + 1) % ring.length];
+    sum += (lng2 - lng1) * radians * (2 + Math.sin(lat1 * radians) + Math.sin(lat2 * radians));
+  }
+  return Math.abs((sum * EARTH_RADIUS * EARTH_RADIUS) / 2);
+}
+
+/**
+ * Length along the terrain of sampled profile points, the map length where elevations are missing
+ * @returns Meters, null when no point has an elevation
+ */
+export function getSurfaceLength(points: ProfilePoint[]): number | null {
+  if (!points.some(({ elevation }) => elevation !== null)) return null;
+
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    const run = points[i].distance - points[i - 1].distance;
+    const [from, to] = [points[i - 1].elevation, points[i].elevation];
+    length += from === null || to === null ? run : Math.hypot(run, to - from);
+  }
+  return length;
+}
+
+/**
+ * Measure drawn vertices
+ * @param positions - [lng, lat] vertices, at least the minimum points of the kind
+ */
+export async function measure(
+  kind: MeasurementKind,
+  positions: [number, number][],
+  dem: SlopeTileDem = 'terrarium'
+): Promise<MeasurementResult> {
+  if (kind === 'area') {
+    return {
+      kind,
+      area: getPolygonArea(positions),
+      perimeter: getLineLength([...positions, positions[0]]),
+    };
+  }
+
+  if (kind === 'distance') {
+    const profile = await sampleElevationProfile(positions, { dem });
+    return {
+      kind,
+      length: getLineLength(positions),
+      surfaceLength: getSurfaceLength(profile.points),
+      ascent: profile.ascent,
+      descent: profile.descent,
+    };
+  }
+
+  // Both points from the most detailed tiles, like the elevation readout
+  const [[lng1, lat1], [lng2, lat2]] = positions;
+  const [fromElevation, toElevation] = await sampleElevations(
+    [
+      { lng: lng1, lat: lat1 },
+      { lng: lng2, lat: lat2 },
+    ],
+    getTerrainSource().maxzoom,
+    dem
+  );
+  const distance = haversineDistance(lat1, lng1, lat2, lng2);
+  const heightDifference = fromElevation !== null && toElevation !== null ? toElevation - fromElevation : null;
+
+  return {
+    kind,
+    fromElevation,
+    toElevation,
+    heightDifference,
+    distance,
+    gradient: heightDifference !== null && distance > 0 ? (heightDifference / distance) * 100 : null,
+    angle: heightDifference !== null ? calculateSlopeAngle(heightDifference, distance) : null,
+    bearing: initialBearing(lat1, lng1, lat2, lng2),
+  };
+}
+
+export function formatLength(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(meters < 10000 ? 2 : 1)} km`;
+}
+
+export function formatArea(squareMeters: number): string {
+  if (squareMeters < 10000) return `${Math.round(squareMeters)} m²`;
+  if (squareMeters < 1000000) return `${(squareMeters / 10000).toFixed(2)} ha`;
+  return `${(squareMeters / 1000000).toFixed(2)} km²`;
+}
+
+/**
+ * One-line description of a measurement for its label on the map
+ */
+export function getMeasurementLabel({ result }: Measurement): string {
+  if (!result) return 'Measuring...';
+
+  switch (result.kind) {
+    case 'distance':
+      return result.surfaceLength === null
+        ? formatLength(result.length)
+        : `${formatLength(result.length)} (${formatLength(result.surfaceLength)} surface)`;
+    case 'area':
+      return `${formatArea(result.area)}, perimeter ${formatLength(result.perimeter)}`;
+    case 'drop':
+      if (result.heightDifference === null || result.gradient === null || result.angle === null) {
+        return `${formatLength(result.distance)}, no elevation data`;
+      }
+      return (
+        `${result.heightDifference > 0 ? '+' : ''}${Math.round(result.heightDifference)} m over ` +
+        `${formatLength(result.distance)}, ${Math.round(result.gradient)}% (${result.angle.toFixed(1)}°)`
+      );
+  }
+}
+
+/**
+ * Where the label of a measurement is placed: the last vertex of lines, the centre of polygons
+ */
+export function getMeasurementLabelPosition({ kind, positions }: Measurement): [number, number] {
+  if (kind !== 'area') return positions[positions.length - 1];
+  return [
+    positions.reduce((sum, [lng]) => sum + lng, 0) / positions.length,
+    positions.reduce((sum, [, lat]) => sum + lat, 0) / positions.length,
+  ];
+}
+
+/**
+ * Measurements as features with their results, lines for distances and drops,
+ * closed polygons for areas
+ * @param options.vertices - Add a point per vertex (for the map)
+ */
+export function measurementsToGeoJSON(
+  measurements: Measurement[],
+  { vertices = false }: { vertices?: boolean } = {}
+): GeoJSON.FeatureCollection {
+  const features = measurements.flatMap((measurement): GeoJSON.Feature[] => {
+    const { id, kind, positions, dem, result } = measurement;
+    const properties = {
+      measurementId: id,
+      kind,
+      label: getMeasurementLabel(measurement),
+      dem,
+      ...(result && Object.fromEntries(Object.entries(result).filter(([key]) => key !== 'kind'))),
+    };
+    const geometry: GeoJSON.Geometry =
+      kind === 'area'
+        ? { type: 'Polygon', coordinates: [[...positions, positions[0]]] }
+        : { type: 'LineString', coordinates: positions };
+
+    return [
+      { type: 'Feature', properties, geometry },
+      ...(vertices
+        ? positions.map((position): GeoJSON.Feature => ({
+            type: 'Feature',
+            properties: { measurementId: id, kind },
+            geometry: { type: 'Point', coordinates: position },
+          }))
+        : []),
+    ];
+  });
+
+  return { type: 'FeatureCollection', features };
+}
@@ -0,0 +1,345 @@
+/**
+ * Mapbox Vector Tile encoding (MVT 2.1) for precomputed cliff tiles
+ *
+ * GeoJSON features are projected into the tile grid, clipped to the tile plus a
+ * buffer and written as protobuf. Only the geometry types of the scanner output
+ * are handled: points, lines and simple polygons (no holes).
+ */
+
+export const MVT_EXTENT = 4096;
+
+type MvtValue = string | number | boolean;
+
+export interface MvtFeature {
+  type: 1 | 2 | 3; // point, line, polygon
+  geometry: [number, number][][]; // tile coordinates: one part per point, line or ring
+  properties: Record<string, MvtValue>;
+}
+
+export interface MvtLayer {
+  name: string;
+  features: MvtFeature[];
+}
+
+/**
+ * Minimal protobuf writer (varints and length-delimited fields)
+ */
+class ProtobufWriter {
+  private bytes: number[] = [];
+
+  varint(value: number): void {
+    // Numbers beyond 32 bits are split without bitwise operators
+    let rest = value;
+    while (rest >= 0x80) {
+      this.bytes.push((rest % 0x80) | 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    this.bytes.push(rest);
+  }
+
+  tag(field: number, wireType: 0 | 1 | 2): void {
+    this.varint((field << 3) | wireType);
+  }
+
+  uint(field: number, value: number): void {
+    this.tag(field, 0);
+    this.varint(value);
+  }
+
+  bytesField(field: number, data: Uint8Array | number[]): void {
+    this.tag(field, 2);
+    this.varint(data.length);
+    for (const byte of data) this.bytes.push(byte);
+  }
+
+  string(field: number, value: string): void {
+    this.bytesField(field, new TextEncoder().encode(value));
+  }
+
+  double(field: number, value: number): void {
+    this.tag(field, 1);
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value, true);
+    for (let i = 0; i < 8; i++) this.bytes.push(view.getUint8(i));
+  }
+
+  packed(field: number, values: number[]): void {
+    const inner = new ProtobufWriter();
+    for (const value of values) inner.varint(value);
+    this.bytesField(field, inner.bytes);
+  }
+
+  message(field: number, write: (writer: ProtobufWriter) => void): void {
+    const inner = new ProtobufWriter();
+    write(inner);
+    this.bytesField(field, inner.bytes);
+  }
+
+  finish(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+const zigzag = (n: number) => (n << 1) ^ (n >> 31);
+
+const command = (id: 1 | 2 | 7, count: number) => (id & 0x7) | (count << 3);
+
+/**
+ * Command stream of a feature: MoveTo, LineTo and ClosePath with zigzag deltas
+ */
+function encodeGeometry({ type, geometry }: MvtFeature): number[] {
+  const commands: number[] = [];
+  let x = 0;
+  let y = 0;
+
+  const moveTo = ([px, py]: [number, number]) => {
+    commands.push(zigzag(px - x), zigzag(py - y));
+    x = px;
+    y = py;
+  };
+
+  if (type === 1) {
+    commands.push(command(1, geometry.length));
+    for (const [point] of geometry) moveTo(point);
+    return commands;
+  }
+
+  for (const part of geometry) {
+    // Rings are written without their closing point, ClosePath returns to the start
+    const points = type === 3 ? part.slice(0, -1) : part;
+    commands.push(command(1, 1));
+    moveTo(points[0]);
+    commands.push(command(2, points.length - 1));
+    for (const point of points.slice(1)) moveTo(point);
+    if (type === 3) commands.push(command(7, 1));
+  }
+  return commands;
+}
+
+/**
+ * Encode layers into a vector tile
+ * Keys and values are shared between the features of a layer
+ */
+export function encodeMvt(layers: MvtLayer[]): Uint8Array {
+  const tile = new ProtobufWriter();
+
+  for (const layer of layers) {
+    if (layer.features.length === 0) continue;
+
+    const keys = new Map<string, number>();
+    const values = new Map<string, { value: MvtValue; index: number }>();
+    const index = <T>(map: Map<string, T>, key: string, create: (index: number) => T) => {
+      if (!map.has(key)) map.set(key, create(map.size));
+      return map.get(key)!;
+    };
+
+    tile.message(3, (writer) => {
+      writer.uint(15, 2);
+      writer.string(1, layer.name);
+
+      for (const feature of layer.features) {
+        const tags: number[] = [];
+        for (const [key, value] of Object.entries(feature.properties)) {
+          if (value === null || value === undefined || (typeof value === 'number' && !Number.isFinite(value))) continue;
+          tags.push(index(keys, key, (i) => i));
+          tags.push(index(values, `${typeof value}:${value}`, (i) => ({ value, index: i })).index);
+        }
+
+        writer.message(2, (featureWriter) => {
+          featureWriter.packed(2, tags);
+          featureWriter.uint(3, feature.type);
+          featureWriter.packed(4, encodeGeometry(feature));
+        });
+      }
+
+      for (const key of keys.keys()) writer.string(3, key);
+      for (const { value } of values.values()) {
+        writer.message(4, (valueWriter) => {
+          if (typeof value === 'string') valueWriter.string(1, value);
+          else if (typeof value === 'boolean') valueWriter.uint(7, value ? 1 : 0);
+          else if (Number.isInteger(value) && value >= 0) valueWriter.uint(5, value);
+          else if (Number.isInteger(value) && value >= -(2 ** 31)) valueWriter.uint(6, zigzag(value));
+          else valueWriter.double(3, value);
+        });
+      }
+      writer.uint(5, MVT_EXTENT);
+    });
+  }
+
+  return tile.finish();
+}
+
+/**
+ * Web Mercator position of a point in world tile units at a zoom
+ */
+function project([lng, lat]: GeoJSON.Position, z: number): [number, number] {
+  const scale = 2 ** z;
+  const sin = Math.sin((Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180);
+  return [((lng + 180) / 360) * scale, (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale];
+}
+
+/**
+ * Tiles a bbox covers at a zoom
+ */
+export function getTileRange(
+  [west, south, east, north]: [number, number, number, number],
+  z: number
+): { minX: number; minY: number; maxX: number; maxY: number } {
+  const max = 2 ** z - 1;
+  const [x0, y0] = project([west, north], z);
+  const [x1, y1] = project([east, south], z);
+  return {
+    minX: Math.max(0, Math.floor(x0)),
+    minY: Math.max(0, Math.floor(y0)),
+    maxX: Math.min(max, Math.floor(x1)),
+    maxY: Math.min(max, Math.floor(y1)),
+  };
+}
+
+type Box = [number, number, number, number]; // minX, minY, maxX, maxY in tile coordinates
+
+const inside = ([x, y]: [number, number], [minX, minY, maxX, maxY]: Box) =>
+  x >= minX && x <= maxX && y >= minY && y <= maxY;
+
+/**
+ * Clip a line to a box (Liang-Barsky per segment), splitting it where it leaves
+ */
+function clipLine(points: [number, number][], box: Box): [number, number][][] {
+  const [minX, minY, maxX, maxY] = box;
+  const parts: [number, number][][] = [];
+  let current: [number, number][] = [];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const [x0, y0] = points[i];
+    const [x1, y1] = points[i + 1];
+    const dx = x1 - x0;
+    const dy = y1 - y0;
+    let t0 = 0;
+    let t1 = 1;
+    let visible = true;
+
+    for (const [p, q] of [[-dx, x0 - minX], [dx, maxX - x0], [-dy, y0 - minY], [dy, maxY - y0]]) {
+      if (p === 0) {
+        if (q < 0) visible = false;
+      } else if (p < 0) {
+        t0 = Math.max(t0, q / p);
+      } else {
+        t1 = Math.min(t1, q / p);
+      }
+    }
+
+    if (!visible || t0 > t1) {
+      if (current.length > 1) parts.push(current);
+      current = [];
+      continue;
+    }
+
+    const start: [number, number] = [x0 + t0 * dx, y0 + t0 * dy];
+    const end: [number, number] = [x0 + t1 * dx, y0 + t1 * dy];
+    if (current.length === 0) current.push(start);
+    current.push(end);
+    if (t1 < 1) {
+      parts.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 1) parts.push(current);
+  return parts;
+}
+
+/**
+ * Clip a ring to a box (Sutherland-Hodgman), returning a closed ring
+ */
+function clipRing(ring: [number, number][], box: Box): [number, number][] {
+  let points = ring.slice(0, -1);
+  const edges: [(p: [number, number]) => boolean, (a: [number, number], b: [number, number]) => [number, number]][] = [
+    [([x]) => x >= box[0], (a, b) => [box[0], a[1] + ((box[0] - a[0]) * (b[1] - a[1])) / (b[0] - a[0])]],
+    [([x]) => x <= box[2], (a, b) => [box[2], a[1] + ((box[2] - a[0]) * (b[1] - a[1])) / (b[0] - a[0])]],
+    [([, y]) => y >= box[1], (a, b) => [a[0] + ((box[1] - a[1]) * (b[0] - a[0])) / (b[1] - a[1]), box[1]]],
+    [([, y]) => y <= box[3], (a, b) => [a[0] + ((box[3] - a[1]) * (b[0] - a[0])) / (b[1] - a[1]), box[3]]],
+  ];
+
+  for (const [isInside, intersect] of edges) {
+    const clipped: [number, number][] = [];
+    for (let i = 0; i < points.length; i++) {
+      const current = points[i];
+      const previous = points[(i + points.length - 1) % points.length];
+      if (isInside(current)) {
+        if (!isInside(previous)) clipped.push(intersect(previous, current));
+        clipped.push(current);
+      } else if (isInside(previous)) {
+        clipped.push(intersect(previous, current));
+      }
+    }
+    points = clipped;
+    if (points.length === 0) return [];
+  }
+  return [...points, points[0]];
+}
+
+/**
+ * Round to the tile grid, dropping repeated points
+ */
+function snap(points: [number, number][]): [number, number][] {
+  const snapped: [number, number][] = [];
+  for (const [x, y] of points) {
+    const point: [number, number] = [Math.round(x), Math.round(y)];
+    const last = snapped[snapped.length - 1];
+    if (!last || last[0] !== point[0] || last[1] !== point[1]) snapped.push(point);
+  }
+  return snapped;
+}
+
+/**
+ * Twice the signed area, positive for exterior rings in MVT (y down) orientation
+ */
+function ringArea(ring: [number, number][]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area;
+}
+
+/**
+ * Project a GeoJSON feature into tile z/x/y, clipped to the tile and a buffer
+ * @param buffer - Tile units kept around the tile, so lines and fills join across tiles
+ * @returns null when nothing of the feature is left in the tile
+ */
+export function toMvtFeature(
+  feature: GeoJSON.Feature,
+  z: number,
+  x: number,
+  y: number,
+  properties: Record<string, MvtValue>,
+  buffer: number = 64
+): MvtFeature | null {
+  const box: Box = [-buffer, -buffer, MVT_EXTENT + buffer, MVT_EXTENT + buffer];
+  const toTile = (position: GeoJSON.Position): [number, number] => {
+    const [px, py] = project(position, z);
+    return [(px - x) * MVT_EXTENT, (py - y) * MVT_EXTENT];
+  };
+  const { geometry } = feature;
+
+  if (geometry.type === 'Point') {
+    const point = toTile(geometry.coordinates);
+    return inside(point, box) ? { type: 1, geometry: [snap([point])], properties } : null;
+  }
+
+  if (geometry.type === 'LineString') {
+    const parts = clipLine(geometry.coordinates.map(toTile), box)
+      .map(snap)
+      .filter((part) => part.length > 1);
+    return parts.length > 0 ? { type: 2, geometry: parts, properties } : null;
+  }
+
+  if (geometry.type === 'Polygon') {
+    const ring = snap(clipRing(geometry.coordinates[0].map(toTile), box));
+    if (ring.length < 4) return null;
+    const area = ringArea(ring);
+    if (area === 0) return null;
+    return { type: 3, geometry: [area > 0 ? ring : ring.reverse()], properties };
+  }
+
+  return null;
+}
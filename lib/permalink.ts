@@ -0,0 +1,132 @@
+/**
+ * Map and analysis state in the URL hash, for shareable links and browser history
+ *
+ * Format: #map=zoom/lat/lng/bearing/pitch&layers=slopes,cliffs&slope=15&algorithm=horn&render=tiles&dem=copernicus&coastal=1&facing=N,NE
+ * The cliff criteria other than the angle (eval=, drop=, extent=) and the slope colours (colors=avalanche,
+ * see lib/slope-colors) are only written when not the defaults.
+ */
+
+import { DEFAULT_CLIFF_CRITERIA, parseCriteriaParams, type CliffCriteria } from './cliff-criteria';
+import { COMPASS_DIRECTIONS, type CompassDirection } from './cliff-detector';
+import { SLOPE_ALGORITHMS, type SlopeAlgorithm } from './slope-utils';
+import { DEFAULT_SLOPE_COLORS, formatSlopeColors, parseSlopeColors, type SlopeColors } from './slope-colors';
+import type { SlopeTileDem } from './slope-protocol';
+
+export interface MapView {
+  center: [number, number]; // [lng, lat]
+  zoom: number;
+  bearing: number;
+  pitch: number;
+}
+
+export interface PermalinkState {
+  view: MapView;
+  showCliffs: boolean; // slope layer
+  showCliffLines: boolean;
+  criteria: CliffCriteria;
+  algorithm: SlopeAlgorithm;
+  slopeColors: SlopeColors;
+  renderMode: 'tiles' | 'grid';
+  elevationSource: SlopeTileDem;
+  coastalMode: boolean;
+  facing: CompassDirection[]; // empty = all directions
+}
+
+const LAYERS = { slopes: 'showCliffs', cliffs: 'showCliffLines' } as const;
+
+// Hash parameter of each cliff criterion
+const CRITERIA_PARAMS: Record<keyof CliffCriteria, string> = {
+  minAngle: 'slope',
+  evaluationDistance: 'eval',
+  minDrop: 'drop',
+  minExtent: 'extent',
+};
+
+/**
+ * Hash (without '#') for a state
+ * Rounded so that a restored view formats to the same hash
+ */
+export function formatPermalink(state: PermalinkState): string {
+  const { center, zoom, bearing, pitch } = state.view;
+  const view = [zoom.toFixed(2), center[1].toFixed(5), center[0].toFixed(5), bearing.toFixed(1), pitch.toFixed(1)];
+
+  const layers = Object.entries(LAYERS)
+    .filter(([, key]) => state[key])
+    .map(([name]) => name);
+
+  const params = [
+    `map=${view.join('/')}`,
+    `layers=${layers.join(',')}`,
+    `slope=${state.criteria.minAngle}`,
+    `algorithm=${state.algorithm}`,
+    `render=${state.renderMode}`,
+    `dem=${state.elevationSource}`,
+  ];
+  for (const key of ['evaluationDistance', 'minDrop', 'minExtent'] as const) {
+    if (state.criteria[key] !== DEFAULT_CLIFF_CRITERIA[key]) {
+      params.push(`${CRITERIA_PARAMS[key]}=${state.criteria[key]}`);
+    }
+  }
+  if (state.slopeColors.scheme !== DEFAULT_SLOPE_COLORS.scheme) {
+    params.push(`colors=${formatSlopeColors(state.slopeColors)}`);
+  }
+  if (state.coastalMode) params.push('coastal=1');
+  if (state.facing.length > 0) params.push(`facing=${state.facing.join(',')}`);
+  return params.join('&');
+}
+
+function parseView(value: string | null): MapView | undefined {
+  const parts = value?.split('/').map(Number);
+  if (!parts || parts.length !== 5 || parts.some((part) => !Number.isFinite(part))) return undefined;
+
+  const [zoom, lat, lng, bearing, pitch] = parts;
+  if (zoom < 0 || zoom > 24 || lat < -90 || lat > 90 || lng < -180 || lng > 180) return undefined;
+  return { center: [lng, lat], zoom, bearing, pitch: Math.min(85, Math.max(0, pitch)) };
+}
+
+/**
+ * State from a hash, leaving out missing and invalid entries
+ */
+export function parsePermalink(hash: string): Partial<PermalinkState> {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const state: Partial<PermalinkState> = {};
+
+  const view = parseView(params.get('map'));
+  if (view) state.view = view;
+
+  const layers = params.get('layers');
+  if (layers !== null) {
+    const names = layers.split(',');
+    for (const [name, key] of Object.entries(LAYERS)) {
+      state[key] = names.includes(name);
+    }
+  }
+
+  if (Object.values(CRITERIA_PARAMS).some((name) => params.has(name))) {
+    const criteria = parseCriteriaParams((key) => params.get(CRITERIA_PARAMS[key]));
+    if (criteria) state.criteria = criteria;
+  }
+
+  const algorithm = params.get('algorithm');
+  if (SLOPE_ALGORITHMS.some(({ id }) => id === algorithm)) {
+    state.algorithm = algorithm as SlopeAlgorithm;
+  }
+
+  const slopeColors = parseSlopeColors(params.get('colors'));
+  if (slopeColors) state.slopeColors = slopeColors;
+
+  const render = params.get('render');
+  if (render === 'tiles' || render === 'grid') state.renderMode = render;
+
+  const dem = params.get('dem');
+  if (dem === 'terrarium' || dem === 'copernicus') state.elevationSource = dem;
+
+  if (params.has('coastal')) state.coastalMode = params.get('coastal') === '1';
+
+  if (params.has('facing')) {
+    const facing = (params.get('facing') ?? '').toUpperCase().split(',');
+    state.facing = COMPASS_DIRECTIONS.filter((direction) => facing.includes(direction));
+  }
+
+  return state;
+}
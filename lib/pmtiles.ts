@@ -0,0 +1,353 @@
+/**
+ * PMTiles v3 archives: writing from a set of tiles and reading by byte ranges
+ *
+ * A PMTiles file holds a fixed 127-byte header, a root directory, JSON metadata,
+ * optional leaf directories and the tile data. Directories map Hilbert-curve tile
+ * IDs to byte ranges, so a tile is found with two or three range reads.
+ * Specification: https://github.com/protomaps/PMTiles/blob/main/spec/v3/spec.md
+ */
+
+import { createHash } from 'node:crypto';
+import { gunzipSync, gzipSync } from 'node:zlib';
+
+export const PMTILES_HEADER_BYTES = 127;
+
+// Root directory size limit of the spec, so header and root fit in one 16 KiB read
+const ROOT_DIRECTORY_MAX_BYTES = 16384 - PMTILES_HEADER_BYTES;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_GZIP = 2;
+const TILE_TYPE_MVT = 1;
+
+export interface PmtilesHeader {
+  rootDirectoryOffset: number;
+  rootDirectoryLength: number;
+  metadataOffset: number;
+  metadataLength: number;
+  leafDirectoryOffset: number;
+  leafDirectoryLength: number;
+  tileDataOffset: number;
+  tileDataLength: number;
+  addressedTiles: number;
+  tileEntries: number;
+  tileContents: number;
+  clustered: boolean;
+  internalCompression: number;
+  tileCompression: number;
+  tileType: number;
+  minZoom: number;
+  maxZoom: number;
+  bounds: [number, number, number, number]; // [west, south, east, north]
+  center: [number, number, number]; // [lng, lat, zoom]
+}
+
+interface DirectoryEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number; // 0 = the entry points at a leaf directory
+}
+
+/**
+ * Position of a tile on the Hilbert curve of its zoom, after all tiles of lower zooms
+ */
+export function zxyToTileId(z: number, x: number, y: number): number {
+  if (z > 26) throw new Error('Tile zoom exceeds 26');
+  const n = 2 ** z;
+  if (x < 0 || y < 0 || x >= n || y >= n) throw new Error(`Tile ${z}/${x}/${y} is outside the zoom level`);
+
+  let tileId = (4 ** z - 1) / 3;
+  let tx = x;
+  let ty = y;
+  for (let s = n / 2; s >= 1; s /= 2) {
+    const rx = (tx & s) > 0 ? 1 : 0;
+    const ry = (ty & s) > 0 ? 1 : 0;
+    tileId += s * s * ((3 * rx) ^ ry);
+    if (ry === 0) {
+      if (rx === 1) {
+        tx = s - 1 - tx;
+        ty = s - 1 - ty;
+      }
+      [tx, ty] = [ty, tx];
+    }
+  }
+  return tileId;
+}
+
+function writeVarint(bytes: number[], value: number): void {
+  let rest = value;
+  while (rest >= 0x80) {
+    bytes.push((rest % 0x80) | 0x80);
+    rest = Math.floor(rest / 0x80);
+  }
+  bytes.push(rest);
+}
+
+function serializeDirectory(entries: DirectoryEntry[]): Buffer {
+  const bytes: number[] = [];
+  writeVarint(bytes, entries.length);
+
+  let lastId = 0;
+  for (const { tileId } of entries) {
+    writeVarint(bytes, tileId - lastId);
+    lastId = tileId;
+  }
+  for (const { runLength } of entries) writeVarint(bytes, runLength);
+  for (const { length } of entries) writeVarint(bytes, length);
+  entries.forEach(({ offset }, i) => {
+    // 0 = directly after the previous entry
+    const previous = entries[i - 1];
+    writeVarint(bytes, previous && offset === previous.offset + previous.length ? 0 : offset + 1);
+  });
+
+  return gzipSync(Buffer.from(bytes));
+}
+
+function deserializeDirectory(bytes: Buffer): DirectoryEntry[] {
+  let position = 0;
+  const readVarint = () => {
+    let value = 0;
+    let factor = 1;
+    let byte: number;
+    do {
+      byte = bytes[position++];
+      value += (byte & 0x7f) * factor;
+      factor *= 0x80;
+    } while (byte & 0x80);
+    return value;
+  };
+
+  const count = readVarint();
+  const entries: DirectoryEntry[] = [];
+  let lastId = 0;
+  for (let i = 0; i < count; i++) {
+    lastId += readVarint();
+    entries.push({ tileId: lastId, offset: 0, length: 0, runLength: 0 });
+  }
+  for (const entry of entries) entry.runLength = readVarint();
+  for (const entry of entries) entry.length = readVarint();
+  entries.forEach((entry, i) => {
+    const value = readVarint();
+    entry.offset = value === 0 && i > 0 ? entries[i - 1].offset + entries[i - 1].length : value - 1;
+  });
+  return entries;
+}
+
+/**
+ * Root directory, split into leaf directories when all entries do not fit
+ */
+function buildDirectories(entries: DirectoryEntry[]): { root: Buffer; leaves: Buffer } {
+  const root = serializeDirectory(entries);
+  if (root.length <= ROOT_DIRECTORY_MAX_BYTES) return { root, leaves: Buffer.alloc(0) };
+
+  for (let leafSize = 4096; ; leafSize *= 2) {
+    const rootEntries: DirectoryEntry[] = [];
+    const leaves: Buffer[] = [];
+    let offset = 0;
+    for (let i = 0; i < entries.length; i += leafSize) {
+      const leaf = serializeDirectory(entries.slice(i, i + leafSize));
+      rootEntries.push({ tileId: entries[i].tileId, offset, length: leaf.length, runLength: 0 });
+      leaves.push(leaf);
+      offset += leaf.length;
+    }
+    const leafRoot = serializeDirectory(rootEntries);
+    if (leafRoot.length <= ROOT_DIRECTORY_MAX_BYTES) return { root: leafRoot, leaves: Buffer.concat(leaves) };
+  }
+}
+
+function writeHeader(header: PmtilesHeader): Buffer {
+  const buffer = Buffer.alloc(PMTILES_HEADER_BYTES);
+  buffer.write('PMTiles', 0, 'ascii');
+  buffer.writeUInt8(3, 7);
+  const offsets = [
+    header.rootDirectoryOffset, header.rootDirectoryLength,
+    header.metadataOffset, header.metadataLength,
+    header.leafDirectoryOffset, header.leafDirectoryLength,
+    header.tileDataOffset, header.tileDataLength,
+    header.addressedTiles, header.tileEntries, header.tileContents,
+  ];
+  offsets.forEach((value, i) => buffer.writeBigUInt64LE(BigInt(value), 8 + i * 8));
+  buffer.writeUInt8(header.clustered ? 1 : 0, 96);
+  buffer.writeUInt8(header.internalCompression, 97);
+  buffer.writeUInt8(header.tileCompression, 98);
+  buffer.writeUInt8(header.tileType, 99);
+  buffer.writeUInt8(header.minZoom, 100);
+  buffer.writeUInt8(header.maxZoom, 101);
+  header.bounds.forEach((value, i) => buffer.writeInt32LE(Math.round(value * 1e7), 102 + i * 4));
+  buffer.writeUInt8(header.center[2], 118);
+  buffer.writeInt32LE(Math.round(header.center[0] * 1e7), 119);
+  buffer.writeInt32LE(Math.round(header.center[1] * 1e7), 123);
+  return buffer;
+}
+
+function parseHeader(buffer: Buffer): PmtilesHeader {
+  if (buffer.length < PMTILES_HEADER_BYTES || buffer.toString('ascii', 0, 7) !== 'PMTiles') {
+    throw new Error('Not a PMTiles archive');
+  }
+  if (buffer.readUInt8(7) !== 3) {
+    throw new Error(`Unsupported PMTiles version ${buffer.readUInt8(7)}`);
+  }
+  const read = (i: number) => Number(buffer.readBigUInt64LE(8 + i * 8));
+  return {
+    rootDirectoryOffset: read(0),
+    rootDirectoryLength: read(1),
+    metadataOffset: read(2),
+    metadataLength: read(3),
+    leafDirectoryOffset: read(4),
+    leafDirectoryLength: read(5),
+    tileDataOffset: read(6),
+    tileDataLength: read(7),
+    addressedTiles: read(8),
+    tileEntries: read(9),
+    tileContents: read(10),
+    clustered: buffer.readUInt8(96) === 1,
+    internalCompression: buffer.readUInt8(97),
+    tileCompression: buffer.readUInt8(98),
+    tileType: buffer.readUInt8(99),
+    minZoom: buffer.readUInt8(100),
+    maxZoom: buffer.readUInt8(101),
+    bounds: [0, 1, 2, 3].map((i) => buffer.readInt32LE(102 + i * 4) / 1e7) as [number, number, number, number],
+    center: [buffer.readInt32LE(119) / 1e7, buffer.readInt32LE(123) / 1e7, buffer.readUInt8(118)],
+  };
+}
+
+/**
+ * Write vector tiles into a PMTiles archive
+ * Tiles are gzipped; identical tiles are stored once
+ *
+ * @param tiles - Encoded MVT tiles by z/x/y
+ * @param metadata - TileJSON-like metadata (vector_layers, attribution...)
+ * @returns The archive bytes
+ */
+export function writePmtiles(
+  tiles: { z: number; x: number; y: number; data: Uint8Array }[],
+  metadata: Record<string, unknown>,
+  { bounds, center }: { bounds: [number, number, number, number]; center: [number, number, number] }
+): Buffer {
+  const sorted = tiles
+    .map((tile) => ({ ...tile, tileId: zxyToTileId(tile.z, tile.x, tile.y) }))
+    .sort((a, b) => a.tileId - b.tileId);
+
+  const entries: DirectoryEntry[] = [];
+  const contents = new Map<string, { offset: number; length: number }>();
+  const chunks: Buffer[] = [];
+  let dataLength = 0;
+
+  for (const { tileId, data } of sorted) {
+    const compressed = gzipSync(data);
+    const hash = createHash('sha256').update(compressed).digest('hex');
+    let content = contents.get(hash);
+    if (!content) {
+      content = { offset: dataLength, length: compressed.length };
+      contents.set(hash, content);
+      chunks.push(compressed);
+      dataLength += compressed.length;
+    }
+
+    // Runs of consecutive tiles with the same content share an entry
+    const last = entries[entries.length - 1];
+    if (last && last.offset === content.offset && last.tileId + last.runLength === tileId) {
+      last.runLength++;
+    } else {
+      entries.push({ tileId, offset: content.offset, length: content.length, runLength: 1 });
+    }
+  }
+
+  const { root, leaves } = buildDirectories(entries);
+  const metadataBytes = gzipSync(Buffer.from(JSON.stringify(metadata)));
+  const zooms = sorted.map(({ z }) => z);
+
+  const header = writeHeader({
+    rootDirectoryOffset: PMTILES_HEADER_BYTES,
+    rootDirectoryLength: root.length,
+    metadataOffset: PMTILES_HEADER_BYTES + root.length,
+    metadataLength: metadataBytes.length,
+    leafDirectoryOffset: PMTILES_HEADER_BYTES + root.length + metadataBytes.length,
+    leafDirectoryLength: leaves.length,
+    tileDataOffset: PMTILES_HEADER_BYTES + root.length + metadataBytes.length + leaves.length,
+    tileDataLength: dataLength,
+    addressedTiles: sorted.length,
+    tileEntries: entries.length,
+    tileContents: contents.size,
+    clustered: true,
+    internalCompression: COMPRESSION_GZIP,
+    tileCompression: COMPRESSION_GZIP,
+    tileType: TILE_TYPE_MVT,
+    minZoom: zooms.length ? Math.min(...zooms) : 0,
+    maxZoom: zooms.length ? Math.max(...zooms) : 0,
+    bounds,
+    center,
+  });
+
+  return Buffer.concat([header, root, metadataBytes, leaves, ...chunks]);
+}
+
+/**
+ * Byte range reader of an archive (a local file or an HTTP server)
+ */
+export type RangeReader = (offset: number, length: number) => Promise<Buffer>;
+
+export interface PmtilesArchive {
+  header: PmtilesHeader;
+  metadata: Record<string, unknown>;
+  getTile(z: number, x: number, y: number): Promise<Buffer | null>; // uncompressed MVT, null = no tile
+}
+
+function findEntry(entries: DirectoryEntry[], tileId: number): DirectoryEntry | null {
+  // Last entry starting at or before the tile
+  let low = 0;
+  let high = entries.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (entries[middle].tileId <= tileId) low = middle + 1;
+    else high = middle - 1;
+  }
+  const entry = entries[high];
+  if (!entry) return null;
+  if (entry.runLength === 0 || tileId - entry.tileId < entry.runLength) return entry;
+  return null;
+}
+
+/**
+ * Open an archive for tile reads
+ * The header, root directory and metadata are read once; leaf directories are cached
+ */
+export async function openPmtiles(read: RangeReader): Promise<PmtilesArchive> {
+  const header = parseHeader(await read(0, PMTILES_HEADER_BYTES));
+  if (header.internalCompression !== COMPRESSION_GZIP && header.internalCompression !== COMPRESSION_NONE) {
+    throw new Error('Unsupported PMTiles directory compression');
+  }
+
+  const decompress = (data: Buffer, compression: number) => (compression === COMPRESSION_GZIP ? gunzipSync(data) : data);
+  const readDirectory = async (offset: number, length: number) => {
+    return deserializeDirectory(decompress(await read(offset, length), header.internalCompression));
+  };
+
+  const root = await readDirectory(header.rootDirectoryOffset, header.rootDirectoryLength);
+  const metadata = header.metadataLength
+    ? JSON.parse(decompress(await read(header.metadataOffset, header.metadataLength), header.internalCompression).toString('utf8'))
+    : {};
+  const leaves = new Map<number, Promise<DirectoryEntry[]>>();
+
+  const getTile = async (z: number, x: number, y: number): Promise<Buffer | null> => {
+    if (z < header.minZoom || z > header.maxZoom) return null;
+    const tileId = zxyToTileId(z, x, y);
+
+    let directory = root;
+    for (let depth = 0; depth < 4; depth++) {
+      const entry = findEntry(directory, tileId);
+      if (!entry) return null;
+      if (entry.runLength > 0) {
+        const data = await read(header.tileDataOffset + entry.offset, entry.length);
+        return decompress(data, header.tileCompression);
+      }
+
+      const offset = header.leafDirectoryOffset + entry.offset;
+      if (!leaves.has(offset)) leaves.set(offset, readDirectory(offset, entry.length));
+      directory = await leaves.get(offset)!;
+    }
+    throw new Error('PMTiles directories nested too deep');
+  };
+
+  return { header, metadata, getTile };
+}
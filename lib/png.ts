@@ -0,0 +1,71 @@
+/**
+ * Minimal PNG encoder for server-rendered tiles (8-bit RGB or RGBA, no interlacing)
+ */
+
+import { deflateSync } from 'node:zlib';
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Encode RGBA pixels as a PNG, dropping the alpha channel when every pixel is opaque
+ * Rows use the Sub filter, which suits smooth data such as encoded elevations
+ */
+export function encodePng(rgba: Uint8Array | Uint8ClampedArray, width: number, height: number): Buffer {
+  let opaque = true;
+  for (let p = 3; p < rgba.length; p += 4) {
+    if (rgba[p] !== 255) {
+      opaque = false;
+      break;
+    }
+  }
+
+  const channels = opaque ? 3 : 4;
+  const stride = width * channels;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let row = 0; row < height; row++) {
+    const out = row * (stride + 1);
+    raw[out] = 1; // Sub: each byte minus the same channel of the pixel to the left
+    for (let col = 0; col < width; col++) {
+      for (let c = 0; c < channels; c++) {
+        const value = rgba[(row * width + col) * 4 + c];
+        const left = col > 0 ? rgba[(row * width + col - 1) * 4 + c] : 0;
+        raw[out + 1 + col * channels + c] = (value - left) & 0xff;
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = opaque ? 2 : 6; // colour type: RGB or RGBA
+  // compression, filter and interlace methods stay 0
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
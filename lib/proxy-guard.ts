@@ -0,0 +1,154 @@
+/**
+ * Abuse protection for public proxy endpoints
+ * Per-client rate limiting, concurrency caps and origin-restricted CORS
+ */
+
+export interface RateLimiterOptions {
+  requestsPerMinute: number; // per client
+  maxConcurrentPerClient: number;
+  maxConcurrent: number; // all clients together
+}
+
+export type RateLimitResult =
+  | { ok: true; release: () => void }
+  | { ok: false; status: 429 | 503; error: string; retryAfter: number };
+
+export interface RateLimiter {
+  acquire(clientId: string): RateLimitResult;
+}
+
+interface ClientState {
+  tokens: number;
+  updatedAt: number;
+  active: number;
+}
+
+const MAX_TRACKED_CLIENTS = 10000;
+
+/**
+ * Token-bucket rate limiter with per-client and global concurrency caps
+ * Callers must release() an acquired slot when the request finishes
+ */
+export function createRateLimiter({
+  requestsPerMinute,
+  maxConcurrentPerClient,
+  maxConcurrent,
+}: RateLimiterOptions): RateLimiter {
+  const clients = new Map<string, ClientState>();
+  const refillPerMs = requestsPerMinute / 60000;
+  let active = 0;
+
+  const getClient = (clientId: string, now: number): ClientState => {
+    let client = clients.get(clientId);
+    if (!client) {
+      // Forget idle clients with full buckets first when the table grows too large
+      if (clients.size >= MAX_TRACKED_CLIENTS) {
+        for (const [id, state] of clients) {
+          if (state.active === 0) clients.delete(id);
+          if (clients.size < MAX_TRACKED_CLIENTS / 2) break;
+        }
+      }
+      client = { tokens: requestsPerMinute, updatedAt: now, active: 0 };
+      clients.set(clientId, client);
+    }
+
+    client.tokens = Math.min(requestsPerMinute, client.tokens + (now - client.updatedAt) * refillPerMs);
+    client.updatedAt = now;
+    return client;
+  };
+
+  return {
+    acquire(clientId) {
+      const client = getClient(clientId, Date.now());
+
+      if (client.tokens < 1) {
+        return {
+          ok: false,
+          status: 429,
+          error: `Rate limit exceeded (${requestsPerMinute} requests per minute)`,
+          retryAfter: Math.ceil((1 - client.tokens) / refillPerMs / 1000),
+        };
+      }
+      if (client.active >= maxConcurrentPerClient) {
+        return {
+          ok: false,
+          status: 429,
+          error: `Too many concurrent requests (max ${maxConcurrentPerClient} per client)`,
+          retryAfter: 1,
+        };
+      }
+      if (active >= maxConcurrent) {
+        return { ok: false, status: 503, error: 'Server busy, try again shortly', retryAfter: 1 };
+      }
+
+      client.tokens -= 1;
+      client.active++;
+      active++;
+
+      let released = false;
+      return {
+        ok: true,
+        release: () => {
+          if (released) return;
+          released = true;
+          client.active--;
+          active--;
+        },
+      };
+    },
+  };
+}
+
+export interface ClientIdOptions {
+  trustedProxies: number; // reverse proxies in front of the app, each appending to X-Forwarded-For
+  header?: string; // header the proxy sets to the client address (e.g. cf-connecting-ip), preferred when present
+}
+
+/**
+ * Identify the client by the address the trusted reverse proxies recorded
+ *
+ * Assumes the app is only reachable through `trustedProxies` proxies that each append
+ * the address they were connected from to X-Forwarded-For (nginx $proxy_add_x_forwarded_for,
+ * most load balancers). Entries left of those come from the client and are ignored, so a
+ * client cannot choose its own bucket. Next.js fills in X-Forwarded-For with the socket
+ * address only when it is absent: without a proxy in front, clients can evade the limits.
+ */
+export function getClientId(request: Request, { trustedProxies, header }: ClientIdOptions): string {
+  const direct = header ? request.headers.get(header)?.trim() : undefined;
+  if (direct) return direct;
+
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  // The address the outermost trusted proxy was connected from
+  return forwarded[Math.max(0, forwarded.length - Math.max(1, trustedProxies))] ?? 'unknown';
+}
+
+/**
+ * CORS headers that only admit the configured origins
+ * Same-origin requests need no CORS headers, so none are set for other origins
+ */
+export function getCorsHeaders(request: Request, allowedOrigins: string[]): Headers {
+  const headers = new Headers();
+  headers.set('Vary', 'Origin');
+
+  const origin = request.headers.get('origin');
+  if (origin && (allowedOrigins.includes(origin) || allowedOrigins.includes('*'))) {
+    headers.set('Access-Control-Allow-Origin', origin);
+    headers.set('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS');
+    headers.set('Access-Control-Allow-Headers', 'Range');
+    headers.set('Access-Control-Expose-Headers', 'Content-Range, Content-Length, Accept-Ranges, X-Cache, X-Tile-Status');
+  }
+  return headers;
+}
+
+/**
+ * Comma-separated list from an environment variable
+ */
+export function parseListEnv(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,204 @@
+/**
+ * Sea-cliff detection
+ * Finds the sea in a DEM window and keeps only cliffs close to it, reporting
+ * each cliff's height above sea level and the direction of the open sea
+ */
+
+import {
+  aspectToCompass,
+  getPixelSize,
+  meanAngle,
+  type CliffObject,
+  type CompassDirection,
+  type ElevationRaster,
+} from './cliff-detector';
+
+export interface CoastalParams {
+  maxCoastDistance: number; // meters, cliff pixels farther from the sea are dropped
+  seaLevel: number; // meters, pixels at or below count as sea
+}
+
+export const DEFAULT_COASTAL_PARAMS: CoastalParams = {
+  maxCoastDistance: 300,
+  seaLevel: 0,
+};
+
+export interface CoastAnalysis {
+  sea: Uint8Array; // 1 for sea pixels, row-major like the raster
+  nearestSea: Int32Array; // index of the nearest sea pixel, -1 when the window has no sea
+  distance: Float32Array; // meters to the nearest sea pixel, Infinity when the window has no sea
+  hasSea: boolean;
+}
+
+export interface SeaCliffProperties {
+  heightAboveSea: number; // meters, highest point of the cliff above sea level
+  coastDistance: number; // meters from the sea to the nearest cliff pixel
+  seawardAspect: number; // degrees clockwise from north, direction of the nearest sea
+  seaward: CompassDirection | '-';
+}
+
+export type SeaCliffObject = CliffObject & SeaCliffProperties;
+
+/**
+ * Find the sea and the distance of every pixel to it
+ *
+ * Sea pixels are no-data (Copernicus has no tiles over open ocean) or at or
+ * below sea level, and connected to the window edge, so inland depressions and
+ * lakes below sea level are not mistaken for sea. Distances are propagated from
+ * the sea in two raster passes (8SSEDT), which is exact to within a fraction of a pixel.
+ * Distances are in meters along each axis, as pixels are not square away from the equator.
+ */
+export function analyzeCoast(raster: ElevationRaster, seaLevel: number = DEFAULT_COASTAL_PARAMS.seaLevel): CoastAnalysis {
+  const { data, width, height, noData } = raster;
+  const [xResolution, yResolution] = getPixelSize(raster);
+  const count = width * height;
+
+  const isLow = (index: number) => {
+    const value = data[index];
+    return isNaN(value) || value === noData || value <= seaLevel;
+  };
+
+  // Flood fill low pixels from the window edge
+  const sea = new Uint8Array(count);
+  const stack: number[] = [];
+  const seed = (index: number) => {
+    if (sea[index] === 0 && isLow(index)) {
+      sea[index] = 1;
+      stack.push(index);
+    }
+  };
+  for (let x = 0; x < width; x++) {
+    seed(x);
+    seed((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    seed(y * width);
+    seed(y * width + width - 1);
+  }
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    const x = index % width;
+    const y = Math.floor(index / width);
+    if (x > 0) seed(index - 1);
+    if (x < width - 1) seed(index + 1);
+    if (y > 0) seed(index - width);
+    if (y < height - 1) seed(index + width);
+  }
+
+  const nearestSea = new Int32Array(count).fill(-1);
+  const distanceSquared = new Float64Array(count).fill(Infinity);
+  let hasSea = false;
+  for (let index = 0; index < count; index++) {
+    if (sea[index] === 1) {
+      nearestSea[index] = index;
+      distanceSquared[index] = 0;
+      hasSea = true;
+    }
+  }
+
+  // Take over a neighbour's nearest sea pixel when it is closer
+  const relax = (x: number, y: number, nx: number, ny: number) => {
+    if (nx < 0 || nx >= width || ny < 0 || ny >= height) return;
+    const candidate = nearestSea[ny * width + nx];
+    if (candidate < 0) return;
+
+    const dx = (x - (candidate % width)) * xResolution;
+    const dy = (y - Math.floor(candidate / width)) * yResolution;
+    const squared = dx * dx + dy * dy;
+    const index = y * width + x;
+    if (squared < distanceSquared[index]) {
+      distanceSquared[index] = squared;
+      nearestSea[index] = candidate;
+    }
+  };
+
+  if (hasSea) {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        relax(x, y, x - 1, y);
+        relax(x, y, x - 1, y - 1);
+        relax(x, y, x, y - 1);
+        relax(x, y, x + 1, y - 1);
+      }
+      for (let x = width - 1; x >= 0; x--) relax(x, y, x + 1, y);
+    }
+    for (let y = height - 1; y >= 0; y--) {
+      for (let x = width - 1; x >= 0; x--) {
+        relax(x, y, x + 1, y);
+        relax(x, y, x + 1, y + 1);
+        relax(x, y, x, y + 1);
+        relax(x, y, x - 1, y + 1);
+      }
+      for (let x = 0; x < width; x++) relax(x, y, x - 1, y);
+    }
+  }
+
+  const distance = new Float32Array(count);
+  for (let index = 0; index < count; index++) {
+    distance[index] = Math.sqrt(distanceSquared[index]);
+  }
+
+  return { sea, nearestSea, distance, hasSea };
+}
+
+/**
+ * Keep only cliff pixels on land within the distance of the sea
+ */
+export function filterCoastalMask(cliffMask: Uint8Array, coast: CoastAnalysis, maxCoastDistance: number): Uint8Array {
+  const coastal = new Uint8Array(cliffMask.length);
+  for (let index = 0; index < cliffMask.length; index++) {
+    if (cliffMask[index] === 1 && coast.sea[index] === 0 && coast.distance[index] <= maxCoastDistance) {
+      coastal[index] = 1;
+    }
+  }
+  return coastal;
+}
+
+/**
+ * Direction from a pixel to its nearest sea pixel, degrees clockwise from north
+ */
+function getSeawardBearing(index: number, coast: CoastAnalysis, raster: ElevationRaster): number {
+  const target = coast.nearestSea[index];
+  if (target < 0 || target === index) return NaN;
+
+  const { width } = raster;
+  const [xResolution, yResolution] = getPixelSize(raster);
+  const dx = ((target % width) - (index % width)) * xResolution;
+  const dy = (Math.floor(target / width) - Math.floor(index / width)) * yResolution;
+  // Rows run north to south
+  return (Math.atan2(dx, -dy) * (180 / Math.PI) + 360) % 360;
+}
+
+/**
+ * Add sea-cliff properties to cliffs segmented from a coastal mask
+ * @param labels - Pixel labels from segmentCliffs (n = cliffs[n - 1])
+ */
+export function describeSeaCliffs(
+  cliffs: CliffObject[],
+  labels: Int32Array,
+  raster: ElevationRaster,
+  coast: CoastAnalysis,
+  seaLevel: number = DEFAULT_COASTAL_PARAMS.seaLevel
+): SeaCliffObject[] {
+  const bearings = cliffs.map(() => [] as number[]);
+  const coastDistances = cliffs.map(() => Infinity);
+
+  for (let index = 0; index < labels.length; index++) {
+    const label = labels[index];
+    if (label === 0) continue;
+
+    bearings[label - 1].push(getSeawardBearing(index, coast, raster));
+    coastDistances[label - 1] = Math.min(coastDistances[label - 1], coast.distance[index]);
+  }
+
+  return cliffs.map((cliff, i) => {
+    const seawardAspect = meanAngle(bearings[i]);
+    return {
+      ...cliff,
+      heightAboveSea: cliff.maxElevation - seaLevel,
+      coastDistance: coastDistances[i],
+      seawardAspect,
+      seaward: aspectToCompass(seawardAspect),
+    };
+  });
+}
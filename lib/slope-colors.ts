@@ -0,0 +1,287 @@
+/**
+ * Slope colour schemes: continuous ramps and classed presets
+ *
+ * One scheme colours the slope tiles, the slope grid (through a MapLibre
+ * expression on the slope property), the elevation profile and the legend.
+ *
+ * Settings format (URL hash and slope tile URLs): the scheme ID, or custom:25,30,35
+ * for classes starting at user-defined breakpoints.
+ */
+
+import type { ExpressionSpecification } from 'maplibre-gl';
+
+export type SlopeSchemeId = 'default' | 'viridis' | 'avalanche' | 'avalanche-safe' | 'climbing' | 'hiking' | 'custom';
+
+export type Rgba = [number, number, number, number]; // alpha in 0-1
+
+export interface SlopeColorStop {
+  slope: number; // degrees
+  color: Rgba;
+}
+
+export interface SlopeColorScheme {
+  id: SlopeSchemeId;
+  name: string;
+  description: string;
+  kind: 'ramp' | 'classes'; // ramp: interpolated between stops, classes: a stop's colour up to the next stop
+  relative: boolean; // stops in degrees above the minimum slope rather than absolute
+  stops: SlopeColorStop[]; // ascending
+}
+
+export interface SlopeColors {
+  scheme: SlopeSchemeId;
+  breaks: number[]; // degrees, class starts of the custom scheme
+}
+
+export interface SlopeLegend {
+  gradient: string | null; // CSS gradient of a ramp
+  range: [number, number]; // degrees at the ends of the gradient
+  classes: { label: string; color: string }[]; // of a classed scheme
+}
+
+const TRANSPARENT: Rgba = [0, 0, 0, 0];
+
+// The original transparent -> yellow -> orange -> red ramp over 40°
+const DEFAULT_STOPS: SlopeColorStop[] = [
+  { slope: 0, color: [255, 255, 0, 0.3] },
+  { slope: 13.3, color: [255, 155, 0, 0.5] },
+  { slope: 26.7, color: [255, 55, 0, 0.7] },
+  { slope: 40, color: [200, 0, 0, 0.9] },
+];
+
+export const SLOPE_COLOR_SCHEMES: SlopeColorScheme[] = [
+  {
+    id: 'default',
+    name: 'Yellow to red',
+    description: 'Continuous ramp over the 40° above the minimum slope',
+    kind: 'ramp',
+    relative: true,
+    stops: DEFAULT_STOPS,
+  },
+  {
+    id: 'viridis',
+    name: 'Viridis',
+    description: 'Continuous colour-blind safe ramp over the 40° above the minimum slope',
+    kind: 'ramp',
+    relative: true,
+    stops: [
+      { slope: 0, color: [253, 231, 37, 0.45] },
+      { slope: 10, color: [94, 201, 98, 0.55] },
+      { slope: 20, color: [33, 145, 140, 0.65] },
+      { slope: 30, color: [59, 82, 139, 0.75] },
+      { slope: 40, color: [68, 1, 84, 0.85] },
+    ],
+  },
+  {
+    id: 'avalanche',
+    name: 'Avalanche',
+    description: 'The avalanche terrain classes 30-35°, 35-40°, 40-45° and steeper',
+    kind: 'classes',
+    relative: false,
+    stops: [
+      { slope: 30, color: [255, 235, 0, 0.6] },
+      { slope: 35, color: [255, 140, 0, 0.65] },
+      { slope: 40, color: [230, 0, 0, 0.7] },
+      { slope: 45, color: [150, 0, 160, 0.75] },
+    ],
+  },
+  {
+    id: 'avalanche-safe',
+    name: 'Avalanche (colour-blind safe)',
+    description: 'The avalanche classes in the Okabe-Ito palette',
+    kind: 'classes',
+    relative: false,
+    stops: [
+      { slope: 30, color: [240, 228, 66, 0.65] },
+      { slope: 35, color: [230, 159, 0, 0.7] },
+      { slope: 40, color: [213, 94, 0, 0.75] },
+      { slope: 45, color: [0, 114, 178, 0.8] },
+    ],
+  },
+  {
+    id: 'climbing',
+    name: 'Climbing',
+    description: 'Scrambling from 45°, steep rock from 60°, near vertical from 70°, vertical from 80°',
+    kind: 'classes',
+    relative: false,
+    stops: [
+      { slope: 45, color: [255, 200, 0, 0.5] },
+      { slope: 60, color: [255, 120, 0, 0.6] },
+      { slope: 70, color: [220, 30, 30, 0.7] },
+      { slope: 80, color: [120, 0, 0, 0.85] },
+    ],
+  },
+  {
+    id: 'hiking',
+    name: 'Hiking',
+    description: 'Moderate from 10°, steep from 20°, very steep from 30°, off trail from 40°',
+    kind: 'classes',
+    relative: false,
+    stops: [
+      { slope: 10, color: [120, 200, 80, 0.45] },
+      { slope: 20, color: [255, 220, 0, 0.55] },
+      { slope: 30, color: [255, 130, 0, 0.65] },
+      { slope: 40, color: [210, 0, 0, 0.75] },
+    ],
+  },
+  {
+    id: 'custom',
+    name: 'Custom breakpoints',
+    description: 'Classes starting at your own angles',
+    kind: 'classes',
+    relative: false,
+    stops: [], // from the breakpoints, see getSlopeColorScheme
+  },
+];
+
+export const MAX_CUSTOM_BREAKS = 8;
+
+export const DEFAULT_SLOPE_COLORS: SlopeColors = { scheme: 'default', breaks: [20, 30, 40] };
+
+function interpolateStops(stops: SlopeColorStop[], slope: number): Rgba {
+  if (slope <= stops[0].slope) return stops[0].color;
+
+  for (let i = 1; i < stops.length; i++) {
+    if (slope > stops[i].slope) continue;
+    const from = stops[i - 1];
+    const to = stops[i];
+    const t = (slope - from.slope) / (to.slope - from.slope);
+    return from.color.map((value, k) => value + (to.color[k] - value) * t) as Rgba;
+  }
+  return stops[stops.length - 1].color;
+}
+
+/**
+ * The scheme of the settings, with the classes of custom breakpoints
+ * (coloured along the default ramp)
+ */
+export function getSlopeColorScheme({ scheme, breaks }: SlopeColors): SlopeColorScheme {
+  const preset = SLOPE_COLOR_SCHEMES.find(({ id }) => id === scheme) ?? SLOPE_COLOR_SCHEMES[0];
+  if (preset.id !== 'custom') return preset;
+
+  const last = DEFAULT_STOPS[DEFAULT_STOPS.length - 1].slope;
+  const stops = breaks.map((slope, i) => ({
+    slope,
+    color: interpolateStops(DEFAULT_STOPS, breaks.length > 1 ? (i / (breaks.length - 1)) * last : 0),
+  }));
+  return { ...preset, stops };
+}
+
+/**
+ * Stops in absolute degrees
+ */
+export function getColorStops(scheme: SlopeColorScheme, minSlope: number): SlopeColorStop[] {
+  return scheme.relative ? scheme.stops.map(({ slope, color }) => ({ slope: slope + minSlope, color })) : scheme.stops;
+}
+
+/**
+ * Colour of a slope, transparent below the minimum slope and below the first class
+ */
+export function getSchemeRgba(scheme: SlopeColorScheme, slope: number, minSlope: number): Rgba {
+  const stops = getColorStops(scheme, minSlope);
+  if (slope < minSlope || stops.length === 0) return TRANSPARENT;
+  if (scheme.kind === 'ramp') return interpolateStops(stops, slope);
+
+  for (let i = stops.length - 1; i >= 0; i--) {
+    if (slope >= stops[i].slope) return stops[i].color;
+  }
+  return TRANSPARENT;
+}
+
+export function toCssColor([r, g, b, a]: Rgba): string {
+  return `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${Math.round(a * 1000) / 1000})`;
+}
+
+// Slope resolution of the colour tables
+const TABLE_STEPS_PER_DEGREE = 10;
+
+/**
+ * RGBA bytes for every tenth of a degree from 0 to 90°, for colouring many pixels
+ * Look up a slope at Math.round(slope * 10) * 4
+ */
+export function createSlopeColorTable(scheme: SlopeColorScheme, minSlope: number): Uint8ClampedArray {
+  const size = 90 * TABLE_STEPS_PER_DEGREE + 1;
+  const table = new Uint8ClampedArray(size * 4);
+  for (let i = 0; i < size; i++) {
+    const [r, g, b, a] = getSchemeRgba(scheme, i / TABLE_STEPS_PER_DEGREE, minSlope);
+    table.set([r, g, b, Math.round(a * 255)], i * 4);
+  }
+  return table;
+}
+
+/**
+ * MapLibre colour expression on the numeric slope property of features
+ */
+export function getSlopeColorExpression(scheme: SlopeColorScheme, minSlope: number): ExpressionSpecification {
+  const stops = getColorStops(scheme, minSlope);
+  const transparent = toCssColor(TRANSPARENT);
+  const slope: ExpressionSpecification = ['to-number', ['get', 'slope'], 0];
+  const pairs = stops.flatMap(({ slope, color }) => [slope, toCssColor(color)]);
+  // Stop pairs are spread in, which the expression tuple types cannot follow
+  const colors = (
+    scheme.kind === 'ramp' ? ['interpolate', ['linear'], slope, ...pairs] : ['step', slope, transparent, ...pairs]
+  ) as ExpressionSpecification;
+
+  return ['case', ['<', slope, minSlope], transparent, colors];
+}
+
+/**
+ * Legend of the scheme as shown on the map: a gradient, or the classes that are
+ * not hidden by the minimum slope
+ */
+export function getSlopeLegend(scheme: SlopeColorScheme, minSlope: number): SlopeLegend {
+  const stops = getColorStops(scheme, minSlope);
+
+  if (scheme.kind === 'ramp') {
+    const from = Math.max(minSlope, stops[0]?.slope ?? minSlope);
+    const to = Math.max(from, stops[stops.length - 1]?.slope ?? from);
+    const position = (slope: number) => (to > from ? ((slope - from) / (to - from)) * 100 : 0);
+    const colorStops = stops
+      .filter(({ slope }) => slope > from)
+      .map(({ slope, color }) => `${toCssColor(color)} ${position(slope).toFixed(1)}%`);
+    return {
+      gradient: `linear-gradient(to right, ${[toCssColor(interpolateStops(stops, from)) + ' 0%', ...colorStops].join(', ')})`,
+      range: [from, to],
+      classes: [],
+    };
+  }
+
+  const classes = stops.flatMap(({ slope, color }, i) => {
+    const upper = stops[i + 1]?.slope;
+    if (upper !== undefined && upper <= minSlope) return [];
+    const lower = Math.max(slope, minSlope);
+    return [{ label: upper === undefined ? `${lower}°+` : `${lower}–${upper}°`, color: toCssColor(color) }];
+  });
+  return { gradient: null, range: [stops[0]?.slope ?? minSlope, stops[stops.length - 1]?.slope ?? 90], classes };
+}
+
+/**
+ * Custom breakpoints from a list such as "25, 30, 35"
+ * @returns Sorted unique angles, null when a value is not an angle between 0 and 90 or there are too many
+ */
+export function parseSlopeBreaks(value: string): number[] | null {
+  const parts = value.split(/[\s,;]+/).filter(Boolean);
+  const breaks = parts.map(Number);
+  if (breaks.length === 0 || breaks.length > MAX_CUSTOM_BREAKS) return null;
+  if (breaks.some((slope) => !Number.isFinite(slope) || slope <= 0 || slope >= 90)) return null;
+  return [...new Set(breaks)].sort((a, b) => a - b);
+}
+
+export function formatSlopeColors({ scheme, breaks }: SlopeColors): string {
+  return scheme === 'custom' ? `custom:${breaks.join(',')}` : scheme;
+}
+
+/**
+ * Settings from their format, null when unknown
+ */
+export function parseSlopeColors(value: string | null): SlopeColors | null {
+  if (!value) return null;
+  const [scheme, breaks] = value.split(':');
+  if (scheme === 'custom') {
+    const parsed = parseSlopeBreaks(breaks ?? '');
+    return parsed ? { scheme, breaks: parsed } : null;
+  }
+  return SLOPE_COLOR_SCHEMES.some(({ id }) => id === scheme)
+    ? { scheme: scheme as SlopeSchemeId, breaks: DEFAULT_SLOPE_COLORS.breaks }
+    : null;
+}
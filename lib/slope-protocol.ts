@@ -0,0 +1,323 @@
+/**
+ * Slope raster tiles via a custom MapLibre protocol
+ * Decodes Terrarium elevation tiles (or reads the Copernicus mosaic) and colours
+ * every pixel by its slope, so slope is exact at every zoom and tiles are cached by MapLibre
+ *
+ * Tile URL: slope://{z}/{x}/{y}?minSlope=15&algorithm=horn&facing=N,NE&dem=copernicus&colors=avalanche
+ */
+
+import type { AddProtocolAction } from 'maplibre-gl';
+import { calculateNeighborhoodSlope, type SlopeAlgorithm } from './slope-utils';
+import {
+  createSlopeColorTable,
+  DEFAULT_SLOPE_COLORS,
+  formatSlopeColors,
+  getSlopeColorScheme,
+  parseSlopeColors,
+  type SlopeColors,
+} from './slope-colors';
+import { aspectToCompass, type CompassDirection } from './cliff-detector';
+import { getTerrainSource, getTerrainTileUrl } from './dem-sources';
+import { readCopernicusElevationTile } from './copernicus-protocol';
+
+export type SlopeTileDem = 'terrarium' | 'copernicus';
+
+const TILE_SIZE = 256;
+const EARTH_CIRCUMFERENCE = 40075016.686; // meters at the equator
+const MAX_CACHED_TILES = 64;
+
+export interface SlopeTileParams {
+  minSlope: number; // degrees
+  algorithm: SlopeAlgorithm;
+  facing?: CompassDirection[]; // empty = all directions
+  dem?: SlopeTileDem; // default terrarium
+  colors?: SlopeColors; // default DEFAULT_SLOPE_COLORS
+}
+
+/**
+ * Build the slope:// tile URL template for a raster source
+ */
+export function getSlopeTileUrl({
+  minSlope,
+  algorithm,
+  facing = [],
+  dem = 'terrarium',
+  colors = DEFAULT_SLOPE_COLORS,
+}: SlopeTileParams): string {
+  const query = new URLSearchParams({ minSlope: String(minSlope), algorithm });
+  if (facing.length > 0) query.set('facing', facing.join(','));
+  if (dem !== 'terrarium') query.set('dem', dem);
+  if (colors.scheme !== DEFAULT_SLOPE_COLORS.scheme) query.set('colors', formatSlopeColors(colors));
+  return `slope://{z}/{x}/{y}?${query}`;
+}
+
+// Decoded elevation tiles shared between neighbouring slope tiles (oldest evicted first)
+const elevationTiles = new Map<string, Promise<Float32Array | null>>();
+
+/**
+ * Fetch and decode a Terrarium tile: elevation = R * 256 + G + B / 256 - 32768
+ * Resolves to null when the tile is not available
+ * @throws When the tile could not be read (network errors, server errors, Copernicus COGs failing to open)
+ */
+async function fetchElevationTile(z: number, x: number, y: number, dem: SlopeTileDem): Promise<Float32Array | null> {
+  if (dem === 'copernicus') {
+    // Falls back to Terrarium below the Copernicus minimum zoom
+    const elevations = await readCopernicusElevationTile(z, x, y);
+    if (elevations) return elevations;
+  }
+
+  const response = await fetch(getTerrainTileUrl(getTerrainSource(), z, x, y));
+  if (response.status >= 500 || response.status === 429) {
+    throw new Error(`Terrain tile error: ${response.status}`);
+  }
+  if (!response.ok) return null;
+
+  const image = await createImageBitmap(await response.blob());
+  const canvas = new OffscreenCanvas(TILE_SIZE, TILE_SIZE);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('2D canvas is not available');
+  context.drawImage(image, 0, 0, TILE_SIZE, TILE_SIZE);
+  image.close();
+
+  const { data } = context.getImageData(0, 0, TILE_SIZE, TILE_SIZE);
+  const elevations = new Float32Array(TILE_SIZE * TILE_SIZE);
+  for (let p = 0; p < elevations.length; p++) {
+    elevations[p] = data[p * 4] * 256 + data[p * 4 + 1] + data[p * 4 + 2] / 256 - 32768;
+  }
+  return elevations;
+}
+
+/**
+ * Decoded elevation tile, shared through the cache
+ * Resolves to null where there is no data, rejects when the tile could not be read
+ */
+function getElevationTile(z: number, x: number, y: number, dem: SlopeTileDem): Promise<Float32Array | null> {
+  const tiles = 2 ** z;
+  if (y < 0 || y >= tiles) return Promise.resolve(null);
+
+  // Tiles wrap around the antimeridian
+  const wrappedX = ((x % tiles) + tiles) % tiles;
+  const key = `${dem}/${z}/${wrappedX}/${y}`;
+
+  let tile = elevationTiles.get(key);
+  if (tile) {
+    // Move to the end so it is evicted last
+    elevationTiles.delete(key);
+  } else {
+    const fetching = fetchElevationTile(z, wrappedX, y, dem);
+    // Failures are not kept, so the next request fetches the tile again
+    fetching.catch(() => {
+      if (elevationTiles.get(key) === fetching) elevationTiles.delete(key);
+    });
+    tile = fetching;
+  }
+  elevationTiles.set(key, tile);
+
+  while (elevationTiles.size > MAX_CACHED_TILES) {
+    elevationTiles.delete(elevationTiles.keys().next().value!);
+  }
+  return tile;
+}
+
+/**
+ * Elevation at coordinates from the decoded tiles of one zoom level (bilinear)
+ * Uses the same tiles and cache as the slope tiles, so values agree with them
+ * @returns Elevations in meters, null where no tile is available
+ */
+export async function sampleElevations(
+  points: { lng: number; lat: number }[],
+  z: number,
+  dem: SlopeTileDem = 'terrarium'
+): Promise<(number | null)[]> {
+  const worldSize = TILE_SIZE * 2 ** z;
+
+  // Global pixel position of each point, pixel centres at +0.5
+  const positions = points.map(({ lng, lat }) => {
+    const sinLat = Math.sin((Math.max(-85.05, Math.min(85.05, lat)) * Math.PI) / 180);
+    const px = ((lng + 180) / 360) * worldSize - 0.5;
+    const py = (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * worldSize - 0.5;
+    return { px, py };
+  });
+
+  // Rows stop at the poles, columns wrap around the antimeridian (see getElevationTile)
+  const clampRow = (row: number) => Math.min(worldSize - 1, Math.max(0, row));
+  const tileOf = (col: number, row: number) => [Math.floor(col / TILE_SIZE), Math.floor(clampRow(row) / TILE_SIZE)];
+
+  const tiles = new Map<string, Promise<Float32Array | null>>();
+  for (const { px, py } of positions) {
+    for (const col of [Math.floor(px), Math.floor(px) + 1]) {
+      for (const row of [Math.floor(py), Math.floor(py) + 1]) {
+        const [x, y] = tileOf(col, row);
+        // Tiles that could not be read are sampled as having no data
+        if (!tiles.has(`${x}/${y}`)) tiles.set(`${x}/${y}`, getElevationTile(z, x, y, dem).catch(() => null));
+      }
+    }
+  }
+
+  const loaded = new Map<string, Float32Array | null>();
+  await Promise.all([...tiles].map(async ([key, tile]) => loaded.set(key, await tile)));
+
+  const pixel = (col: number, row: number): number | null => {
+    const [x, y] = tileOf(col, row);
+    const tile = loaded.get(`${x}/${y}`);
+    if (!tile) return null;
+    const r = clampRow(row) % TILE_SIZE;
+    const c = ((col % TILE_SIZE) + TILE_SIZE) % TILE_SIZE;
+    return tile[r * TILE_SIZE + c];
+  };
+
+  return positions.map(({ px, py }) => {
+    const x0 = Math.floor(px);
+    const y0 = Math.floor(py);
+    const tx = px - x0;
+    const ty = py - y0;
+    const corners = [pixel(x0, y0), pixel(x0 + 1, y0), pixel(x0, y0 + 1), pixel(x0 + 1, y0 + 1)];
+    if (corners.some((value) => value === null)) return corners.find((value) => value !== null) ?? null;
+
+    const [a, b, c, d] = corners as number[];
+    return (a * (1 - tx) + b * tx) * (1 - ty) + (c * (1 - tx) + d * tx) * ty;
+  });
+}
+
+/**
+ * Assemble the tile with a 1-pixel border taken from its 8 neighbours
+ * Borders without a neighbouring tile mirror the edge through the tile
+ * @returns null when the tile has no data
+ * @throws When the tile itself could not be read
+ */
+async function getPaddedElevations(
+  z: number,
+  x: number,
+  y: number,
+  dem: SlopeTileDem
+): Promise<Float32Array | null> {
+  const neighbors = await Promise.all(
+    // A neighbour that could not be read is mirrored like a missing one, the tile itself must be read
+    [-1, 0, 1].flatMap((dy) =>
+      [-1, 0, 1].map((dx) => {
+        const tile = getElevationTile(z, x + dx, y + dy, dem);
+        return dx === 0 && dy === 0 ? tile : tile.catch(() => null);
+      })
+    )
+  );
+  const center = neighbors[4];
+  if (!center) return null;
+
+  const size = TILE_SIZE + 2;
+  const padded = new Float32Array(size * size);
+
+  for (let row = -1; row <= TILE_SIZE; row++) {
+    for (let col = -1; col <= TILE_SIZE; col++) {
+      const tileRow = row < 0 ? 0 : row >= TILE_SIZE ? 2 : 1;
+      const tileCol = col < 0 ? 0 : col >= TILE_SIZE ? 2 : 1;
+      const tile = neighbors[tileRow * 3 + tileCol];
+
+      let value: number;
+      if (tile) {
+        const r = (row + TILE_SIZE) % TILE_SIZE;
+        const c = (col + TILE_SIZE) % TILE_SIZE;
+        value = tile[r * TILE_SIZE + c];
+      } else {
+        // Continue the slope across the edge: 2 * edge - inner
+        const r = Math.min(TILE_SIZE - 1, Math.max(0, row));
+        const c = Math.min(TILE_SIZE - 1, Math.max(0, col));
+        const innerR = r + (row < 0 ? 1 : row >= TILE_SIZE ? -1 : 0);
+        const innerC = c + (col < 0 ? 1 : col >= TILE_SIZE ? -1 : 0);
+        value = 2 * center[r * TILE_SIZE + c] - center[innerR * TILE_SIZE + innerC];
+      }
+      padded[(row + 1) * size + col + 1] = value;
+    }
+  }
+
+  return padded;
+}
+
+/**
+ * Render the slope of one tile as RGBA pixels
+ */
+function renderSlopeTile(
+  padded: Float32Array,
+  z: number,
+  y: number,
+  { minSlope, algorithm, facing = [], colors = DEFAULT_SLOPE_COLORS }: SlopeTileParams
+): Uint8ClampedArray<ArrayBuffer> {
+  const size = TILE_SIZE + 2;
+  const colorTable = createSlopeColorTable(getSlopeColorScheme(colors), minSlope);
+  const rgba = new Uint8ClampedArray(TILE_SIZE * TILE_SIZE * 4);
+  const neighborhood = new Array<number>(9);
+  const worldSize = TILE_SIZE * 2 ** z;
+
+  for (let row = 0; row < TILE_SIZE; row++) {
+    // Web Mercator is conformal: pixel size is the same in x and y and shrinks with cos(lat)
+    const mercatorY = Math.PI * (1 - (2 * (y * TILE_SIZE + row + 0.5)) / worldSize);
+    const lat = Math.atan(Math.sinh(mercatorY));
+    const pixelSize = (EARTH_CIRCUMFERENCE * Math.cos(lat)) / worldSize;
+
+    for (let col = 0; col < TILE_SIZE; col++) {
+      for (let k = 0; k < 9; k++) {
+        neighborhood[k] = padded[(row + Math.floor(k / 3)) * size + col + (k % 3)];
+      }
+
+      const { slope, aspect } = calculateNeighborhoodSlope(neighborhood, pixelSize, pixelSize, algorithm);
+      if (slope < minSlope) continue;
+
+      if (facing.length > 0) {
+        const direction = aspectToCompass(aspect);
+        if (direction === '-' || !facing.includes(direction)) continue;
+      }
+
+      const p = (row * TILE_SIZE + col) * 4;
+      const c = Math.round(slope * 10) * 4;
+      rgba[p] = colorTable[c];
+      rgba[p + 1] = colorTable[c + 1];
+      rgba[p + 2] = colorTable[c + 2];
+      rgba[p + 3] = colorTable[c + 3];
+    }
+  }
+
+  return rgba;
+}
+
+function parseSlopeTileUrl(url: string): { z: number; x: number; y: number; params: SlopeTileParams } {
+  const match = url.match(/^slope:\/\/(\d+)\/(\d+)\/(\d+)(?:\?(.*))?$/);
+  if (!match) {
+    throw new Error(`Invalid slope protocol URL '${url}'`);
+  }
+
+  const query = new URLSearchParams(match[4] ?? '');
+  const facing = query.get('facing');
+  return {
+    z: parseInt(match[1], 10),
+    x: parseInt(match[2], 10),
+    y: parseInt(match[3], 10),
+    params: {
+      minSlope: parseFloat(query.get('minSlope') ?? '5'),
+      algorithm: (query.get('algorithm') as SlopeAlgorithm | null) ?? 'horn',
+      facing: facing ? (facing.split(',') as CompassDirection[]) : [],
+      dem: query.get('dem') === 'copernicus' ? 'copernicus' : 'terrarium',
+      colors: parseSlopeColors(query.get('colors')) ?? DEFAULT_SLOPE_COLORS,
+    },
+  };
+}
+
+/**
+ * MapLibre protocol handler for slope:// raster tiles
+ * Register with maplibregl.addProtocol('slope', slopeProtocol)
+ *
+ * Tiles without elevation data are transparent. Tiles whose elevations could not be
+ * read fail, so MapLibre does not keep a blank tile in their place.
+ */
+export const slopeProtocol: AddProtocolAction = async (requestParameters, abortController) => {
+  const { z, x, y, params } = parseSlopeTileUrl(requestParameters.url);
+
+  const padded = await getPaddedElevations(z, x, y, params.dem ?? 'terrarium');
+  if (abortController.signal.aborted) {
+    throw new DOMException('Slope tile request aborted', 'AbortError');
+  }
+
+  const rgba = padded
+    ? renderSlopeTile(padded, z, y, params)
+    : new Uint8ClampedArray(TILE_SIZE * TILE_SIZE * 4);
+
+  return { data: await createImageBitmap(new ImageData(rgba, TILE_SIZE, TILE_SIZE)) };
+};
@@ -3,12 +3,15 @@
  * Computes actual slope angles from elevation data
  */
 
-import maplibregl from 'maplibre-gl';
+import type maplibregl from 'maplibre-gl';
+import { aspectToCompass } from './cliff-detector';
+import { getSchemeRgba, SLOPE_COLOR_SCHEMES, toCssColor, type SlopeColorScheme } from './slope-colors';
 
 export interface SlopeCell {
   lng: number;
   lat: number;
   slope: number; // in degrees
+  aspect: number; // downslope direction in degrees clockwise from north, NaN when flat
   elevation: number;
 }
 
@@ -49,13 +52,30 @@ export function haversineDistance(
 }
 
 /**
- * Sample elevation grid from map terrain
+ * Calculate the initial bearing from one lat/lng point to another in degrees clockwise from north
  */
-export function sampleElevationGrid(
-  map: maplibregl.Map,
+export function initialBearing(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const phi1 = lat1 * (Math.PI / 180);
+  const phi2 = lat2 * (Math.PI / 180);
+  const dLng = (lng2 - lng1) * (Math.PI / 180);
+  const y = Math.sin(dLng) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLng);
+  return (Math.atan2(y, x) * (180 / Math.PI) + 360) % 360;
+}
+
+export interface ElevationGrid {
+  elevations: (number | null)[][];
+  lngs: number[];
+  lats: number[];
+}
+
+/**
+ * Grid point coordinates covering the bounds (gridSize + 1 points per axis)
+ */
+function getGridAxes(
   bounds: maplibregl.LngLatBounds,
-  gridSize: number = 50
-): { elevations: (number | null)[][]; lngs: number[]; lats: number[] } {
+  gridSize: number
+): { lngs: number[]; lats: number[] } {
   const west = bounds.getWest();
   const east = bounds.getEast();
   const south = bounds.getSouth();
@@ -64,7 +84,6 @@ export function sampleElevationGrid(
   const lngStep = (east - west) / gridSize;
   const latStep = (north - south) / gridSize;
 
-  const elevations: (number | null)[][] = [];
   const lngs: number[] = [];
   const lats: number[] = [];
 
@@ -75,67 +94,236 @@ export function sampleElevationGrid(
     lats.push(south + j * latStep);
   }
 
-  for (let j = 0; j <= gridSize; j++) {
-    const row: (number | null)[] = [];
-    for (let i = 0; i <= gridSize; i++) {
-      const lng = lngs[i];
-      const lat = lats[j];
-      const elev = map.queryTerrainElevation({ lng, lat });
-      row.push(elev);
+  return { lngs, lats };
+}
+
+/**
+ * Sample one row of the grid from map terrain
+ */
+function sampleElevationRow(map: maplibregl.Map, lngs: number[], lat: number): (number | null)[] {
+  return lngs.map((lng) => map.queryTerrainElevation({ lng, lat }));
+}
+
+/**
+ * Sample elevation grid from map terrain
+ */
+export function sampleElevationGrid(
+  map: maplibregl.Map,
+  bounds: maplibregl.LngLatBounds,
+  gridSize: number = 50
+): ElevationGrid {
+  const { lngs, lats } = getGridAxes(bounds, gridSize);
+  const elevations = lats.map((lat) => sampleElevationRow(map, lngs, lat));
+
+  return { elevations, lngs, lats };
+}
+
+/**
+ * Sample elevation grid from map terrain in chunks of rows,
+ * yielding to the browser between chunks so large grids keep the UI responsive
+ */
+export async function sampleElevationGridAsync(
+  map: maplibregl.Map,
+  bounds: maplibregl.LngLatBounds,
+  gridSize: number = 50,
+  options: {
+    signal?: AbortSignal;
+    onProgress?: (progress: number) => void;
+    rowsPerChunk?: number;
+  } = {}
+): Promise<ElevationGrid> {
+  const { signal, onProgress, rowsPerChunk = 10 } = options;
+  const { lngs, lats } = getGridAxes(bounds, gridSize);
+  const elevations: (number | null)[][] = [];
+
+  for (let j = 0; j < lats.length; j++) {
+    if (j > 0 && j % rowsPerChunk === 0) {
+      onProgress?.(j / lats.length);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      signal?.throwIfAborted();
     }
-    elevations.push(row);
+    elevations.push(sampleElevationRow(map, lngs, lats[j]));
   }
 
+  onProgress?.(1);
   return { elevations, lngs, lats };
 }
 
+export type SlopeAlgorithm = 'horn' | 'zevenbergen-thorne' | 'max-downhill';
+
+export const SLOPE_ALGORITHMS: { id: SlopeAlgorithm; name: string; description: string }[] = [
+  {
+    id: 'horn',
+    name: 'Horn',
+    description: 'Weighted 3×3 finite differences (GDAL gdaldem slope default)',
+  },
+  {
+    id: 'zevenbergen-thorne',
+    name: 'Zevenbergen-Thorne',
+    description: 'Second-order finite differences of the 4 direct neighbours (gdaldem -alg ZevenbergenThorne)',
+  },
+  {
+    id: 'max-downhill',
+    name: 'Maximum downhill',
+    description: 'Steepest drop to any of the 8 neighbours (D8)',
+  },
+];
+
+/**
+ * Calculate slope angle and aspect at the centre of a 3x3 elevation neighbourhood
+ *
+ * The neighbourhood is row-major from the north-west corner:
+ *   a b c
+ *   d e f
+ *   g h i
+ *
+ * @param neighborhood - 9 elevation values
+ * @param dx - East-west distance between neighbouring points in meters
+ * @param dy - North-south distance between neighbouring points in meters
+ * @param algorithm - Slope algorithm
+ * @returns Slope angle in degrees and aspect (direction the slope faces, degrees
+ *   clockwise from north, NaN when flat)
+ */
+export function calculateNeighborhoodSlope(
+  neighborhood: number[],
+  dx: number,
+  dy: number,
+  algorithm: SlopeAlgorithm = 'horn'
+): { slope: number; aspect: number } {
+  const [a, b, c, d, e, f, g, h, i] = neighborhood;
+
+  if (algorithm === 'max-downhill') {
+    // Aspect is the bearing of the steepest drop
+    const diagonal = Math.sqrt(dx * dx + dy * dy);
+    const diagonalBearing = Math.atan2(dx, dy) * (180 / Math.PI);
+    const drops = [
+      { drop: (e - a) / diagonal, bearing: 360 - diagonalBearing },
+      { drop: (e - b) / dy, bearing: 0 },
+      { drop: (e - c) / diagonal, bearing: diagonalBearing },
+      { drop: (e - d) / dx, bearing: 270 },
+      { drop: (e - f) / dx, bearing: 90 },
+      { drop: (e - g) / diagonal, bearing: 180 + diagonalBearing },
+      { drop: (e - h) / dy, bearing: 180 },
+      { drop: (e - i) / diagonal, bearing: 180 - diagonalBearing },
+    ];
+    const steepest = drops.reduce((best, candidate) => (candidate.drop > best.drop ? candidate : best));
+    if (steepest.drop <= 0) return { slope: 0, aspect: NaN };
+
+    return {
+      slope: Math.atan(steepest.drop) * (180 / Math.PI),
+      aspect: steepest.bearing,
+    };
+  }
+
+  let dzdx: number;
+  let dzdy: number;
+  if (algorithm === 'zevenbergen-thorne') {
+    dzdx = (f - d) / (2 * dx);
+    dzdy = (b - h) / (2 * dy);
+  } else {
+    dzdx = (c + 2 * f + i - (a + 2 * d + g)) / (8 * dx);
+    dzdy = (a + 2 * b + c - (g + 2 * h + i)) / (8 * dy);
+  }
+
+  const slope = Math.atan(Math.sqrt(dzdx * dzdx + dzdy * dzdy)) * (180 / Math.PI);
+  if (dzdx === 0 && dzdy === 0) return { slope, aspect: NaN };
+
+  // The slope faces against the gradient (dzdy points north here)
+  const aspect = Math.atan2(-dzdx, -dzdy) * (180 / Math.PI);
+  return { slope, aspect: (aspect + 360) % 360 };
+}
+
 /**
- * Calculate slope for each cell in the grid
- * Uses maximum slope from 4 cardinal directions
+ * Calculate curvature at the centre of a 3x3 elevation neighbourhood (Zevenbergen-Thorne)
+ *
+ * Values are in 1/100 m as in ArcGIS and positive where the surface is convex
+ * (ridges, cliff tops), negative where it is concave (gullies, cliff toes).
+ * Profile curvature is along the slope (positive: flow accelerates), plan curvature
+ * across it (positive: flow diverges, as on spurs); both are 0 on flat ground.
+ *
+ * @param neighborhood - 9 elevation values, row-major from the north-west corner
+ * @param dx - East-west distance between neighbouring points in meters
+ * @param dy - North-south distance between neighbouring points in meters
+ */
+export function calculateNeighborhoodCurvature(
+  neighborhood: number[],
+  dx: number,
+  dy: number
+): { curvature: number; profile: number; plan: number } {
+  const [a, b, c, d, e, f, g, h, i] = neighborhood;
+
+  const D = ((d + f) / 2 - e) / (dx * dx);
+  const E = ((b + h) / 2 - e) / (dy * dy);
+  const F = (-a + c + g - i) / (4 * dx * dy);
+  const G = (f - d) / (2 * dx);
+  const H = (b - h) / (2 * dy);
+
+  const curvature = -2 * (D + E) * 100;
+  const gradient = G * G + H * H;
+  if (gradient === 0) return { curvature, profile: 0, plan: 0 };
+
+  return {
+    curvature,
+    profile: (-2 * (D * G * G + E * H * H + F * G * H) * 100) / gradient,
+    plan: (-2 * (D * H * H + E * G * G - F * G * H) * 100) / gradient,
+  };
+}
+
+/**
+ * Calculate slope for each point in the grid from its 3x3 neighbourhood
+ * Neighbours outside the grid or without data are extrapolated from the
+ * opposite and adjacent neighbours (similar to gdaldem -compute_edges)
+ * A row range can be given to process large grids in chunks
  */
 export function calculateSlopeGrid(
   elevations: (number | null)[][],
   lngs: number[],
-  lats: number[]
+  lats: number[],
+  options: { algorithm?: SlopeAlgorithm; rowStart?: number; rowEnd?: number } = {}
 ): SlopeCell[] {
   const cells: SlopeCell[] = [];
   const rows = elevations.length;
   const cols = elevations[0]?.length || 0;
+  const { algorithm = 'horn', rowStart = 0, rowEnd = rows } = options;
 
-  for (let j = 0; j < rows - 1; j++) {
-    for (let i = 0; i < cols - 1; i++) {
+  const at = (j: number, i: number): number | null => elevations[j]?.[i] ?? null;
+
+  for (let j = rowStart; j < Math.min(rowEnd, rows); j++) {
+    for (let i = 0; i < cols; i++) {
       const elev = elevations[j][i];
       if (elev === null) continue;
 
-      const elevRight = elevations[j][i + 1];
-      const elevUp = elevations[j + 1]?.[i];
-      const elevDiag = elevations[j + 1]?.[i + 1];
-
-      // Calculate distances
-      const distRight = haversineDistance(lats[j], lngs[i], lats[j], lngs[i + 1]);
-      const distUp = haversineDistance(lats[j], lngs[i], lats[j + 1], lngs[i]);
+      // Missing cardinal neighbours mirror the centre through the opposite one,
+      // missing diagonals continue the plane through the adjacent cardinals
+      const mirror = (value: number | null, opposite: number | null): number =>
+        value ?? (opposite !== null ? 2 * elev - opposite : elev);
 
-      // Calculate slopes in each direction
-      const slopes: number[] = [];
+      // Rows run south to north, so the northern row is j + 1
+      const n = mirror(at(j + 1, i), at(j - 1, i));
+      const s = mirror(at(j - 1, i), at(j + 1, i));
+      const w = mirror(at(j, i - 1), at(j, i + 1));
+      const e = mirror(at(j, i + 1), at(j, i - 1));
+      const neighborhood = [
+        at(j + 1, i - 1) ?? n + w - elev, n, at(j + 1, i + 1) ?? n + e - elev,
+        w, elev, e,
+        at(j - 1, i - 1) ?? s + w - elev, s, at(j - 1, i + 1) ?? s + e - elev,
+      ];
 
-      if (elevRight !== null) {
-        slopes.push(calculateSlopeAngle(elevRight - elev, distRight));
-      }
-      if (elevUp !== null) {
-        slopes.push(calculateSlopeAngle(elevUp - elev, distUp));
-      }
-      if (elevDiag !== null) {
-        const distDiag = Math.sqrt(distRight * distRight + distUp * distUp);
-        slopes.push(calculateSlopeAngle(elevDiag - elev, distDiag));
-      }
+      // Point spacing in meters (neighbouring grid points are evenly spaced)
+      const i0 = Math.max(0, i - 1);
+      const i1 = Math.min(cols - 1, i + 1);
+      const j0 = Math.max(0, j - 1);
+      const j1 = Math.min(rows - 1, j + 1);
+      const dx = haversineDistance(lats[j], lngs[i0], lats[j], lngs[i1]) / Math.max(1, i1 - i0);
+      const dy = haversineDistance(lats[j0], lngs[i], lats[j1], lngs[i]) / Math.max(1, j1 - j0);
 
-      // Use maximum slope
-      const maxSlope = slopes.length > 0 ? Math.max(...slopes) : 0;
+      const { slope, aspect } = calculateNeighborhoodSlope(neighborhood, dx, dy, algorithm);
 
       cells.push({
-        lng: (lngs[i] + lngs[i + 1]) / 2,
-        lat: (lats[j] + lats[j + 1]) / 2,
-        slope: maxSlope,
+        lng: lngs[i],
+        lat: lats[j],
+        slope,
+        aspect,
         elevation: elev,
       });
     }
@@ -145,40 +333,30 @@ export function calculateSlopeGrid(
 }
 
 /**
- * Get color for slope value (0-90 degrees)
- * Green (flat) -> Yellow -> Orange -> Red (steep)
+ * Get color for slope value (0-90 degrees) as RGBA components, alpha in 0-1
+ * Transparent below minSlope, then the colour scheme (default: yellow -> orange -> red)
+ */
+export function getSlopeRgba(
+  slopeDegrees: number,
+  minSlope: number = 5,
+  scheme: SlopeColorScheme = SLOPE_COLOR_SCHEMES[0]
+): [number, number, number, number] {
+  return getSchemeRgba(scheme, slopeDegrees, minSlope);
+}
+
+/**
+ * Get color for slope value (0-90 degrees) as a CSS colour
  */
-export function getSlopeColor(slopeDegrees: number, minSlope: number = 5): string {
+export function getSlopeColor(
+  slopeDegrees: number,
+  minSlope: number = 5,
+  scheme: SlopeColorScheme = SLOPE_COLOR_SCHEMES[0]
+): string {
   if (slopeDegrees < minSlope) {
     return 'transparent';
   }
 
-  // Normalize slope to 0-1 range (5-45 degrees mapped to 0-1)
-  const normalized = Math.min(1, Math.max(0, (slopeDegrees - minSlope) / 40));
-
-  // Color gradient: transparent -> yellow -> orange -> red
-  if (normalized < 0.33) {
-    // Yellow to orange
-    const t = normalized / 0.33;
-    const r = 255;
-    const g = Math.round(255 - t * 100);
-    const b = 0;
-    return `rgba(${r}, ${g}, ${b}, ${0.3 + normalized * 0.4})`;
-  } else if (normalized < 0.66) {
-    // Orange to red
-    const t = (normalized - 0.33) / 0.33;
-    const r = 255;
-    const g = Math.round(155 - t * 100);
-    const b = 0;
-    return `rgba(${r}, ${g}, ${b}, ${0.5 + normalized * 0.3})`;
-  } else {
-    // Red to dark red
-    const t = (normalized - 0.66) / 0.34;
-    const r = Math.round(255 - t * 55);
-    const g = Math.round(55 - t * 55);
-    const b = 0;
-    return `rgba(${r}, ${g}, ${b}, ${0.7 + normalized * 0.2})`;
-  }
+  return toCssColor(getSlopeRgba(slopeDegrees, minSlope, scheme));
 }
 
 /**
@@ -212,8 +390,9 @@ export function createSlopeGeoJSON(
       },
       properties: {
         slope: cell.slope,
+        aspect: isNaN(cell.aspect) ? -1 : cell.aspect,
+        facing: aspectToCompass(cell.aspect),
         elevation: cell.elevation,
-        color: getSlopeColor(cell.slope, minSlope),
       },
     });
   }
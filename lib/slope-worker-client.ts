@@ -0,0 +1,139 @@
+/**
+ * Slope analysis off the main thread
+ * Runs calculateSlopeGrid and createSlopeGeoJSON in a Web Worker with
+ * progress reporting and cancellation of superseded requests
+ */
+
+import type { ElevationGrid, SlopeAlgorithm } from './slope-utils';
+import type { CoastalParams } from './sea-cliffs';
+
+export interface SlopeAnalysisRequest extends ElevationGrid {
+  cellSize: number; // degrees
+  minSlope: number; // degrees
+  algorithm: SlopeAlgorithm;
+  coastal?: CoastalParams; // keep only cells near the sea
+}
+
+export interface SlopeAnalysisResult {
+  geoJson: GeoJSON.FeatureCollection;
+  cellCount: number;
+}
+
+export type SlopeWorkerMessage =
+  | { type: 'analyze'; id: number; request: SlopeAnalysisRequest }
+  | { type: 'cancel'; id: number };
+
+export type SlopeWorkerReply =
+  | { type: 'progress'; id: number; progress: number }
+  | { type: 'result'; id: number; result: SlopeAnalysisResult }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+export interface SlopeWorkerClient {
+  analyze(
+    request: SlopeAnalysisRequest,
+    options?: { signal?: AbortSignal; onProgress?: (progress: number) => void }
+  ): Promise<SlopeAnalysisResult>;
+  dispose(): void;
+}
+
+interface PendingAnalysis {
+  resolve: (result: SlopeAnalysisResult) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Start a slope analysis worker
+ * Aborting a request's signal cancels it in the worker and rejects with an AbortError.
+ * A worker that fails rejects every pending request and is replaced on the next one.
+ */
+export function createSlopeWorkerClient(): SlopeWorkerClient {
+  const pending = new Map<number, PendingAnalysis>();
+  let worker: Worker | null = null;
+  let nextId = 1;
+
+  const handleReply = (event: MessageEvent<SlopeWorkerReply>) => {
+    const reply = event.data;
+    const analysis = pending.get(reply.id);
+    if (!analysis) return;
+
+    switch (reply.type) {
+      case 'progress':
+        analysis.onProgress?.(reply.progress);
+        break;
+      case 'result':
+        pending.delete(reply.id);
+        analysis.resolve(reply.result);
+        break;
+      case 'cancelled':
+        pending.delete(reply.id);
+        analysis.reject(new DOMException('Slope analysis cancelled', 'AbortError'));
+        break;
+      case 'error':
+        pending.delete(reply.id);
+        analysis.reject(new Error(reply.message));
+        break;
+    }
+  };
+
+  const rejectAll = (error: unknown) => {
+    const analyses = [...pending.values()];
+    pending.clear();
+    for (const analysis of analyses) analysis.reject(error);
+  };
+
+  const getWorker = (): Worker => {
+    if (worker) return worker;
+
+    const started = new Worker(new URL('./slope-worker.ts', import.meta.url), { type: 'module' });
+    started.onmessage = handleReply;
+    // Failed to load or threw outside a request: no reply will come for the pending ones
+    started.onerror = (event) => {
+      console.error('Slope worker error:', event.message);
+      started.terminate();
+      if (worker === started) worker = null;
+      rejectAll(new Error(`Slope worker failed: ${event.message || 'unknown error'}`));
+    };
+    worker = started;
+    return started;
+  };
+
+  return {
+    analyze(request, { signal, onProgress } = {}) {
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(new DOMException('Slope analysis cancelled', 'AbortError'));
+          return;
+        }
+
+        const target = getWorker();
+        const id = nextId++;
+        const cancel = () => target.postMessage({ type: 'cancel', id } satisfies SlopeWorkerMessage);
+        // The listener goes once the request settles, so later aborts post nothing
+        const settle = () => signal?.removeEventListener('abort', cancel);
+
+        pending.set(id, {
+          resolve: (result) => {
+            settle();
+            resolve(result);
+          },
+          reject: (error) => {
+            settle();
+            reject(error);
+          },
+          onProgress,
+        });
+        target.postMessage({ type: 'analyze', id, request } satisfies SlopeWorkerMessage);
+
+        signal?.addEventListener('abort', cancel, { once: true });
+      });
+    },
+
+    dispose() {
+      worker?.terminate();
+      worker = null;
+      rejectAll(new DOMException('Slope worker disposed', 'AbortError'));
+    },
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Web Worker entry point for slope analysis
+ * Processes the grid in row chunks, reporting progress and checking for
+ * cancellation between chunks
+ */
+
+import { calculateSlopeGrid, createSlopeGeoJSON, type SlopeCell } from './slope-utils';
+import { analyzeCoast } from './sea-cliffs';
+import type { SlopeWorkerMessage, SlopeWorkerReply, SlopeAnalysisRequest } from './slope-worker-client';
+
+const ROWS_PER_CHUNK = 8;
+
+const running = new Set<number>();
+const cancelled = new Set<number>(); // of the running ones
+
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Drop cells farther from the sea than the coastal distance
+ */
+function filterCoastalCells(cells: SlopeCell[], request: SlopeAnalysisRequest): SlopeCell[] {
+  const { elevations, lngs, lats, coastal } = request;
+  if (!coastal || lngs.length < 2 || lats.length < 2) return cells;
+
+  // Grid rows run south to north, rasters north to south
+  const width = lngs.length;
+  const height = lats.length;
+  const data = new Float64Array(width * height);
+  elevations.forEach((row, j) => {
+    row.forEach((value, i) => {
+      data[(height - 1 - j) * width + i] = value ?? NaN;
+    });
+  });
+
+  const lngStep = lngs[1] - lngs[0];
+  const latStep = lats[1] - lats[0];
+  const midLat = ((lats[0] + lats[height - 1]) / 2) * (Math.PI / 180);
+  const xResolution = lngStep * Math.cos(midLat) * METERS_PER_DEGREE;
+  const yResolution = latStep * METERS_PER_DEGREE;
+  const coast = analyzeCoast(
+    { data, width, height, resolution: (xResolution + yResolution) / 2, xResolution, yResolution },
+    coastal.seaLevel
+  );
+
+  return cells.filter((cell) => {
+    const i = Math.round((cell.lng - lngs[0]) / lngStep);
+    const j = Math.round((cell.lat - lats[0]) / latStep);
+    const index = (height - 1 - j) * width + i;
+    return coast.sea[index] === 0 && coast.distance[index] <= coastal.maxCoastDistance;
+  });
+}
+
+function reply(message: SlopeWorkerReply) {
+  self.postMessage(message);
+}
+
+async function analyze(id: number, request: SlopeAnalysisRequest) {
+  const { elevations, lngs, lats, cellSize, minSlope, algorithm } = request;
+  const rows = elevations.length;
+  const cells: SlopeCell[] = [];
+
+  for (let rowStart = 0; rowStart < rows; rowStart += ROWS_PER_CHUNK) {
+    // Let queued cancel messages arrive before the next chunk
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    if (cancelled.has(id)) {
+      reply({ type: 'cancelled', id });
+      return;
+    }
+
+    const rowEnd = Math.min(rowStart + ROWS_PER_CHUNK, rows);
+    cells.push(...calculateSlopeGrid(elevations, lngs, lats, { algorithm, rowStart, rowEnd }));
+    reply({ type: 'progress', id, progress: rowEnd / rows });
+  }
+
+  const geoJson = createSlopeGeoJSON(filterCoastalCells(cells, request), cellSize, minSlope);
+  reply({ type: 'result', id, result: { geoJson, cellCount: cells.length } });
+}
+
+self.onmessage = (event: MessageEvent<SlopeWorkerMessage>) => {
+  const message = event.data;
+
+  if (message.type === 'cancel') {
+    // Requests that already finished have nothing to cancel
+    if (running.has(message.id)) cancelled.add(message.id);
+    return;
+  }
+
+  running.add(message.id);
+  analyze(message.id, message.request)
+    .catch((error) => {
+      reply({
+        type: 'error',
+        id: message.id,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    })
+    .finally(() => {
+      running.delete(message.id);
+      cancelled.delete(message.id);
+    });
+};
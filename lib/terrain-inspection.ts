@@ -0,0 +1,198 @@
+/**
+ * Terrain at a clicked point: slope, aspect, curvature, local relief, the
+ * elevation of every DEM source and the nearest detected cliff
+ *
+ * Samples the decoded elevation tiles of the slope protocol with the slope
+ * functions of lib/slope-utils, so values agree with the slope layers.
+ */
+
+import { aspectToCompass, type CompassDirection } from './cliff-detector';
+import { getSampleZoom, sampleNeighborhood } from './elevation-profile';
+import { getCogSource, getTerrainSource } from './dem-sources';
+import { sampleElevations, type SlopeTileDem } from './slope-protocol';
+import {
+  calculateNeighborhoodCurvature,
+  calculateNeighborhoodSlope,
+  haversineDistance,
+  initialBearing,
+  type SlopeAlgorithm,
+} from './slope-utils';
+
+const METERS_PER_DEGREE = 111320;
+
+// Radii offered for the local relief, in meters
+export const RELIEF_RADII = [50, 100, 250, 500, 1000];
+
+// Sample rings of the local relief (and points on the outermost ring)
+const RELIEF_RINGS = 8;
+const RELIEF_RING_POINTS = 32;
+
+export interface SourceElevation {
+  dem: SlopeTileDem;
+  name: string; // of the DEM source
+  elevation: number | null; // meters
+}
+
+export interface LocalRelief {
+  radius: number; // meters
+  min: number; // meters
+  max: number;
+  relief: number; // max - min
+}
+
+export interface NearestCliff {
+  cliffId: string;
+  distance: number; // meters to the closest point of its lines
+  bearing: number; // degrees clockwise from north, from the point to the cliff
+  height: number; // meters, the largest drop of its lines
+  facing: CompassDirection | '-';
+}
+
+export interface TerrainInspection {
+  lng: number;
+  lat: number;
+  dem: SlopeTileDem; // the source of slope, curvature and relief
+  elevation: number | null; // meters
+  slope: number | null; // degrees, null without the full neighbourhood
+  aspect: number | null; // degrees clockwise from north the slope faces, null when flat
+  facing: CompassDirection | '-';
+  curvature: { curvature: number; profile: number; plan: number } | null; // 1/100 m
+  relief: LocalRelief | null;
+  elevations: SourceElevation[]; // every DEM source
+  nearestCliff: NearestCliff | null;
+}
+
+/**
+ * Closest point of the cliff lines to a point
+ * @param lines - Cliff lines as returned by /api/cliffs (cliffId, maxDrop and facing properties)
+ */
+export function findNearestCliff(lng: number, lat: number, lines: GeoJSON.Feature[]): NearestCliff | null {
+  // Local equirectangular projection around the point, good for the few km of a view
+  const cosLat = Math.cos((lat * Math.PI) / 180);
+  const project = ([x, y]: GeoJSON.Position) => [(x - lng) * cosLat, y - lat];
+
+  let nearest: { feature: GeoJSON.Feature; position: [number, number]; squared: number } | null = null;
+  for (const feature of lines) {
+    if (feature.geometry.type !== 'LineString') continue;
+    const positions = feature.geometry.coordinates;
+
+    for (let i = 0; i < positions.length; i++) {
+      // Each vertex, and the foot of the perpendicular on the segment after it
+      const [ax, ay] = project(positions[i]);
+      let [px, py] = [ax, ay];
+      if (i + 1 < positions.length) {
+        const [bx, by] = project(positions[i + 1]);
+        const length = (bx - ax) ** 2 + (by - ay) ** 2;
+        const t = length > 0 ? Math.min(1, Math.max(0, -(ax * (bx - ax) + ay * (by - ay)) / length)) : 0;
+        [px, py] = [ax + t * (bx - ax), ay + t * (by - ay)];
+      }
+
+      const squared = px * px + py * py;
+      if (!nearest || squared < nearest.squared) {
+        nearest = { feature, position: [lng + px / cosLat, lat + py], squared };
+      }
+    }
+  }
+  if (!nearest) return null;
+
+  const cliffId = String(nearest.feature.properties?.cliffId ?? '');
+  const height = lines
+    .filter(({ properties }) => String(properties?.cliffId ?? '') === cliffId)
+    .reduce((max, { properties }) => Math.max(max, Number(properties?.maxDrop) || 0), 0);
+  const [cliffLng, cliffLat] = nearest.position;
+
+  return {
+    cliffId,
+    distance: haversineDistance(lat, lng, cliffLat, cliffLng),
+    bearing: initialBearing(lat, lng, cliffLat, cliffLng),
+    height,
+    facing: (nearest.feature.properties?.facing as CompassDirection | '-' | undefined) ?? '-',
+  };
+}
+
+/**
+ * Lowest and highest elevation within a radius, sampled on rings around the point
+ * from the zoom level whose pixels match the ring spacing
+ */
+export async function calculateLocalRelief(
+  lng: number,
+  lat: number,
+  radius: number,
+  dem: SlopeTileDem = 'terrarium'
+): Promise<LocalRelief | null> {
+  const points = [{ lng, lat }];
+  const cosLat = Math.cos((lat * Math.PI) / 180);
+  for (let ring = 1; ring <= RELIEF_RINGS; ring++) {
+    const distance = (radius * ring) / RELIEF_RINGS;
+    // Points about as far apart along the ring as the rings are
+    const count = Math.max(6, Math.round((RELIEF_RING_POINTS * ring) / RELIEF_RINGS));
+    for (let k = 0; k < count; k++) {
+      const angle = (2 * Math.PI * k) / count;
+      points.push({
+        lng: lng + (distance * Math.sin(angle)) / (METERS_PER_DEGREE * cosLat),
+        lat: lat + (distance * Math.cos(angle)) / METERS_PER_DEGREE,
+      });
+    }
+  }
+
+  const elevations = (await sampleElevations(points, getSampleZoom(radius / RELIEF_RINGS, lat), dem)).filter(
+    (value): value is number => value !== null
+  );
+  if (elevations.length === 0) return null;
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of elevations) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return { radius, min, max, relief: max - min };
+}
+
+/**
+ * Inspect the terrain at a point
+ * @param options.dem - Source of slope, curvature and relief (the one of the slope layers)
+ * @param options.cliffLines - Detected cliff lines to find the nearest cliff in
+ */
+export async function inspectTerrain(
+  lng: number,
+  lat: number,
+  {
+    dem = 'terrarium',
+    algorithm = 'horn',
+    radius = RELIEF_RADII[1],
+    cliffLines = [],
+  }: { dem?: SlopeTileDem; algorithm?: SlopeAlgorithm; radius?: number; cliffLines?: GeoJSON.Feature[] } = {}
+): Promise<TerrainInspection> {
+  const sources: { dem: SlopeTileDem; name: string }[] = [
+    { dem: 'terrarium', name: getTerrainSource().name },
+    { dem: 'copernicus', name: getCogSource().name },
+  ];
+
+  const [{ elevations: neighborhood, spacing }, relief, sourceElevations] = await Promise.all([
+    sampleNeighborhood(lng, lat, dem),
+    calculateLocalRelief(lng, lat, radius, dem),
+    Promise.all(
+      sources.map(({ dem }) => sampleElevations([{ lng, lat }], getTerrainSource().maxzoom, dem).then(([value]) => value))
+    ),
+  ]);
+
+  const complete = neighborhood.every((value) => value !== null);
+  const { slope, aspect } = complete
+    ? calculateNeighborhoodSlope(neighborhood as number[], spacing, spacing, algorithm)
+    : { slope: null, aspect: NaN };
+
+  return {
+    lng,
+    lat,
+    dem,
+    elevation: neighborhood[4],
+    slope,
+    aspect: Number.isNaN(aspect) ? null : aspect,
+    facing: aspectToCompass(aspect),
+    curvature: complete ? calculateNeighborhoodCurvature(neighborhood as number[], spacing, spacing) : null,
+    relief,
+    elevations: sources.map((source, i) => ({ ...source, elevation: sourceElevations[i] })),
+    nearestCliff: findNearestCliff(lng, lat, cliffLines),
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Server-rendered terrain-RGB tiles from the Copernicus COG mosaic (server-side only)
+ *
+ * Reads the COG tiles covering an XYZ tile from the configured source (see
+ * lib/dem-sources), resamples them to Web Mercator and encodes the elevations
+ * as a Terrarium or Mapbox terrain-RGB PNG, usable by any raster-dem source.
+ *
+ * Configuration (environment):
+ *   TERRAIN_TILES_MIN_ZOOM  lowest zoom served (default 8, lower tiles span too many COGs)
+ *   TERRAIN_TILES_MAX_ZOOM  highest zoom served (default 14, about the GLO-30 resolution)
+ */
+
+import type { GeoTIFF } from 'geotiff';
+import type { CopernicusTile } from './cog-utils';
+import { encodeTerrainRgb, encodeTerrarium, MERCATOR_TILE_SIZE, readMercatorElevationTile } from './dem-mosaic';
+import { openCogTile } from './dem-reader';
+import { getCogSource } from './dem-sources';
+import { encodePng } from './png';
+
+export type TerrainEncoding = 'terrarium' | 'mapbox';
+
+export const TERRAIN_ENCODINGS: TerrainEncoding[] = ['terrarium', 'mapbox'];
+
+function envZoom(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isInteger(parsed) && parsed >= 0 && parsed <= 22 ? parsed : fallback;
+}
+
+export const TERRAIN_MIN_ZOOM = envZoom(process.env.TERRAIN_TILES_MIN_ZOOM, 8);
+export const TERRAIN_MAX_ZOOM = envZoom(process.env.TERRAIN_TILES_MAX_ZOOM, 14);
+
+// Most COG tiles kept open at once, so neighbouring XYZ tiles reuse the COG headers
+const MAX_OPEN_TILES = 32;
+
+// Opened COGs by source and tile, least recently used first
+const openTiles = new Map<string, Promise<GeoTIFF | null>>();
+
+function openCachedTile(tile: CopernicusTile): Promise<GeoTIFF | null> {
+  const key = `${getCogSource().id}/${tile.url}`;
+  let tiff = openTiles.get(key);
+  if (tiff) {
+    openTiles.delete(key);
+  } else {
+    const opening = openCogTile(tile);
+    // Failures are not kept, the next request opens the tile again
+    opening.catch(() => {
+      if (openTiles.get(key) === opening) openTiles.delete(key);
+    });
+    tiff = opening;
+  }
+  openTiles.set(key, tiff);
+
+  while (openTiles.size > MAX_OPEN_TILES) {
+    openTiles.delete(openTiles.keys().next().value!);
+  }
+  return tiff;
+}
+
+function encodeTile(elevations: Float32Array, encoding: TerrainEncoding): Buffer {
+  const rgba = encoding === 'mapbox' ? encodeTerrainRgb(elevations) : encodeTerrarium(elevations);
+  return encodePng(rgba, MERCATOR_TILE_SIZE, MERCATOR_TILE_SIZE);
+}
+
+// The flat sea-level tile, per encoding
+const noDataTiles = new Map<TerrainEncoding, Buffer>();
+
+/**
+ * Render an XYZ terrain tile
+ * @returns The PNG, and whether no COG covered any of it (a flat sea-level tile)
+ * @throws When a covering COG could not be read, rather than rendering it flat
+ */
+export async function renderTerrainTile(
+  z: number,
+  x: number,
+  y: number,
+  encoding: TerrainEncoding
+): Promise<{ png: Buffer; noData: boolean }> {
+  const elevations = await readMercatorElevationTile(z, x, y, openCachedTile);
+
+  if (elevations.every((value) => Number.isNaN(value))) {
+    if (!noDataTiles.has(encoding)) {
+      noDataTiles.set(encoding, encodeTile(elevations, encoding));
+    }
+    return { png: noDataTiles.get(encoding)!, noData: true };
+  }
+
+  return { png: encodeTile(elevations, encoding), noData: false };
+}
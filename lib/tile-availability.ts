@@ -0,0 +1,130 @@
+/**
+ * Availability index of Copernicus COG tiles
+ *
+ * Copernicus has no tiles over open ocean. A bundled manifest per source records
+ * which 1° tiles exist as a 360 x 180 bitmap (built by scripts/build-tile-manifest.ts
+ * from the bucket's tileList.txt or a local listing). Tiles that turn out to be
+ * missing at runtime are remembered as well, so they are requested only once.
+ * Without a manifest every tile is assumed to exist until proven missing.
+ */
+
+import glo30Manifest from './data/tile-manifest-glo30.json';
+import glo90Manifest from './data/tile-manifest-glo90.json';
+import { getCogSource, type CogDemSource } from './dem-sources';
+import type { CopernicusTile } from './cog-utils';
+
+export interface TileManifest {
+  source: string;
+  listing: string; // where the tile list came from
+  generated: string | null; // ISO date, null when not built yet
+  tileCount: number | null;
+  bitmap: string | null; // base64, bit (lat + 90) * 360 + (lon + 180) set when the tile exists
+}
+
+export interface TileCoverage {
+  available: CopernicusTile[];
+  missing: CopernicusTile[];
+}
+
+const TILE_COUNT = 360 * 180;
+
+// Local mirrors follow the GLO-30 layout
+const MANIFESTS: Record<CogDemSource['id'], TileManifest | undefined> = {
+  glo30: glo30Manifest,
+  glo90: glo90Manifest,
+  local: glo30Manifest,
+  terrarium: undefined,
+};
+
+const bitmaps = new Map<string, Uint8Array | null>();
+const learnedMisses = new Map<string, Set<number>>();
+
+/**
+ * Bit index of the 1° tile with the given south-west corner
+ */
+export function getTileIndex(lat: number, lon: number): number {
+  return (Math.floor(lat) + 90) * 360 + (Math.floor(lon) + 180);
+}
+
+/**
+ * Pack tile corners into a manifest bitmap (base64)
+ */
+export function encodeTileBitmap(tiles: { lat: number; lon: number }[]): string {
+  const bits = new Uint8Array(TILE_COUNT / 8);
+  for (const { lat, lon } of tiles) {
+    const index = getTileIndex(lat, lon);
+    bits[index >> 3] |= 1 << (index & 7);
+  }
+  let binary = '';
+  for (const byte of bits) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function getBitmap(source: CogDemSource): Uint8Array | null {
+  if (!bitmaps.has(source.id)) {
+    const encoded = MANIFESTS[source.id]?.bitmap;
+    bitmaps.set(source.id, encoded ? Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0)) : null);
+  }
+  return bitmaps.get(source.id)!;
+}
+
+/**
+ * The manifest bundled for a source (bitmap is null until it has been built)
+ */
+export function getTileManifest(source: CogDemSource = getCogSource()): TileManifest | undefined {
+  return MANIFESTS[source.id];
+}
+
+/**
+ * Whether the tile containing a coordinate exists in the source
+ * True when unknown (no manifest and not seen missing)
+ */
+export function isTileAvailable(lat: number, lon: number, source: CogDemSource = getCogSource()): boolean {
+  if (lat < -90 || lat >= 90 || lon < -180 || lon >= 180) return false;
+
+  const index = getTileIndex(lat, lon);
+  if (learnedMisses.get(source.id)?.has(index)) return false;
+
+  const bitmap = getBitmap(source);
+  return !bitmap || (bitmap[index >> 3] & (1 << (index & 7))) !== 0;
+}
+
+/**
+ * Remember a tile that the source does not have (404/403 on request)
+ */
+export function markTileMissing(lat: number, lon: number, source: CogDemSource = getCogSource()): void {
+  let misses = learnedMisses.get(source.id);
+  if (!misses) {
+    misses = new Set();
+    learnedMisses.set(source.id, misses);
+  }
+  misses.add(getTileIndex(lat, lon));
+}
+
+/**
+ * Split tiles into available ones and ones without data
+ */
+export function partitionTiles(tiles: CopernicusTile[], source: CogDemSource = getCogSource()): TileCoverage {
+  const coverage: TileCoverage = { available: [], missing: [] };
+  for (const tile of tiles) {
+    (isTileAvailable(tile.lat, tile.lon, source) ? coverage.available : coverage.missing).push(tile);
+  }
+  return coverage;
+}
+
+/**
+ * Outline tiles as 1° squares, e.g. to show where coverage is missing
+ */
+export function tilesToGeoJSON(tiles: { lat: number; lon: number }[]): GeoJSON.FeatureCollection<GeoJSON.Polygon> {
+  return {
+    type: 'FeatureCollection',
+    features: tiles.map(({ lat, lon }) => ({
+      type: 'Feature',
+      properties: { lat, lon },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[[lon, lat], [lon + 1, lat], [lon + 1, lat + 1], [lon, lat + 1], [lon, lat]]],
+      },
+    })),
+  };
+}
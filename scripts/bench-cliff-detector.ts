@@ -0,0 +1,195 @@
+/**
+ * Benchmark for the raster cliff detector on full-tile-sized synthetic DEMs
+ *
+ * Usage: npm run bench:cliffs -- [--size 3600] [--reference-size 1200]
+ *
+ * Times detectCliffsRaster on a size x size raster (a GLO-30 tile is 3600 x 3600)
+ * for a few parameter sets, and checks on a reference-size crop that it produces
+ * the same mask as the original nested-array neighbourhood scan.
+ */
+
+import { performance } from 'node:perf_hooks';
+import {
+  calculateSlopeAngle,
+  detectCliffsRaster,
+  type ElevationRaster,
+} from '../lib/cliff-detector';
+
+interface SlopeParams {
+  heightDiff: number;
+  horizontalDist: number;
+}
+
+const PARAM_SETS: { name: string; resolution: number; params: SlopeParams }[] = [
+  { name: '3 m over 30 m (1 px radius)', resolution: 30, params: { heightDiff: 4.5, horizontalDist: 30 } },
+  { name: '10 m over 60 m (2 px radius)', resolution: 30, params: { heightDiff: 10, horizontalDist: 60 } },
+  { name: '30 m over 150 m (5 px radius)', resolution: 30, params: { heightDiff: 30, horizontalDist: 150 } },
+];
+
+function readOption(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return fallback;
+  const value = parseInt(process.argv[index + 1], 10);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`--${name} expects a positive integer`);
+  }
+  return value;
+}
+
+/**
+ * Synthetic terrain: rolling hills, a few escarpments and a no-data lake
+ */
+function createSyntheticRaster(size: number, resolution: number): ElevationRaster {
+  const data = new Float32Array(size * size);
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let elevation =
+        400 +
+        300 * Math.sin(x / 400) * Math.cos(y / 530) +
+        80 * Math.sin(x / 61 + y / 97) +
+        12 * Math.sin(x / 9) * Math.sin(y / 13) +
+        random() * 2;
+
+      // Escarpments every 900 pixels along a slanted line
+      const step = (x + 0.3 * y) % 900;
+      if (step > 450) elevation += 60;
+
+      data[y * size + x] = elevation;
+    }
+  }
+
+  // No-data area in the middle
+  const lakeRadius = size / 20;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if ((x - size / 2) ** 2 + (y - size / 2) ** 2 < lakeRadius ** 2) {
+        data[y * size + x] = -9999;
+      }
+    }
+  }
+
+  return { data, width: size, height: size, resolution, noData: -9999 };
+}
+
+/**
+ * The original nested-array implementation, kept as the reference
+ */
+function detectCliffsReference(
+  elevationData: number[][],
+  resolution: number,
+  params: SlopeParams
+): boolean[][] {
+  const height = elevationData.length;
+  const width = elevationData[0]?.length || 0;
+  const cliffMask: boolean[][] = Array(height)
+    .fill(null)
+    .map(() => Array(width).fill(false));
+
+  const pixelDistance = Math.ceil(params.horizontalDist / resolution);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const currentElev = elevationData[y][x];
+      if (currentElev === null || isNaN(currentElev)) continue;
+
+      for (let dy = -pixelDistance; dy <= pixelDistance; dy++) {
+        for (let dx = -pixelDistance; dx <= pixelDistance; dx++) {
+          if (dx === 0 && dy === 0) continue;
+
+          const nx = x + dx;
+          const ny = y + dy;
+
+          if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+
+          const neighborElev = elevationData[ny][nx];
+          if (neighborElev === null || isNaN(neighborElev)) continue;
+
+          const actualDistance = Math.sqrt(dx * dx + dy * dy) * resolution;
+          if (actualDistance > params.horizontalDist) continue;
+
+          const elevDiff = Math.abs(currentElev - neighborElev);
+          const slopeAngle = calculateSlopeAngle(elevDiff, actualDistance);
+
+          const minAngle = calculateSlopeAngle(params.heightDiff, params.horizontalDist);
+          if (slopeAngle >= minAngle) {
+            cliffMask[y][x] = true;
+            break;
+          }
+        }
+        if (cliffMask[y][x]) break;
+      }
+    }
+  }
+
+  return cliffMask;
+}
+
+function crop(raster: ElevationRaster, size: number): number[][] {
+  const rows: number[][] = [];
+  for (let y = 0; y < size; y++) {
+    const row: number[] = [];
+    for (let x = 0; x < size; x++) {
+      const value = raster.data[y * raster.width + x];
+      row.push(value === raster.noData ? NaN : value);
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+function time<T>(run: () => T): { result: T; ms: number } {
+  const start = performance.now();
+  const result = run();
+  return { result, ms: performance.now() - start };
+}
+
+function main() {
+  const size = readOption('size', 3600);
+  const referenceSize = Math.min(size, readOption('reference-size', 1200));
+
+  console.log(`Synthetic raster: ${size} x ${size} (${((size * size) / 1e6).toFixed(1)} Mpx)`);
+  const raster = createSyntheticRaster(size, 30);
+
+  for (const { name, resolution, params } of PARAM_SETS) {
+    console.log(`\n${name}`);
+
+    const full = time(() => detectCliffsRaster({ ...raster, resolution }, params));
+    const cliffCount = full.result.reduce((sum, value) => sum + value, 0);
+    console.log(`  detectCliffsRaster  ${full.ms.toFixed(0).padStart(7)} ms  ${cliffCount} cliff px`);
+
+    // Same mask as the reference on a crop
+    const rows = crop(raster, referenceSize);
+    const cropped: ElevationRaster = {
+      data: Float32Array.from(rows.flat()),
+      width: referenceSize,
+      height: referenceSize,
+      resolution,
+    };
+    const fast = time(() => detectCliffsRaster(cropped, params));
+    const reference = time(() => detectCliffsReference(rows, resolution, params));
+
+    let mismatches = 0;
+    for (let y = 0; y < referenceSize; y++) {
+      for (let x = 0; x < referenceSize; x++) {
+        if (reference.result[y][x] !== (fast.result[y * referenceSize + x] === 1)) mismatches++;
+      }
+    }
+
+    console.log(
+      `  reference crop ${referenceSize}x${referenceSize}: ${reference.ms.toFixed(0)} ms vs ${fast.ms.toFixed(0)} ms ` +
+        `(${(reference.ms / Math.max(fast.ms, 1)).toFixed(1)}x), ${mismatches} mismatching px`
+    );
+
+    if (mismatches > 0) {
+      process.exitCode = 1;
+    }
+  }
+}
+
+main();
@@ -0,0 +1,208 @@
+/**
+ * Build a PMTiles archive of vector tiles from a cliff scan
+ *
+ * Usage: npm run build:cliff-tiles -- --in cliffs.geojson [--out data/cliffs.pmtiles]
+ *          [--minzoom 8] [--maxzoom 14] [--slope-minzoom 11]
+ *
+ * Reads the GeoJSON written by scan:cliffs (one feature per line) and writes
+ * two layers: "cliffs" with the traced cliff lines, carrying the statistics of
+ * their cliff (maxHeightDiff, area, maxSlope), and "slopes" with the steep slope
+ * cells when the scan was run with --slopes. Lines shorter than two screen pixels
+ * are left out below the maximum zoom. /api/tiles/cliffs serves the archive.
+ */
+
+import { createReadStream } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createInterface } from 'node:readline';
+import { encodeMvt, getTileRange, toMvtFeature, type MvtFeature } from '../lib/mvt';
+import { writePmtiles } from '../lib/pmtiles';
+
+type Properties = Record<string, string | number | boolean>;
+
+// Statistics of the cliff copied onto its lines
+const CLIFF_FIELDS = ['maxHeightDiff', 'area', 'maxSlope'];
+
+// Meters per pixel of a 256 px tile at zoom 0 on the equator
+const METERS_PER_PIXEL_Z0 = 156543.03;
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = process.argv[index + 1];
+  if (!value || value.startsWith('--')) {
+    throw new Error(`--${name} expects a value`);
+  }
+  return value;
+}
+
+function readZoom(name: string, fallback: number): number {
+  const value = readOption(name);
+  if (value === undefined) return fallback;
+  const zoom = parseInt(value, 10);
+  if (!Number.isInteger(zoom) || zoom < 0 || zoom > 16) {
+    throw new Error(`--${name} expects a zoom from 0 to 16`);
+  }
+  return zoom;
+}
+
+/**
+ * Features and scan metadata of a scan:cliffs GeoJSON file, read line by line
+ */
+async function readScan(file: string): Promise<{ features: GeoJSON.Feature[]; metadata: Record<string, unknown> }> {
+  const features: GeoJSON.Feature[] = [];
+  let metadata: Record<string, unknown> = {};
+
+  const lines = createInterface({ input: createReadStream(file), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (line.startsWith('{"type":"FeatureCollection"')) {
+      metadata = JSON.parse(`${line}]}`).metadata ?? {};
+    } else if (line.startsWith('{"type":"Feature"')) {
+      features.push(JSON.parse(line.replace(/,$/, '')));
+    }
+  }
+  if (features.length === 0) {
+    throw new Error(`No features found in ${file}, expected the GeoJSON output of scan:cliffs`);
+  }
+  return { features, metadata };
+}
+
+/**
+ * The scalar properties of a feature (MVT has no arrays or objects)
+ */
+function tileProperties(properties: GeoJSON.GeoJsonProperties): Properties {
+  const result: Properties = {};
+  for (const [key, value] of Object.entries(properties ?? {})) {
+    if (key === 'layer' || key === 'cell') continue;
+    if (typeof value === 'string' || typeof value === 'boolean') result[key] = value;
+    else if (typeof value === 'number' && Number.isFinite(value)) result[key] = Math.round(value * 100) / 100;
+  }
+  return result;
+}
+
+function featureBbox(feature: GeoJSON.Feature): [number, number, number, number] {
+  const positions =
+    feature.geometry.type === 'Point'
+      ? [feature.geometry.coordinates]
+      : feature.geometry.type === 'LineString'
+        ? feature.geometry.coordinates
+        : (feature.geometry as GeoJSON.Polygon).coordinates[0];
+  const lngs = positions.map(([lng]) => lng);
+  const lats = positions.map(([, lat]) => lat);
+  return [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)];
+}
+
+async function main() {
+  const input = readOption('in');
+  if (!input) throw new Error('Pass the scan:cliffs output with --in');
+  const out = readOption('out') ?? path.join('data', 'cliffs.pmtiles');
+  const minZoom = readZoom('minzoom', 8);
+  const maxZoom = readZoom('maxzoom', 14);
+  const slopeMinZoom = readZoom('slope-minzoom', 11);
+  if (minZoom > maxZoom) throw new Error('--minzoom must not exceed --maxzoom');
+
+  const { features, metadata: scan } = await readScan(input);
+
+  const cliffStats = new Map<string, Properties>();
+  for (const { properties } of features) {
+    if (properties?.layer !== 'cliff') continue;
+    cliffStats.set(properties.id, Object.fromEntries(CLIFF_FIELDS.map((field) => [field, properties[field]])));
+  }
+
+  const layers = {
+    cliffs: features
+      .filter(({ properties }) => properties?.layer === 'cliff-line')
+      .map((feature) => ({
+        feature,
+        bbox: featureBbox(feature),
+        properties: tileProperties({ ...feature.properties, ...cliffStats.get(feature.properties!.cliffId) }),
+      })),
+    slopes: features
+      .filter(({ properties }) => properties?.layer === 'slope')
+      .map((feature) => ({ feature, bbox: featureBbox(feature), properties: tileProperties(feature.properties) })),
+  };
+
+  const bounds: [number, number, number, number] = [180, 90, -180, -90];
+  for (const { bbox } of [...layers.cliffs, ...layers.slopes]) {
+    bounds[0] = Math.min(bounds[0], bbox[0]);
+    bounds[1] = Math.min(bounds[1], bbox[1]);
+    bounds[2] = Math.max(bounds[2], bbox[2]);
+    bounds[3] = Math.max(bounds[3], bbox[3]);
+  }
+
+  const tiles: { z: number; x: number; y: number; data: Uint8Array }[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const buckets = new Map<string, { cliffs: MvtFeature[]; slopes: MvtFeature[] }>();
+
+    for (const name of ['cliffs', 'slopes'] as const) {
+      if (name === 'slopes' && z < slopeMinZoom) continue;
+
+      for (const { feature, bbox, properties } of layers[name]) {
+        if (name === 'cliffs' && z < maxZoom) {
+          const metersPerPixel = (METERS_PER_PIXEL_Z0 * Math.cos((bbox[1] * Math.PI) / 180)) / 2 ** z;
+          if ((properties.length as number) < 2 * metersPerPixel) continue;
+        }
+
+        const { minX, minY, maxX, maxY } = getTileRange(bbox, z);
+        for (let x = minX; x <= maxX; x++) {
+          for (let y = minY; y <= maxY; y++) {
+            const tileFeature = toMvtFeature(feature, z, x, y, properties);
+            if (!tileFeature) continue;
+            const key = `${x}/${y}`;
+            if (!buckets.has(key)) buckets.set(key, { cliffs: [], slopes: [] });
+            buckets.get(key)![name].push(tileFeature);
+          }
+        }
+      }
+    }
+
+    for (const [key, bucket] of buckets) {
+      const [x, y] = key.split('/').map(Number);
+      const data = encodeMvt([
+        { name: 'cliffs', features: bucket.cliffs },
+        { name: 'slopes', features: bucket.slopes },
+      ]);
+      tiles.push({ z, x, y, data });
+    }
+    console.log(`zoom ${z}: ${buckets.size} tiles`);
+  }
+
+  const fields = (items: { properties: Properties }[]) =>
+    Object.fromEntries(
+      [...new Set(items.flatMap(({ properties }) => Object.keys(properties)))].map((key) => [
+        key,
+        typeof items.find(({ properties }) => key in properties)!.properties[key] === 'string' ? 'String' : 'Number',
+      ])
+    );
+
+  const metadata = {
+    name: 'Precomputed cliffs',
+    format: 'pbf',
+    generated: new Date().toISOString(),
+    scan,
+    attribution: (scan.attribution as string[] | undefined)?.join(' ') ?? '',
+    vector_layers: [
+      { id: 'cliffs', fields: fields(layers.cliffs), minzoom: minZoom, maxzoom: maxZoom },
+      ...(layers.slopes.length
+        ? [{ id: 'slopes', fields: fields(layers.slopes), minzoom: Math.max(minZoom, slopeMinZoom), maxzoom: maxZoom }]
+        : []),
+    ],
+  };
+
+  const archive = writePmtiles(tiles, metadata, {
+    bounds,
+    center: [(bounds[0] + bounds[2]) / 2, (bounds[1] + bounds[3]) / 2, minZoom],
+  });
+  await mkdir(path.dirname(out), { recursive: true });
+  await writeFile(out, archive);
+
+  console.log(
+    `${layers.cliffs.length} cliff lines and ${layers.slopes.length} slope cells in ${tiles.length} tiles, ` +
+      `${(archive.length / 1024 / 1024).toFixed(1)} MiB written to ${out}`
+  );
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,95 @@
+/**
+ * Build the bundled tile availability manifest of a Copernicus source
+ *
+ * Usage: npm run build:tile-manifest -- [--source glo30|glo90] [--listing <file or URL>] [--dir <mirror>] [--out <file>]
+ *
+ * Reads the source's tile list (by default the bucket's tileList.txt, or a
+ * downloaded copy) or scans a local mirror directory, and writes the 360 x 180
+ * availability bitmap to lib/data/tile-manifest-<source>.json.
+ */
+
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { DEM_SOURCES, type CogDemSource } from '../lib/dem-sources';
+import { encodeTileBitmap, getTileManifest, type TileManifest } from '../lib/tile-availability';
+
+const TILE_NAME = /_([NS])(\d\d)_00_([EW])(\d{3})_00/;
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = process.argv[index + 1];
+  if (!value || value.startsWith('--')) {
+    throw new Error(`--${name} expects a value`);
+  }
+  return value;
+}
+
+function getSource(id: string): CogDemSource {
+  const source = DEM_SOURCES[id as CogDemSource['id']];
+  if (id === 'local' || source?.type !== 'cog') {
+    throw new Error('--source must be glo30 or glo90 (local mirrors use the glo30 manifest)');
+  }
+  return source;
+}
+
+async function readListing(listing: string): Promise<string[]> {
+  if (/^https?:\/\//i.test(listing)) {
+    const response = await fetch(listing);
+    if (!response.ok) throw new Error(`Listing request failed: HTTP ${response.status}`);
+    return (await response.text()).split(/\r?\n/);
+  }
+  return (await readFile(listing, 'utf8')).split(/\r?\n/);
+}
+
+/**
+ * Parse tile corners from tile names (one per line or directory entry)
+ */
+function parseTiles(names: string[]): { lat: number; lon: number }[] {
+  const tiles = new Map<string, { lat: number; lon: number }>();
+  for (const name of names) {
+    const match = name.match(TILE_NAME);
+    if (!match) continue;
+    const lat = parseInt(match[2], 10) * (match[1] === 'N' ? 1 : -1);
+    const lon = parseInt(match[4], 10) * (match[3] === 'E' ? 1 : -1);
+    tiles.set(`${lat},${lon}`, { lat, lon });
+  }
+  return [...tiles.values()];
+}
+
+async function main() {
+  const source = getSource(readOption('source') ?? 'glo30');
+  const dir = readOption('dir');
+  const listing = readOption('listing') ?? getTileManifest(source)?.listing;
+  const out = readOption('out') ?? path.join('lib', 'data', `tile-manifest-${source.id}.json`);
+
+  let names: string[];
+  if (dir) {
+    names = await readdir(dir);
+  } else if (listing) {
+    names = await readListing(listing);
+  } else {
+    throw new Error('No listing known for this source, pass --listing or --dir');
+  }
+
+  const tiles = parseTiles(names);
+  if (tiles.length === 0) {
+    throw new Error('No Copernicus tile names found in the listing');
+  }
+
+  const manifest: TileManifest = {
+    source: source.id,
+    listing: dir ?? listing!,
+    generated: new Date().toISOString(),
+    tileCount: tiles.length,
+    bitmap: encodeTileBitmap(tiles),
+  };
+  await writeFile(out, JSON.stringify(manifest, null, 2) + '\n');
+
+  console.log(`${source.name}: ${tiles.length} tiles written to ${out}`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,16 @@
+/**
+ * Worker thread of scan-cliffs: scans the cells it is sent, one at a time
+ *
+ * Messages in: { cell, options }, out: { result } or { cellId, error }
+ */
+
+import { parentPort } from 'node:worker_threads';
+import { scanCell, type ScanCell, type ScanOptions } from '../lib/cliff-scan';
+
+parentPort!.on('message', async ({ cell, options }: { cell: ScanCell; options: ScanOptions }) => {
+  try {
+    parentPort!.postMessage({ result: await scanCell(cell, options) });
+  } catch (error) {
+    parentPort!.postMessage({ cellId: cell.id, error: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -0,0 +1,526 @@
+/**
+ * Scan a region for cliffs and write them to a GeoJSON file or a SQLite database
+ *
+ * Usage: npm run scan:cliffs -- (--bbox west,south,east,north | --tiles N46E010,N46E011 | --tiles-file <file>)
+ *          [--source glo30|glo90] [--dem <URL or directory>] [--out cliffs.geojson] [--format geojson|sqlite]
+ *          [--workers 4] [--split 1] [--halo 300] [--min-angle 15] [--evaluation-distance 30]
+ *          [--min-drop 0] [--min-extent 0] [--coastal] [--sea-level 0] [--max-coast-distance 300]
+ *          [--slopes] [--slope-cell-size 90] [--algorithm horn] [--resume]
+ *
+ * Every 1° tile (or each of split x split parts of it) is read with a halo of
+ * --halo meters and scanned in a worker thread; a cliff belongs to the cell
+ * holding its centroid. --dem points the scan at a mirror of GLO-30 tiles
+ * (the local source). --tiles-file takes tile names one per line, short
+ * (N46E010) or Copernicus names as in tileList.txt. The cliff criteria are those
+ * of the map (see lib/cliff-criteria); --slopes also writes the slope cells
+ * steeper than --min-angle.
+ *
+ * Finished cells are kept in <out>.parts/ until the output is written, so an
+ * interrupted scan continues where it stopped with --resume. The parts record
+ * the settings they were scanned with (source, criteria, --halo, --split,
+ * --coastal, --slopes), and a scan resumed with other settings is refused. A per-tile report
+ * is written to <out>.report.csv. SQLite output needs Node 22.5 or later (node:sqlite).
+ */
+
+import { createWriteStream } from 'node:fs';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { availableParallelism } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import { DEM_SOURCES } from '../lib/dem-sources';
+import { DEFAULT_COASTAL_PARAMS } from '../lib/sea-cliffs';
+import { DEFAULT_CLIFF_CRITERIA, describeCriteria, getDetectionParams, type CliffCriteria } from '../lib/cliff-criteria';
+import { SLOPE_ALGORITHMS, type SlopeAlgorithm } from '../lib/slope-utils';
+import {
+  formatTileName,
+  getScanCells,
+  getTilesForBbox,
+  parseTileName,
+  type ScanCell,
+  type ScanCellResult,
+  type ScanOptions,
+} from '../lib/cliff-scan';
+
+type OutputFormat = 'geojson' | 'sqlite';
+
+interface CellFailure {
+  cellId: string;
+  error: string;
+}
+
+/**
+ * Settings that change the result of a cell, recorded with the parts
+ */
+interface PartsSettings extends ScanOptions {
+  source: string;
+  dem: string | null; // the local source only
+  split: number;
+}
+
+const SETTINGS_FILE = 'options.json';
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = process.argv[index + 1];
+  if (!value || value.startsWith('--')) {
+    throw new Error(`--${name} expects a value`);
+  }
+  return value;
+}
+
+function readNumber(name: string, fallback: number, { positive = true } = {}): number {
+  const value = readOption(name);
+  if (value === undefined) return fallback;
+  const parsed = parseFloat(value);
+  if (!Number.isFinite(parsed) || (positive && parsed <= 0)) {
+    throw new Error(`--${name} expects a ${positive ? 'positive ' : ''}number`);
+  }
+  return parsed;
+}
+
+function hasFlag(name: string): boolean {
+  return process.argv.includes(`--${name}`);
+}
+
+function parseBbox(value: string): [number, number, number, number] {
+  const parts = value.split(',').map((part) => parseFloat(part));
+  const [west, south, east, north] = parts;
+  if (
+    parts.length !== 4 ||
+    parts.some((part) => !Number.isFinite(part)) ||
+    west >= east ||
+    south >= north ||
+    south < -90 ||
+    north > 90 ||
+    west < -180 ||
+    east > 180
+  ) {
+    throw new Error('--bbox expects west,south,east,north');
+  }
+  return [west, south, east, north];
+}
+
+async function readCells(split: number): Promise<{ cells: ScanCell[]; region: string }> {
+  const bbox = readOption('bbox');
+  if (bbox) {
+    const parsed = parseBbox(bbox);
+    return { cells: getScanCells(getTilesForBbox(parsed), split, parsed), region: `bbox ${bbox}` };
+  }
+
+  const tilesFile = readOption('tiles-file');
+  const names = tilesFile
+    ? (await readFile(tilesFile, 'utf8')).split(/\r?\n/).filter((line) => line.trim())
+    : readOption('tiles')?.split(',');
+  if (!names) {
+    throw new Error('Pass the region with --bbox, --tiles or --tiles-file');
+  }
+
+  const tiles = names.map((name) => {
+    const tile = parseTileName(name);
+    if (!tile) throw new Error(`Not a tile name: ${name}`);
+    return tile;
+  });
+  return { cells: getScanCells(tiles, split), region: `${tiles.length} tiles` };
+}
+
+/**
+ * Scan cells on a pool of worker threads, calling back as each cell finishes
+ */
+async function runWorkers(
+  cells: ScanCell[],
+  options: ScanOptions,
+  workerCount: number,
+  onResult: (result: ScanCellResult) => Promise<void>,
+  onFailure: (failure: CellFailure) => void
+): Promise<void> {
+  // Workers are TypeScript, loaded through tsx as the script itself is
+  const workerFile = fileURLToPath(new URL('./scan-cliffs-worker.ts', import.meta.url));
+  const bootstrap = `require('tsx/cjs/api').register(); require(${JSON.stringify(workerFile)});`;
+  const queue = [...cells];
+
+  const runWorker = () =>
+    new Promise<void>((resolve, reject) => {
+      // workerData is set so geotiff's web-worker shim treats the thread as a main thread
+      const worker = new Worker(bootstrap, { eval: true, env: process.env, execArgv: [], workerData: {} });
+      const next = () => {
+        const cell = queue.shift();
+        if (cell) {
+          worker.postMessage({ cell, options });
+        } else {
+          worker.terminate().then(() => resolve(), reject);
+        }
+      };
+
+      worker.on('message', (message: { result: ScanCellResult } | CellFailure) => {
+        if ('error' in message) {
+          onFailure(message);
+          next();
+        } else {
+          onResult(message.result).then(next, reject);
+        }
+      });
+      worker.on('error', reject);
+      next();
+    });
+
+  await Promise.all(Array.from({ length: Math.min(workerCount, cells.length) }, runWorker));
+}
+
+/**
+ * Results of the cells finished by an earlier run (one JSON file per cell)
+ */
+async function readParts(partsDir: string): Promise<Map<string, ScanCellResult>> {
+  const parts = new Map<string, ScanCellResult>();
+  const files = await readdir(partsDir).catch(() => [] as string[]);
+  for (const file of files) {
+    if (!file.endsWith('.json') || file === SETTINGS_FILE) continue;
+    const result: ScanCellResult = JSON.parse(await readFile(path.join(partsDir, file), 'utf8'));
+    parts.set(result.cell.id, result);
+  }
+  return parts;
+}
+
+/**
+ * Refuse to resume from parts scanned with other settings
+ * (or with unknown ones, parts written before the settings were recorded)
+ */
+async function checkPartsSettings(partsDir: string, settings: PartsSettings): Promise<void> {
+  let recorded: PartsSettings;
+  try {
+    recorded = JSON.parse(await readFile(path.join(partsDir, SETTINGS_FILE), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    const files = await readdir(partsDir).catch(() => [] as string[]);
+    if (files.some((file) => file.endsWith('.json'))) {
+      throw new Error(`${partsDir} has no ${SETTINGS_FILE}, run again without --resume to start over`);
+    }
+    return;
+  }
+
+  const changed = (Object.keys(settings) as (keyof PartsSettings)[]).filter(
+    (key) => JSON.stringify(settings[key]) !== JSON.stringify(recorded[key])
+  );
+  if (changed.length > 0) {
+    throw new Error(
+      `${partsDir} was scanned with other settings (${changed.join(', ')}), ` +
+        'resume with the same options or run again without --resume to start over'
+    );
+  }
+}
+
+async function writePart(partsDir: string, result: ScanCellResult): Promise<void> {
+  // Renamed into place, so a part is either complete or missing
+  const file = path.join(partsDir, `${result.cell.id}.json`);
+  await writeFile(`${file}.tmp`, JSON.stringify(result));
+  await rename(`${file}.tmp`, file);
+}
+
+/**
+ * Stream the features of all cells into one FeatureCollection
+ */
+async function writeGeoJSON(out: string, results: ScanCellResult[], metadata: Record<string, unknown>): Promise<void> {
+  const stream = createWriteStream(out);
+  const write = (chunk: string) =>
+    new Promise<void>((resolve, reject) => stream.write(chunk, (error) => (error ? reject(error) : resolve())));
+
+  await write(`{"type":"FeatureCollection","metadata":${JSON.stringify(metadata)},"features":[`);
+  let first = true;
+  for (const result of results) {
+    for (const feature of result.features) {
+      await write((first ? '\n' : ',\n') + JSON.stringify(feature));
+      first = false;
+    }
+  }
+  await write('\n]}\n');
+  await new Promise<void>((resolve, reject) => stream.end((error?: Error | null) => (error ? reject(error) : resolve())));
+}
+
+/**
+ * The part of node:sqlite used here (not in the Node 20 type definitions)
+ */
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): { run(...values: (string | number | null)[]): unknown };
+  close(): void;
+}
+
+async function openSqlite(file: string): Promise<SqliteDatabase> {
+  const moduleName = 'node:sqlite';
+  try {
+    const { DatabaseSync } = await import(moduleName);
+    return new DatabaseSync(file) as SqliteDatabase;
+  } catch {
+    throw new Error(`SQLite output needs Node 22.5 or later (running ${process.version}), use --format geojson`);
+  }
+}
+
+const SQLITE_SCHEMA = `
+CREATE TABLE metadata (key TEXT PRIMARY KEY, value TEXT);
+CREATE TABLE cells (
+  id TEXT PRIMARY KEY, tile TEXT, west REAL, south REAL, east REAL, north REAL,
+  status TEXT, cliffs INTEGER, lines INTEGER, slope_cells INTEGER,
+  resolution REAL, seconds REAL, missing_tiles TEXT
+);
+CREATE TABLE cliffs (
+  id TEXT PRIMARY KEY, cell TEXT, lng REAL, lat REAL, area REAL,
+  max_height_diff REAL, max_slope REAL, facing TEXT, properties TEXT
+);
+CREATE TABLE cliff_lines (cliff_id TEXT, cell TEXT, length REAL, max_drop REAL, facing TEXT, geometry TEXT, properties TEXT);
+CREATE TABLE slopes (cell TEXT, lng REAL, lat REAL, slope REAL, aspect REAL, elevation REAL);
+CREATE INDEX cliffs_position ON cliffs (lat, lng);
+CREATE INDEX cliff_lines_cliff ON cliff_lines (cliff_id);
+CREATE INDEX slopes_position ON slopes (lat, lng);
+`;
+
+/**
+ * Write cells, cliffs, lines and slopes into a new SQLite database
+ * Geometries of lines are GeoJSON, other properties a JSON object per row
+ */
+async function writeSqlite(out: string, results: ScanCellResult[], metadata: Record<string, unknown>): Promise<void> {
+  await rm(out, { force: true });
+  const db = await openSqlite(out);
+
+  try {
+    db.exec(SQLITE_SCHEMA);
+    db.exec('BEGIN');
+
+    const insertMetadata = db.prepare('INSERT INTO metadata VALUES (?, ?)');
+    for (const [key, value] of Object.entries(metadata)) {
+      insertMetadata.run(key, typeof value === 'string' ? value : JSON.stringify(value));
+    }
+
+    const insertCell = db.prepare('INSERT INTO cells VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
+    const insertCliff = db.prepare('INSERT INTO cliffs VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)');
+    const insertLine = db.prepare('INSERT INTO cliff_lines VALUES (?, ?, ?, ?, ?, ?, ?)');
+    const insertSlope = db.prepare('INSERT INTO slopes VALUES (?, ?, ?, ?, ?, ?)');
+
+    for (const { cell, ...result } of results) {
+      insertCell.run(
+        cell.id, formatTileName(cell.lat, cell.lon), cell.west, cell.south, cell.east, cell.north,
+        result.status, result.cliffs, result.lines, result.slopeCells,
+        result.resolution, result.seconds, result.missingTiles.join(' ')
+      );
+
+      for (const { geometry, properties } of result.features) {
+        const { layer, cell: cellId, ...rest } = properties as Record<string, string & number>;
+        if (layer === 'cliff') {
+          const [lng, lat] = (geometry as GeoJSON.Point).coordinates;
+          insertCliff.run(
+            rest.id, cellId, lng, lat, rest.area, rest.maxHeightDiff, rest.maxSlope, rest.facing, JSON.stringify(rest)
+          );
+        } else if (layer === 'cliff-line') {
+          insertLine.run(
+            rest.cliffId, cellId, rest.length, rest.maxDrop, rest.facing, JSON.stringify(geometry), JSON.stringify(rest)
+          );
+        } else if (layer === 'slope') {
+          // Slope cells are stored by their centre
+          const ring = (geometry as GeoJSON.Polygon).coordinates[0];
+          const lng = (ring[0][0] + ring[2][0]) / 2;
+          const lat = (ring[0][1] + ring[2][1]) / 2;
+          insertSlope.run(cellId, lng, lat, rest.slope, rest.aspect, rest.elevation);
+        }
+      }
+    }
+
+    db.exec('COMMIT');
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Totals per tile, as CSV and as printed
+ */
+function summarizeTiles(results: ScanCellResult[], failures: CellFailure[], cells: ScanCell[]) {
+  const tiles = new Map<string, { cells: number; done: number; noData: number; failed: number; cliffs: number; lines: number; slopeCells: number; seconds: number }>();
+  const tileOf = new Map(cells.map((cell) => [cell.id, formatTileName(cell.lat, cell.lon)]));
+  const get = (tile: string) => {
+    let entry = tiles.get(tile);
+    if (!entry) {
+      entry = { cells: 0, done: 0, noData: 0, failed: 0, cliffs: 0, lines: 0, slopeCells: 0, seconds: 0 };
+      tiles.set(tile, entry);
+    }
+    return entry;
+  };
+
+  for (const result of results) {
+    const entry = get(tileOf.get(result.cell.id)!);
+    entry.cells++;
+    entry[result.status === 'done' ? 'done' : 'noData']++;
+    entry.cliffs += result.cliffs;
+    entry.lines += result.lines;
+    entry.slopeCells += result.slopeCells;
+    entry.seconds += result.seconds;
+  }
+  for (const failure of failures) {
+    const entry = get(tileOf.get(failure.cellId)!);
+    entry.cells++;
+    entry.failed++;
+  }
+
+  return [...tiles.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+async function main() {
+  const source = readOption('source') ?? (readOption('dem') ? 'local' : 'glo30');
+  if (!['glo30', 'glo90', 'local'].includes(source)) {
+    throw new Error('--source must be glo30, glo90 or local');
+  }
+  const dem = readOption('dem');
+  if (source === 'local' && !dem && !process.env.DEM_LOCAL_URL) {
+    throw new Error('The local source needs --dem <URL or directory>');
+  }
+
+  // Read by lib/dem-sources when the workers load it
+  process.env.NEXT_PUBLIC_DEM_SOURCE = source;
+  if (dem) process.env.DEM_LOCAL_URL = /^https?:\/\//i.test(dem) ? dem : path.resolve(dem);
+
+  const out = readOption('out') ?? 'cliffs.geojson';
+  const format = (readOption('format') ?? (/\.(sqlite|db)$/i.test(out) ? 'sqlite' : 'geojson')) as OutputFormat;
+  if (format !== 'geojson' && format !== 'sqlite') {
+    throw new Error('--format must be geojson or sqlite');
+  }
+
+  const split = readNumber('split', 1);
+  if (!Number.isInteger(split)) throw new Error('--split expects a positive integer');
+  const workerCount = Math.floor(readNumber('workers', Math.min(availableParallelism(), 4)));
+
+  const criteria: CliffCriteria = {
+    minAngle: readNumber('min-angle', DEFAULT_CLIFF_CRITERIA.minAngle),
+    evaluationDistance: readNumber('evaluation-distance', DEFAULT_CLIFF_CRITERIA.evaluationDistance),
+    minDrop: readNumber('min-drop', DEFAULT_CLIFF_CRITERIA.minDrop, { positive: false }),
+    minExtent: readNumber('min-extent', DEFAULT_CLIFF_CRITERIA.minExtent, { positive: false }),
+  };
+  if (criteria.minAngle >= 90) throw new Error('--min-angle must be below 90 degrees');
+  if (criteria.minDrop < 0 || criteria.minExtent < 0) {
+    throw new Error('--min-drop and --min-extent must not be negative');
+  }
+
+  const slopeAlgorithm = (readOption('algorithm') ?? 'horn') as SlopeAlgorithm;
+  if (!SLOPE_ALGORITHMS.some(({ id }) => id === slopeAlgorithm)) {
+    throw new Error(`--algorithm must be one of ${SLOPE_ALGORITHMS.map(({ id }) => id).join(', ')}`);
+  }
+  const options: ScanOptions = {
+    criteria,
+    halo: readNumber('halo', 300),
+    coastal: hasFlag('coastal')
+      ? {
+          seaLevel: readNumber('sea-level', DEFAULT_COASTAL_PARAMS.seaLevel, { positive: false }),
+          maxCoastDistance: readNumber('max-coast-distance', DEFAULT_COASTAL_PARAMS.maxCoastDistance),
+        }
+      : null,
+    slopes: hasFlag('slopes')
+      ? {
+          minSlope: criteria.minAngle,
+          cellSize: readNumber('slope-cell-size', 90),
+          algorithm: slopeAlgorithm,
+        }
+      : null,
+  };
+
+  // Fail before scanning rather than after
+  if (format === 'sqlite') (await openSqlite(':memory:')).close();
+
+  const { cells, region } = await readCells(split);
+  if (cells.length === 0) throw new Error('The region has no cells');
+
+  const partsDir = `${out}.parts`;
+  const settings: PartsSettings = {
+    source,
+    dem: source === 'local' ? process.env.DEM_LOCAL_URL ?? null : null,
+    split,
+    ...options,
+  };
+  if (hasFlag('resume')) {
+    await checkPartsSettings(partsDir, settings);
+  } else {
+    await rm(partsDir, { recursive: true, force: true });
+  }
+  await mkdir(partsDir, { recursive: true });
+  await writeFile(path.join(partsDir, SETTINGS_FILE), JSON.stringify(settings, null, 2));
+
+  const finished = await readParts(partsDir);
+  const results = cells.flatMap((cell) => finished.get(cell.id) ?? []);
+  const pending = cells.filter((cell) => !finished.has(cell.id));
+  const failures: CellFailure[] = [];
+
+  console.log(
+    `${DEM_SOURCES[source as 'glo30'].name}, ${region}: ${cells.length} cells, ` +
+      `${results.length} already done, ${pending.length} to scan on ${workerCount} workers`
+  );
+  console.log(`Cliffs: ${describeCriteria(criteria)}`);
+
+  const started = Date.now();
+  let count = results.length;
+  await runWorkers(
+    pending,
+    options,
+    workerCount,
+    async (result) => {
+      await writePart(partsDir, result);
+      results.push(result);
+      count++;
+      const detail = result.status === 'done' ? `${result.cliffs} cliffs, ${result.lines} lines` : 'no data';
+      console.log(`[${count}/${cells.length}] ${result.cell.id}: ${detail} (${result.seconds.toFixed(1)} s)`);
+    },
+    (failure) => {
+      failures.push(failure);
+      count++;
+      console.error(`[${count}/${cells.length}] ${failure.cellId}: failed, ${failure.error}`);
+    }
+  );
+
+  // Cell order, so reruns give the same output
+  const order = new Map(cells.map((cell, i) => [cell.id, i]));
+  results.sort((a, b) => order.get(a.cell.id)! - order.get(b.cell.id)!);
+
+  const metadata = {
+    generated: new Date().toISOString(),
+    region,
+    elevationSource: source,
+    criteria,
+    cliffDetection: { ...getDetectionParams(criteria), halo: options.halo },
+    coastal: options.coastal,
+    slopes: options.slopes,
+    cells: cells.length,
+    failedCells: failures.map(({ cellId }) => cellId),
+    attribution: [DEM_SOURCES[source as 'glo30'].attribution],
+  };
+  if (format === 'sqlite') {
+    await writeSqlite(out, results, metadata);
+  } else {
+    await writeGeoJSON(out, results, metadata);
+  }
+
+  const tiles = summarizeTiles(results, failures, cells);
+  const report = [
+    'tile,cells,done,no_data,failed,cliffs,lines,slope_cells,seconds',
+    ...tiles.map(([tile, t]) => [tile, t.cells, t.done, t.noData, t.failed, t.cliffs, t.lines, t.slopeCells, t.seconds.toFixed(1)].join(',')),
+  ];
+  await writeFile(`${out}.report.csv`, report.join('\n') + '\n');
+
+  console.log('\ntile      cliffs   lines');
+  for (const [tile, t] of tiles) {
+    const status = t.failed ? `  ${t.failed} cells failed` : t.done === 0 ? '  no data' : '';
+    console.log(`${tile.padEnd(8)} ${String(t.cliffs).padStart(7)} ${String(t.lines).padStart(7)}${status}`);
+  }
+  const totalCliffs = results.reduce((sum, result) => sum + result.cliffs, 0);
+  console.log(
+    `\n${totalCliffs} cliffs written to ${out} in ${((Date.now() - started) / 1000).toFixed(0)} s, ` +
+      `report in ${out}.report.csv`
+  );
+
+  // Parts are kept while cells remain to retry with --resume
+  if (failures.length > 0) {
+    console.error(`${failures.length} cells failed, run again with --resume to retry them`);
+    process.exit(1);
+  }
+  await rm(partsDir, { recursive: true, force: true });
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});